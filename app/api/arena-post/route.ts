@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server"
 import { fetchWithRetry } from "@/lib/arena-socials"
+import { formatAvaxAmount } from "@/lib/bonding-curve"
+import { formatDuration, type GraduationAlert } from "@/lib/graduation"
 
 // Helper function to get ordinal numbers (1st, 2nd, 3rd, etc.)
 function getOrdinalNumber(num: number): string {
@@ -49,18 +51,33 @@ function formatAvaxValue(value: string): string {
   }
 }
 
+function createGraduationMessage(alert: GraduationAlert): string {
+  const tokenDisplay = alert.tokenName ? `$${alert.tokenSymbol} (${alert.tokenName})` : `$${alert.tokenSymbol}`
+  const duration =
+    alert.timeToGraduateSeconds !== null ? ` after ${formatDuration(alert.timeToGraduateSeconds)} on the curve` : ""
+
+  return `🎓 ${tokenDisplay} by @${alert.creatorUsername} (https://arena.social/${alert.creatorUsername}) just graduated${duration}.<br><br>Its liquidity pool is live — trading has moved off the bonding curve.`
+}
+
 export async function POST(request: Request) {
   try {
     // Parse the request body
-    const { username, tokenSymbol, tokenName, contractsCreated, isChampion, arenaProfile } = await request.json()
+    const body = await request.json()
+    const isGraduation = body.alertType === "graduation"
+    const { username, tokenSymbol, tokenName, contractsCreated, isChampion, arenaProfile, priceQuote, holderStats } =
+      body
+
+    if (isGraduation && (!body.creatorUsername || !body.tokenSymbol)) {
+      return NextResponse.json({ success: false, error: "Missing required fields" }, { status: 400 })
+    }
 
     // Validate required fields
-    if (!username || !tokenSymbol || !contractsCreated) {
+    if (!isGraduation && (!username || !tokenSymbol || !contractsCreated)) {
       return NextResponse.json({ success: false, error: "Missing required fields" }, { status: 400 })
     }
 
     console.log(
-      `📝 API: Posting to Arena timeline for @${username} - token: ${tokenSymbol} ${isChampion ? "(CHAMPION 🏆)" : ""}`,
+      `📝 API: Posting to Arena timeline for @${username || body.creatorUsername} - token: ${tokenSymbol} ${isChampion ? "(CHAMPION 🏆)" : ""}`,
     )
 
     // Check if this is a heavy hitter
@@ -70,10 +87,13 @@ export async function POST(request: Request) {
       console.log(`🚀 HEAVY HITTER DETECTED! @${username} - ${isHeavyHitter.reason}`)
     }
 
-    // Build the message based on priority: Champion > Heavy Hitter > Regular
+    // Build the message based on priority: Graduation > Champion > Heavy Hitter > Regular
     let message: string
 
-    if (isChampion) {
+    if (isGraduation) {
+      message = createGraduationMessage(body as GraduationAlert)
+      console.log(`🎓 Graduation message: ${message}`)
+    } else if (isChampion) {
       // Champion-specific message (highest priority)
       const tokenDisplay = tokenName ? `$${tokenSymbol} (${tokenName})` : `$${tokenSymbol}`
       message = `🏆 Arena Champion @${username} (https://arena.social/${username}) just launched a new token: ${tokenDisplay}.<br><br>This might be worth watching closely 👀`
@@ -99,6 +119,16 @@ export async function POST(request: Request) {
       console.log(`📝 Regular message: ${message}`)
     }
 
+    // Live bonding-curve quote, when the monitor could read one
+    if (priceQuote) {
+      message += `<br><br>Price: ${formatAvaxAmount(priceQuote.spotPrice)} AVAX • MC: ${formatAvaxAmount(priceQuote.marketCap)} AVAX • ${priceQuote.graduationProgress.toFixed(1)}% to graduation`
+    }
+
+    // Holder concentration, for launches and graduations the holder indexer has seen
+    if (holderStats) {
+      message += `<br><br>Holders: ${holderStats.holderCount} • Top 10: ${holderStats.top10Percentage.toFixed(1)}% • Creator: ${holderStats.creatorPercentage.toFixed(1)}%`
+    }
+
     // Check if we have the bearer token
     if (!process.env.ARENA_BEARER_TOKEN) {
       console.error("❌ ARENA_BEARER_TOKEN not found in environment variables")
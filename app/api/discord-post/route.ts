@@ -1,4 +1,10 @@
 import { NextResponse } from "next/server"
+import { formatAvaxAmount } from "@/lib/bonding-curve"
+import { getExplorerUrl } from "@/lib/chains"
+import { formatDuration, type GraduationAlert } from "@/lib/graduation"
+import type { HolderStats } from "@/lib/holders"
+import type { RugAlert } from "@/lib/rug-detector"
+import type { SniperStats } from "@/lib/snipers"
 
 // Helper function to format AVAX amount
 function formatAvax(amount: number): string {
@@ -17,6 +23,12 @@ function formatFollowers(count: number): string {
   return count.toString()
 }
 
+// Markdown link to the active chain's block explorer, or the bare label on chains without one
+function explorerLink(kind: "tx" | "address", value: string, label: string): string {
+  const url = getExplorerUrl(kind, value)
+  return url ? `[${label}](${url})` : label
+}
+
 // Helper function to get ordinal numbers (1st, 2nd, 3rd, etc.)
 function getOrdinalNumber(num: number): string {
   const suffix = ["th", "st", "nd", "rd"]
@@ -175,10 +187,240 @@ function createDiscordEmbed(
   return embed
 }
 
+// Holder count and concentration fields, when the holder indexer has seen the token
+function createHolderFields(holderStats: HolderStats) {
+  return [
+    {
+      name: "Holders",
+      value: holderStats.holderCount.toLocaleString(),
+      inline: true,
+    },
+    {
+      name: "Top 10",
+      value: `${holderStats.top10Percentage.toFixed(1)}%`,
+      inline: true,
+    },
+    {
+      name: "Creator Share",
+      value: `${holderStats.creatorPercentage.toFixed(1)}%`,
+      inline: true,
+    },
+  ]
+}
+
+// Share of the supply bought in the first blocks of the launch, with the biggest repeat sniper
+function createSniperField(sniperStats: SniperStats) {
+  const repeat = sniperStats.snipers.reduce((max, sniper) => Math.max(max, sniper.launchesSniped ?? 0), 0)
+  const blocks = sniperStats.windowBlocks === 0 ? "launch block" : `first ${sniperStats.windowBlocks + 1} blocks`
+
+  return {
+    name: "Sniped",
+    value:
+      `${sniperStats.snipedPercentage.toFixed(1)}% by ${sniperStats.sniperCount} wallet(s) in the ${blocks}` +
+      (repeat > 1 ? ` • top sniper hit ${repeat} launches` : ""),
+    inline: false,
+  }
+}
+
+// Graduations go to their own channel when one is configured, otherwise to the general channel
+async function postGraduationAlert(alert: GraduationAlert) {
+  const webhookUrl = process.env.DISCORD_WEBHOOK_GRADUATIONS || process.env.DISCORD_WEBHOOK_GENERAL
+
+  if (!webhookUrl) {
+    console.error("❌ No webhook URL found for graduation alerts")
+    return NextResponse.json({ error: "Webhook URL not configured" }, { status: 500 })
+  }
+
+  const creator = alert.creatorUsername
+    ? `[@${alert.creatorUsername}](https://arena.xyz/@${alert.creatorUsername})`
+    : explorerLink("address", alert.creatorAddress, `${alert.creatorAddress.substring(0, 8)}...`)
+
+  const embed = {
+    title: `🎓 GRADUATED: $${alert.tokenSymbol} left the bonding curve`,
+    color: 0x2ecc71, // Green for graduations
+    description: alert.tokenName
+      ? `**${alert.tokenName}** now trades in its own liquidity pool`
+      : "Now trading in its own liquidity pool",
+    fields: [
+      {
+        name: "Creator",
+        value: creator,
+        inline: true,
+      },
+      {
+        name: "Time to Graduate",
+        value: alert.timeToGraduateSeconds !== null ? formatDuration(alert.timeToGraduateSeconds) : "Unknown",
+        inline: true,
+      },
+      {
+        name: "Contract Address",
+        value: explorerLink(
+          "address",
+          alert.tokenAddress,
+          `${alert.tokenAddress.substring(0, 8)}...${alert.tokenAddress.substring(36)}`,
+        ),
+        inline: false,
+      },
+    ],
+    footer: {
+      text: "TokenMonitor by Arena",
+    },
+    timestamp: new Date().toISOString(),
+  }
+
+  if (alert.pairAddress) {
+    embed.fields.push({
+      name: "Pair",
+      value: explorerLink("address", alert.pairAddress, `${alert.pairAddress.substring(0, 8)}...`),
+      inline: true,
+    })
+  }
+
+  if (alert.holderStats) {
+    embed.fields.push(...createHolderFields(alert.holderStats))
+  }
+
+  if (alert.sniperStats) {
+    embed.fields.push(createSniperField(alert.sniperStats))
+  }
+
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ username: "TokenMonitor Bot", embeds: [embed] }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`❌ Discord webhook error: ${response.status} - ${errorText}`)
+    return NextResponse.json({ error: `Discord webhook failed: ${response.status}` }, { status: response.status })
+  }
+
+  const channelType = webhookUrl === process.env.DISCORD_WEBHOOK_GRADUATIONS ? "graduations" : "general"
+  console.log(`✅ Discord graduation post sent to ${channelType} channel for $${alert.tokenSymbol}`)
+  return NextResponse.json({ success: true, channel: channelType })
+}
+
+const RUG_EVENT_TITLES: Record<RugAlert["eventType"], string> = {
+  CREATOR_SELL: "Creator is selling",
+  CREATOR_TRANSFER: "Creator moved tokens out",
+  LIQUIDITY_REMOVAL: "Creator pulled liquidity",
+}
+
+const RUG_SEVERITY_COLORS: Record<RugAlert["severity"], number> = {
+  low: 0x95a5a6, // Grey
+  medium: 0xf1c40f, // Yellow
+  high: 0xe67e22, // Orange
+  critical: 0xe74c3c, // Red
+}
+
+// Rug warnings go to their own channel when one is configured, otherwise to the general channel
+async function postRugAlert(alert: RugAlert) {
+  const webhookUrl = process.env.DISCORD_WEBHOOK_RUGS || process.env.DISCORD_WEBHOOK_GENERAL
+
+  if (!webhookUrl) {
+    console.error("❌ No webhook URL found for rug alerts")
+    return NextResponse.json({ error: "Webhook URL not configured" }, { status: 500 })
+  }
+
+  const creator = alert.creatorUsername
+    ? `[@${alert.creatorUsername}](https://arena.xyz/@${alert.creatorUsername})`
+    : explorerLink("address", alert.creatorAddress, `${alert.creatorAddress.substring(0, 8)}...`)
+  const share =
+    alert.eventType === "LIQUIDITY_REMOVAL"
+      ? `${alert.percentage.toFixed(1)}% of the pool`
+      : `${alert.percentage.toFixed(2)}% of the supply`
+  const history = alert.rugHistory
+
+  const embed = {
+    title: `🚩 ${alert.severity.toUpperCase()}: ${RUG_EVENT_TITLES[alert.eventType]} $${alert.tokenSymbol}`,
+    color: RUG_SEVERITY_COLORS[alert.severity],
+    description: alert.tokenName ? `**${alert.tokenName}** • ${share}` : share,
+    fields: [
+      {
+        name: "Creator",
+        value: creator,
+        inline: true,
+      },
+      {
+        name: "Rug History",
+        value: `${history.events} event(s) on ${history.tokens} token(s), ${history.counts.critical} critical`,
+        inline: true,
+      },
+      {
+        name: "Transaction",
+        value: explorerLink("tx", alert.transactionHash, `${alert.transactionHash.substring(0, 10)}...`),
+        inline: false,
+      },
+      {
+        name: "Contract Address",
+        value: explorerLink(
+          "address",
+          alert.tokenAddress,
+          `${alert.tokenAddress.substring(0, 8)}...${alert.tokenAddress.substring(36)}`,
+        ),
+        inline: false,
+      },
+    ],
+    footer: {
+      text: "TokenMonitor by Arena",
+    },
+    timestamp: new Date().toISOString(),
+  }
+
+  if (alert.avaxAmount) {
+    embed.fields.splice(1, 0, {
+      name: "AVAX",
+      value: `${formatAvaxValue(alert.avaxAmount)} AVAX`,
+      inline: true,
+    })
+  }
+
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ username: "TokenMonitor Bot", embeds: [embed] }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`❌ Discord webhook error: ${response.status} - ${errorText}`)
+    return NextResponse.json({ error: `Discord webhook failed: ${response.status}` }, { status: response.status })
+  }
+
+  const channelType = webhookUrl === process.env.DISCORD_WEBHOOK_RUGS ? "rugs" : "general"
+  console.log(`✅ Discord rug alert sent to ${channelType} channel for $${alert.tokenSymbol}`)
+  return NextResponse.json({ success: true, channel: channelType })
+}
+
 export async function POST(request: Request) {
   try {
-    const { username, tokenSymbol, tokenName, contractsCreated, isChampion, arenaProfile, contractAddress } =
-      await request.json()
+    const body = await request.json()
+
+    if (body.alertType === "graduation") {
+      return await postGraduationAlert(body as GraduationAlert)
+    }
+
+    if (body.alertType === "rug") {
+      return await postRugAlert(body as RugAlert)
+    }
+
+    const {
+      username,
+      tokenSymbol,
+      tokenName,
+      contractsCreated,
+      isChampion,
+      arenaProfile,
+      contractAddress,
+      priceQuote,
+      holderStats,
+      sniperStats,
+    } = body
 
     // Determine which webhook to use based on user type
     let webhookUrl: string | undefined
@@ -239,7 +481,11 @@ export async function POST(request: Request) {
       if (contractAddress) {
         embed.fields.push({
           name: "Contract Address",
-          value: `[${contractAddress.substring(0, 8)}...${contractAddress.substring(36)}](https://snowtrace.io/address/${contractAddress})`,
+          value: explorerLink(
+            "address",
+            contractAddress,
+            `${contractAddress.substring(0, 8)}...${contractAddress.substring(36)}`,
+          ),
           inline: false,
         })
       }
@@ -259,6 +505,35 @@ export async function POST(request: Request) {
       })
     }
 
+    // Live bonding-curve quote, when the monitor could read one
+    if (priceQuote) {
+      embed.fields.push(
+        {
+          name: "Price",
+          value: `${formatAvaxAmount(priceQuote.spotPrice)} AVAX`,
+          inline: true,
+        },
+        {
+          name: "Market Cap",
+          value: `${formatAvaxAmount(priceQuote.marketCap)} AVAX`,
+          inline: true,
+        },
+        {
+          name: "Curve Progress",
+          value: `${priceQuote.graduationProgress.toFixed(1)}%`,
+          inline: true,
+        },
+      )
+    }
+
+    if (holderStats) {
+      embed.fields.push(...createHolderFields(holderStats))
+    }
+
+    if (sniperStats) {
+      embed.fields.push(createSniperField(sniperStats))
+    }
+
     // Prepare the webhook payload
     const payload = {
       username: "TokenMonitor Bot",
@@ -1,6 +1,7 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ArenaContractInfo } from "@/components/arena-contract-info"
 import { TransactionAnalyzer } from "@/components/transaction-analyzer"
+import { BulkAnalyzer } from "@/components/bulk-analyzer"
 import ContractTransactions from "@/components/contract-transactions"
 import { ArenaDebug } from "@/components/arena-debug"
 import { CreatorsDashboard } from "@/components/creators-dashboard"
@@ -23,8 +24,9 @@ export default function Home() {
         <TabsContent value="tokens">
           <ContractTransactions />
         </TabsContent>
-        <TabsContent value="analyzer">
+        <TabsContent value="analyzer" className="space-y-6">
           <TransactionAnalyzer />
+          <BulkAnalyzer />
         </TabsContent>
         <TabsContent value="creators">
           <CreatorsDashboard />
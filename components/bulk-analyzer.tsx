@@ -0,0 +1,234 @@
+"use client"
+
+import { useState, type ChangeEvent } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, Loader2, Play, Upload } from "lucide-react"
+import {
+  MAX_BLOCK_RANGE,
+  analyzeTransactions,
+  getLaunchpadTransactionHashes,
+  parseTransactionHashes,
+  rowsToCsv,
+  rowsToJson,
+  type BulkAnalysisRow,
+} from "@/lib/bulk-analysis"
+import { useToast } from "@/hooks/use-toast"
+import { ExplorerLink } from "./explorer-link"
+
+type Source = "hashes" | "blocks"
+
+function formatAddress(address: string): string {
+  return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`
+}
+
+function download(contents: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Run the analyzer over a list of hashes or every launchpad transaction in a block range
+export function BulkAnalyzer() {
+  const [source, setSource] = useState<Source>("hashes")
+  const [hashText, setHashText] = useState("")
+  const [fromBlock, setFromBlock] = useState("")
+  const [toBlock, setToBlock] = useState("")
+  const [rows, setRows] = useState<BulkAnalysisRow[]>([])
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [loading, setLoading] = useState(false)
+  const { toast } = useToast()
+
+  const hashes = parseTransactionHashes(hashText)
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    setHashText(await file.text())
+    event.target.value = ""
+  }
+
+  const collectHashes = async (): Promise<string[]> => {
+    if (source === "hashes") return hashes
+    return getLaunchpadTransactionHashes(BigInt(fromBlock), BigInt(toBlock))
+  }
+
+  const handleRun = async () => {
+    setLoading(true)
+    setRows([])
+    try {
+      const targets = await collectHashes()
+      if (targets.length === 0) {
+        toast({ title: "Nothing to analyze", description: "No transactions were found" })
+        return
+      }
+
+      setProgress({ done: 0, total: targets.length })
+      const results = await analyzeTransactions(targets, {
+        onProgress: (done, total) => setProgress({ done, total }),
+      })
+      setRows(results)
+    } catch (error) {
+      console.error("❌ Error running bulk analysis:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Bulk analysis failed",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const canRun = source === "hashes" ? hashes.length > 0 : /^\d+$/.test(fromBlock) && /^\d+$/.test(toBlock)
+  const failed = rows.filter((row) => row.status !== "success").length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bulk Analysis</CardTitle>
+        <CardDescription>Analyze many transactions at once and export the results</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant={source === "hashes" ? "default" : "outline"} size="sm" onClick={() => setSource("hashes")}>
+            Transaction hashes
+          </Button>
+          <Button variant={source === "blocks" ? "default" : "outline"} size="sm" onClick={() => setSource("blocks")}>
+            Block range
+          </Button>
+        </div>
+
+        {source === "hashes" ? (
+          <div className="space-y-2">
+            <textarea
+              placeholder="Paste transaction hashes, one per line or comma separated"
+              value={hashText}
+              onChange={(e) => setHashText(e.target.value)}
+              rows={5}
+              className="w-full rounded-md border bg-background px-3 py-2 font-mono text-xs"
+            />
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>{hashes.length} unique hash(es)</span>
+              <label className="flex cursor-pointer items-center gap-1 hover:text-foreground">
+                <Upload className="h-4 w-4" />
+                Upload a .txt or .csv file
+                <input type="file" accept=".txt,.csv" className="hidden" onChange={handleUpload} />
+              </label>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input placeholder="From block" value={fromBlock} onChange={(e) => setFromBlock(e.target.value.trim())} />
+              <Input placeholder="To block" value={toBlock} onChange={(e) => setToBlock(e.target.value.trim())} />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Launches, buys and sells on the launchpad contracts, up to {MAX_BLOCK_RANGE.toString()} blocks
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Button onClick={handleRun} disabled={loading || !canRun}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+            Analyze
+          </Button>
+          {progress && (
+            <span className="text-sm text-muted-foreground">
+              {progress.done}/{progress.total} analyzed
+            </span>
+          )}
+          {rows.length > 0 && (
+            <div className="ml-auto flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => download(rowsToCsv(rows), "transaction-analysis.csv", "text/csv")}
+              >
+                <Download className="h-4 w-4" />
+                CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => download(rowsToJson(rows), "transaction-analysis.json", "application/json")}
+              >
+                <Download className="h-4 w-4" />
+                JSON
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {rows.length > 0 && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {rows.length} transaction(s) • {failed} failed or unavailable
+            </p>
+            <div className="overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>Block</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Gas Used</TableHead>
+                    <TableHead className="text-right">Events</TableHead>
+                    <TableHead>Token Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.hash}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-xs" title={row.hash}>
+                            {formatAddress(row.hash)}
+                          </span>
+                          <ExplorerLink kind="tx" value={row.hash} className="h-6 px-2 text-xs">
+                            View
+                          </ExplorerLink>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">{row.blockNumber ?? "-"}</TableCell>
+                      <TableCell className="text-xs">{row.method ?? "-"}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={row.status === "success" ? "default" : "destructive"}
+                          title={row.error ?? undefined}
+                        >
+                          {row.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right text-xs">
+                        {row.gasUsed ? Number(row.gasUsed).toLocaleString() : "-"}
+                      </TableCell>
+                      <TableCell className="text-right text-xs">{row.events}</TableCell>
+                      <TableCell className="text-xs">
+                        {row.tokenAddress ? (
+                          <span title={row.tokenAddress}>
+                            {row.tokenSymbol ?? "?"} ({formatAddress(row.tokenAddress)})
+                          </span>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
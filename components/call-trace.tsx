@@ -0,0 +1,93 @@
+"use client"
+
+import { formatEther } from "viem"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import type { CallTrace, TraceCall } from "@/lib/call-trace"
+
+interface CallTraceViewProps {
+  trace: CallTrace
+}
+
+function formatAddress(address: string): string {
+  return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`
+}
+
+function CallNode({ call }: { call: TraceCall }) {
+  return (
+    <div className={call.depth > 0 ? "ml-4 border-l pl-3" : ""}>
+      <div className={`flex flex-wrap items-center gap-2 py-1 text-xs ${call.reverted ? "text-red-700" : ""}`}>
+        <Badge variant="outline" className="text-[10px]">
+          {call.type}
+        </Badge>
+        <span className="font-mono" title={call.from}>
+          {formatAddress(call.from)}
+        </span>
+        <span className="text-muted-foreground">→</span>
+        <span className="font-mono" title={call.to ?? undefined}>
+          {call.to ? formatAddress(call.to) : "new contract"}
+        </span>
+        <span className="font-semibold">{call.method ?? call.methodId ?? "(no calldata)"}</span>
+        {BigInt(call.value) > 0n && <Badge variant="secondary">{formatEther(BigInt(call.value))} AVAX</Badge>}
+        {call.error && (
+          <Badge variant="destructive" title={call.error}>
+            reverted
+          </Badge>
+        )}
+        {call.reverted && !call.error && <span className="text-muted-foreground">(rolled back)</span>}
+      </div>
+      {call.calls.map((child, index) => (
+        <CallNode key={index} call={child} />
+      ))}
+    </div>
+  )
+}
+
+// Internal call tree and AVAX movements of a traced transaction
+export function CallTraceView({ trace }: CallTraceViewProps) {
+  if (!trace.supported || !trace.root) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Internal Calls</CardTitle>
+          <CardDescription>
+            The RPC endpoint couldn&apos;t trace this transaction
+            {trace.error ? `: ${trace.error}` : " (debug_traceTransaction is not available)."}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Internal Calls</CardTitle>
+        <CardDescription>
+          {trace.valueTransfers.length} value transfer(s) • {trace.revertedCalls} reverted sub-call(s)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-auto">
+          <CallNode call={trace.root} />
+        </div>
+
+        {trace.valueTransfers.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-muted-foreground mb-2">Value Transfers</h4>
+            <div className="space-y-1 text-xs">
+              {trace.valueTransfers.map((transfer, index) => (
+                <div key={index} className="flex justify-between">
+                  <span className="font-mono">
+                    {formatAddress(transfer.from)} → {formatAddress(transfer.to)}
+                  </span>
+                  <span>{formatEther(BigInt(transfer.value))} AVAX</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,11 +1,10 @@
 "use client"
 
-import { useEffect, useState, useCallback, useRef } from "react"
+import { useEffect, useState, useCallback, useRef, useMemo } from "react"
 import { formatDistanceToNow } from "date-fns"
 import {
   Loader2,
   RefreshCw,
-  ExternalLink,
   TrendingUp,
   TrendingDown,
   Plus,
@@ -15,6 +14,7 @@ import {
   Copy,
   Check,
   Coins,
+  Users,
 } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -22,17 +22,35 @@ import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
 import {
   fetchContractTransactions,
+  isHeadlessIndexerEnabled,
   subscribeToContractTransactions,
   type ContractTransaction,
   type TransactionType,
 } from "@/lib/blockchain"
+import { getStoredTokenCreations } from "@/lib/database"
+import { getContractLabel, getLaunchpadContracts } from "@/lib/contracts"
 import { MonitoringStatus } from "./monitoring-status"
 import { CreatorProfile } from "./creator-profile"
 // Add the database status component and enhanced monitoring
 // Import the new components at the top
 import { DatabaseStatus } from "./database-status"
+import { RpcHealth } from "./rpc-health"
+import { LaunchParamsSummary } from "./launch-params"
+import { CurvePrice } from "./curve-price"
+import { TradeStats } from "./trade-stats"
+import { PoolStats } from "./pool-stats"
+import { TokenDetails } from "./token-details"
+import { ExplorerLink } from "./explorer-link"
+import { getLaunchParamsBaseline } from "@/lib/launch-params"
+import { formatDuration } from "@/lib/graduation"
 import { createDatabaseSavingCallback } from "@/lib/blockchain-enhanced"
 
+const STORED_POLL_INTERVAL = 10000 // Poll the database every 10 seconds in worker mode
+
+// The contract filter and labels only matter once more than one launchpad is configured
+const launchpadContracts = getLaunchpadContracts()
+const showContracts = launchpadContracts.length > 1
+
 export default function ContractTransactions() {
   const [transactions, setTransactions] = useState<ContractTransaction[]>([])
   const [loading, setLoading] = useState(true)
@@ -40,6 +58,8 @@ export default function ContractTransactions() {
   const [filter] = useState<TransactionType | "ALL">("TOKEN_CREATION") // Default to TOKEN_CREATION, removed setter
   const [copiedHash, setCopiedHash] = useState<string | null>(null)
   const [newTransactionCount, setNewTransactionCount] = useState(0)
+  const [detailsAddress, setDetailsAddress] = useState<string | null>(null)
+  const [contractFilter, setContractFilter] = useState<string>("ALL")
   const { toast } = useToast()
 
   // Use ref to track if component is mounted
@@ -98,8 +118,10 @@ export default function ContractTransactions() {
     setLoading(true)
     try {
       console.log("Fetching contract transactions...")
-      // Pass the filter to only fetch token creation transactions
-      const txs = await fetchContractTransactions(50, filter === "ALL" ? undefined : filter)
+      // In worker mode the headless indexer already stored everything, otherwise scan the chain directly
+      const txs = isHeadlessIndexerEnabled()
+        ? await getStoredTokenCreations(50)
+        : await fetchContractTransactions(50, filter === "ALL" ? undefined : filter)
 
       if (!isMountedRef.current) return
 
@@ -136,6 +158,20 @@ export default function ContractTransactions() {
     // Initial data fetch
     fetchData()
 
+    if (isHeadlessIndexerEnabled()) {
+      // The worker does the scanning; pick up whatever it stored since the last poll
+      const interval = setInterval(async () => {
+        const stored = await getStoredTokenCreations(20)
+        stored.reverse().forEach(addNewTransaction)
+      }, STORED_POLL_INTERVAL)
+
+      return () => {
+        console.log("Component unmounting...")
+        isMountedRef.current = false
+        clearInterval(interval)
+      }
+    }
+
     // Set up real-time monitoring with database saving
     const databaseCallback = createDatabaseSavingCallback()
 
@@ -257,8 +293,17 @@ export default function ContractTransactions() {
     return null
   }
 
-  // Filter transactions (since we're only fetching TOKEN_CREATION, this should be all of them)
-  const filteredTransactions = transactions
+  // Filter transactions by launchpad (all of them are TOKEN_CREATION already)
+  const filteredTransactions =
+    contractFilter === "ALL"
+      ? transactions
+      : transactions.filter((tx) => tx.contractAddress?.toLowerCase() === contractFilter.toLowerCase())
+
+  // Most common launch configuration among the loaded launches, to flag unusual fee or sale settings
+  const launchParamsBaseline = useMemo(
+    () => getLaunchParamsBaseline(transactions.flatMap((tx) => (tx.launchParams ? [tx.launchParams] : []))),
+    [transactions],
+  )
 
   if (loading) {
     return (
@@ -280,6 +325,9 @@ export default function ContractTransactions() {
       {/* Database Status */}
       <DatabaseStatus />
 
+      {/* RPC Endpoint Health */}
+      <RpcHealth />
+
       <div className="flex justify-between items-center">
         <div>
           <h2 className="text-xl font-bold flex items-center gap-2">
@@ -300,6 +348,28 @@ export default function ContractTransactions() {
         </Button>
       </div>
 
+      {showContracts && (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant={contractFilter === "ALL" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setContractFilter("ALL")}
+          >
+            All launchpads
+          </Button>
+          {launchpadContracts.map((contract) => (
+            <Button
+              key={contract.id}
+              variant={contractFilter === contract.address ? "default" : "outline"}
+              size="sm"
+              onClick={() => setContractFilter(contract.address)}
+            >
+              {contract.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
       {filteredTransactions.length === 0 ? (
         <div className="text-center py-20 text-muted-foreground">
           No token creations found. Real-time monitoring is active...
@@ -352,6 +422,19 @@ export default function ContractTransactions() {
                           NEW
                         </Badge>
                       )}
+                      {tx.lifecycle?.state === "graduated" && (
+                        <Badge
+                          className="bg-green-100 text-green-800"
+                          title={
+                            tx.lifecycle.graduatedAt ? new Date(tx.lifecycle.graduatedAt).toLocaleString() : undefined
+                          }
+                        >
+                          🎓 GRADUATED
+                          {tx.lifecycle.timeToGraduateSeconds !== undefined &&
+                            ` IN ${formatDuration(tx.lifecycle.timeToGraduateSeconds).toUpperCase()}`}
+                        </Badge>
+                      )}
+                      {showContracts && <Badge variant="outline">{getContractLabel(tx.contractAddress)}</Badge>}
                       <Badge className={`flex items-center gap-1 ${getTransactionColor(tx.transactionType)}`}>
                         {getTransactionIcon(tx.transactionType)}
                         TOKEN CREATION
@@ -393,6 +476,36 @@ export default function ContractTransactions() {
                     </div>
                   )}
 
+                  {/* Launch Settings */}
+                  {tx.launchParams && (
+                    <div className="p-3 bg-white rounded-lg border border-purple-100">
+                      <LaunchParamsSummary params={tx.launchParams} baseline={launchParamsBaseline} />
+                      {tokenAddress && tx.tokenMetadata?.totalSupply && (
+                        <div className="mt-3">
+                          <CurvePrice
+                            tokenAddress={tokenAddress}
+                            totalSupply={tx.tokenMetadata.totalSupply}
+                            params={tx.launchParams}
+                            contractAddress={tx.contractAddress}
+                          />
+                        </div>
+                      )}
+                      {tokenAddress && (
+                        <div className="mt-3">
+                          <TradeStats tokenAddress={tokenAddress} />
+                        </div>
+                      )}
+                      {tokenAddress && tx.lifecycle?.state === "graduated" && (
+                        <div className="mt-3">
+                          <PoolStats
+                            tokenAddress={tokenAddress}
+                            pairAddress={tx.launchParams?.pairAddress || undefined}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Creator Profile */}
                   {tx.creatorProfile && (
                     <div>
@@ -481,17 +594,21 @@ export default function ContractTransactions() {
                           </a>
                         </Button>
                       )}
+
+                      {/* Holder and trade details from the indexers */}
+                      {tokenAddress && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDetailsAddress(tokenAddress)}
+                          className="flex items-center gap-1"
+                        >
+                          <Users className="h-3 w-3" />
+                          Details
+                        </Button>
+                      )}
                     </div>
-                    <Button variant="outline" size="sm" asChild>
-                      <a
-                        href={`https://snowtrace.io/tx/${tx.hash}`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center"
-                      >
-                        View on Snowtrace <ExternalLink className="ml-2 h-3 w-3" />
-                      </a>
-                    </Button>
+                    <ExplorerLink kind="tx" value={tx.hash} />
                   </div>
                 </CardContent>
               </Card>
@@ -499,6 +616,10 @@ export default function ContractTransactions() {
           })}
         </div>
       )}
+
+      {detailsAddress && (
+        <TokenDetails address={detailsAddress} isOpen={true} onClose={() => setDetailsAddress(null)} />
+      )}
     </div>
   )
 }
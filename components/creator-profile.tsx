@@ -250,6 +250,11 @@ export function CreatorProfile({ creatorProfile, compact = false }: CreatorProfi
                   Ticket: {formatAvaxValue(arenaProfile.keyPrice)} AVAX
                 </div>
               )}
+              {creatorData?.fees_earned && Number(creatorData.fees_earned) > 0 && (
+                <div className="text-xs text-green-600 font-medium">
+                  Fees earned: {formatAvaxValue(creatorData.fees_earned)} AVAX
+                </div>
+              )}
             </div>
             <div className="flex items-center gap-1">
               {arenaProfile.twitter && (
@@ -357,6 +362,12 @@ export function CreatorProfile({ creatorProfile, compact = false }: CreatorProfi
                   Ticket: {formatAvaxValue(arenaProfile.keyPrice)} AVAX
                 </div>
               )}
+              {creatorData?.fees_earned && Number(creatorData.fees_earned) > 0 && (
+                <div className="flex items-center gap-1 text-green-600 font-medium">
+                  <Coins className="h-3 w-3" />
+                  Fees earned: {formatAvaxValue(creatorData.fees_earned)} AVAX
+                </div>
+              )}
               {arenaProfile.totalHolders && Number(arenaProfile.totalHolders) > 0 && (
                 <div className="flex items-center gap-1">
                   <Users className="h-3 w-3" />
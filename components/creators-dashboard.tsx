@@ -6,6 +6,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { supabase } from "@/lib/supabase"
+import { getChainId } from "@/lib/chains"
+import type { RugHistory } from "@/lib/rug-detector"
+import { rankCreatorsByFees } from "@/lib/creator-fees"
+import { formatAvaxValue } from "@/lib/arena-socials"
 
 type Creator = {
   wallet_address: string
@@ -19,6 +23,38 @@ type Creator = {
   }[]
   first_seen_at: string
   last_contract_at: string
+  funding_source: string | null
+  cluster_id: string | null
+  rug_history: Partial<RugHistory> | null
+  fees_earned: string | null
+}
+
+type Cluster = {
+  id: string
+  wallets: string[]
+  contracts: number
+  tickers: string[]
+}
+
+// Creators that share a funding source, largest first
+function groupClusters(creators: Creator[]): Cluster[] {
+  const clusters = new Map<string, Cluster>()
+  for (const creator of creators) {
+    if (!creator.cluster_id) continue
+
+    const cluster = clusters.get(creator.cluster_id) ?? {
+      id: creator.cluster_id,
+      wallets: [],
+      contracts: 0,
+      tickers: [],
+    }
+    cluster.wallets.push(creator.wallet_address)
+    cluster.contracts += creator.contracts_created
+    cluster.tickers.push(...creator.contract_tickers.map((ticker) => ticker.symbol))
+    clusters.set(creator.cluster_id, cluster)
+  }
+
+  return [...clusters.values()].sort((a, b) => b.contracts - a.contracts)
 }
 
 export function CreatorsDashboard() {
@@ -30,6 +66,9 @@ export function CreatorsDashboard() {
     totalContracts: 0,
     avgContractsPerCreator: 0,
   })
+  const clusters = groupClusters(creators)
+  const clusterSizes = new Map(clusters.map((cluster) => [cluster.id, cluster.wallets.length]))
+  const topEarners = rankCreatorsByFees(creators)
 
   useEffect(() => {
     async function fetchCreators() {
@@ -40,6 +79,7 @@ export function CreatorsDashboard() {
         const { data, error } = await supabase
           .from("creators")
           .select("*")
+          .eq("chain_id", getChainId())
           .order("contracts_created", { ascending: false })
 
         if (error) throw error
@@ -111,7 +151,7 @@ export function CreatorsDashboard() {
 
   return (
     <div className="space-y-4">
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Creators</CardTitle>
@@ -136,8 +176,99 @@ export function CreatorsDashboard() {
             <div className="text-2xl font-bold">{stats.avgContractsPerCreator.toFixed(2)}</div>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Creator Clusters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{clusters.length}</div>
+          </CardContent>
+        </Card>
       </div>
 
+      {topEarners.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Earning Creators</CardTitle>
+            <CardDescription>Creator fees earned on the bonding curve across all launches</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Wallet Address</TableHead>
+                  <TableHead>Contracts</TableHead>
+                  <TableHead className="text-right">Fees Earned</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {topEarners.map((creator, index) => (
+                  <TableRow key={creator.wallet_address}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-mono" title={creator.wallet_address}>
+                      {formatAddress(creator.wallet_address)}
+                    </TableCell>
+                    <TableCell>{creator.contracts_created}</TableCell>
+                    <TableCell className="text-right">{formatAvaxValue(creator.fees_earned ?? "0")} AVAX</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {clusters.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Creator Clusters</CardTitle>
+            <CardDescription>Wallets funded from the same source, counted as one serial creator</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Shared Funder</TableHead>
+                  <TableHead>Wallets</TableHead>
+                  <TableHead>Contracts</TableHead>
+                  <TableHead>Tickers</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {clusters.map((cluster) => (
+                  <TableRow key={cluster.id}>
+                    <TableCell className="font-mono" title={cluster.id}>
+                      {formatAddress(cluster.id)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {cluster.wallets.map((wallet) => (
+                          <Badge key={wallet} variant="secondary" className="font-mono" title={wallet}>
+                            {formatAddress(wallet)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{cluster.contracts}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {cluster.tickers.slice(0, 5).map((ticker, i) => (
+                          <Badge key={i} variant="outline">
+                            {ticker}
+                          </Badge>
+                        ))}
+                        {cluster.tickers.length > 5 && <Badge variant="outline">+{cluster.tickers.length - 5}</Badge>}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Token Creators</CardTitle>
@@ -158,6 +289,8 @@ export function CreatorsDashboard() {
                 <TableRow>
                   <TableHead>Wallet Address</TableHead>
                   <TableHead>Contracts</TableHead>
+                  <TableHead>Funded By</TableHead>
+                  <TableHead>Rug History</TableHead>
                   <TableHead>Recent Tickers</TableHead>
                   <TableHead>First Seen</TableHead>
                   <TableHead>Last Activity</TableHead>
@@ -166,7 +299,7 @@ export function CreatorsDashboard() {
               <TableBody>
                 {filteredCreators.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center py-4">
+                    <TableCell colSpan={7} className="text-center py-4">
                       No creators found matching your search
                     </TableCell>
                   </TableRow>
@@ -175,6 +308,35 @@ export function CreatorsDashboard() {
                     <TableRow key={creator.wallet_address}>
                       <TableCell className="font-mono">{formatAddress(creator.wallet_address)}</TableCell>
                       <TableCell>{creator.contracts_created}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <span className="font-mono" title={creator.funding_source ?? undefined}>
+                            {creator.funding_source ? formatAddress(creator.funding_source) : "-"}
+                          </span>
+                          {creator.cluster_id && (
+                            <Badge variant="destructive" title={`Cluster ${creator.cluster_id}`}>
+                              cluster of {clusterSizes.get(creator.cluster_id)}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {creator.rug_history?.events ? (
+                          <Badge
+                            variant={
+                              creator.rug_history.worstSeverity === "critical" ||
+                              creator.rug_history.worstSeverity === "high"
+                                ? "destructive"
+                                : "secondary"
+                            }
+                            title={`Last event ${creator.rug_history.lastEventAt ?? "unknown"}`}
+                          >
+                            {creator.rug_history.events} event(s), worst {creator.rug_history.worstSeverity}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <div className="flex flex-wrap gap-1">
                           {creator.contract_tickers.slice(0, 3).map((ticker, i) => (
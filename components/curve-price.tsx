@@ -0,0 +1,59 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { TokenLaunchParams } from "@/lib/blockchain"
+import { ARENA_CONTRACT_ADDRESS } from "@/lib/contracts"
+import { formatAvaxAmount, getLiveCurveQuote, type CurveQuote } from "@/lib/bonding-curve"
+
+const QUOTE_REFRESH_INTERVAL = 30000
+
+interface CurvePriceProps {
+  tokenAddress: string
+  totalSupply: string
+  params: TokenLaunchParams
+  contractAddress?: string // Launchpad holding the curve, Arena when unknown
+}
+
+export function CurvePrice({
+  tokenAddress,
+  totalSupply,
+  params,
+  contractAddress = ARENA_CONTRACT_ADDRESS,
+}: CurvePriceProps) {
+  const [quote, setQuote] = useState<CurveQuote | null>(null)
+
+  useEffect(() => {
+    const update = async () => {
+      const liveQuote = await getLiveCurveQuote(tokenAddress, contractAddress, params, BigInt(totalSupply))
+      if (liveQuote) setQuote(liveQuote)
+    }
+
+    update()
+    const interval = setInterval(update, QUOTE_REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [tokenAddress, totalSupply, params, contractAddress])
+
+  if (!quote) return null
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <span className="text-muted-foreground">Price:</span>
+          <div className="font-semibold">{formatAvaxAmount(quote.spotPrice)} AVAX</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Market Cap:</span>
+          <div className="font-semibold">{formatAvaxAmount(quote.marketCap)} AVAX</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">To Graduate:</span>
+          <div className="font-semibold">{formatAvaxAmount(quote.costToGraduate)} AVAX</div>
+        </div>
+      </div>
+      <div className="h-1.5 w-full rounded bg-muted overflow-hidden" title={`${quote.graduationProgress}% of the curve sold`}>
+        <div className="h-full bg-purple-500" style={{ width: `${quote.graduationProgress}%` }} />
+      </div>
+    </div>
+  )
+}
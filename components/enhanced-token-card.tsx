@@ -11,12 +11,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import type { TokenData } from "@/lib/blockchain"
 import { getCreator, type Creator } from "@/lib/database-simple"
 import { CreatorProfile } from "@/components/creator-profile"
+import { LaunchParamsSummary } from "@/components/launch-params"
+import { ExplorerLink } from "@/components/explorer-link"
+import type { LaunchParamsBaseline } from "@/lib/launch-params"
 
 interface EnhancedTokenCardProps {
   token: TokenData
+  launchParamsBaseline?: LaunchParamsBaseline
 }
 
-export function EnhancedTokenCard({ token }: EnhancedTokenCardProps) {
+export function EnhancedTokenCard({ token, launchParamsBaseline }: EnhancedTokenCardProps) {
   const [analysis, setAnalysis] = useState<TransactionAnalysis | null>(null)
   const [creatorData, setCreatorData] = useState<Creator | null>(null)
   const [loadingCreator, setLoadingCreator] = useState(false)
@@ -163,6 +167,8 @@ export function EnhancedTokenCard({ token }: EnhancedTokenCardProps) {
             </div>
           )}
 
+          {token.launchParams && <LaunchParamsSummary params={token.launchParams} baseline={launchParamsBaseline} />}
+
           {token.timestamp && (
             <div className="flex justify-between">
               <span className="text-muted-foreground">Created:</span>
@@ -251,16 +257,11 @@ export function EnhancedTokenCard({ token }: EnhancedTokenCardProps) {
                 </Button>
               )}
 
-              <Button variant="outline" size="sm" asChild>
-                <a
-                  href={`https://snowtrace.io/${token.tokenContractAddress || token.address ? "address/" + (token.tokenContractAddress || token.address) : "tx/" + token.hash}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center"
-                >
-                  Snowtrace <ExternalLink className="ml-1 h-3 w-3" />
-                </a>
-              </Button>
+              <ExplorerLink
+                kind={token.tokenContractAddress || token.address ? "address" : "tx"}
+                value={token.tokenContractAddress || token.address || token.hash || ""}
+                short
+              />
             </div>
           </div>
         </div>
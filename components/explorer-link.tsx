@@ -0,0 +1,31 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { ExternalLink } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { getExplorerName, getExplorerUrl } from "@/lib/chains"
+
+interface ExplorerLinkProps {
+  kind: "tx" | "address"
+  value: string
+  children?: ReactNode // Defaults to "View on <explorer>"
+  short?: boolean // Only the explorer's name, for compact cards
+  className?: string
+}
+
+// Block explorer button for the active chain, labelled with its explorer; renders nothing on chains without one
+export function ExplorerLink({ kind, value, children, short, className }: ExplorerLinkProps) {
+  const href = getExplorerUrl(kind, value)
+  if (!href) return null
+
+  const name = getExplorerName() ?? "explorer"
+  const label = children ?? (short ? name : `View on ${name}`)
+
+  return (
+    <Button variant="outline" size="sm" asChild className={className}>
+      <a href={href} target="_blank" rel="noopener noreferrer" className="flex items-center">
+        {label} <ExternalLink className="ml-2 h-3 w-3" />
+      </a>
+    </Button>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle } from "lucide-react"
+import type { TokenLaunchParams } from "@/lib/blockchain"
+import { formatLaunchParam, getUnusualLaunchParams, type LaunchParamsBaseline } from "@/lib/launch-params"
+
+interface LaunchParamsSummaryProps {
+  params: TokenLaunchParams
+  baseline?: LaunchParamsBaseline
+}
+
+export function LaunchParamsSummary({ params, baseline }: LaunchParamsSummaryProps) {
+  const unusual = baseline ? getUnusualLaunchParams(params, baseline) : []
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+        <div>
+          <span className="text-muted-foreground">Sale / LP:</span>
+          <div>
+            {formatLaunchParam("salePercentage", params.salePercentage)} /{" "}
+            {formatLaunchParam("lpPercentage", params.lpPercentage)}
+          </div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Creator Fee:</span>
+          <div>{formatLaunchParam("creatorFeeBasisPoints", params.creatorFeeBasisPoints)}</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Curve (a, b, scaler):</span>
+          <div className="font-mono">
+            {params.a}, {params.b}, {params.curveScaler}
+          </div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">LP Deployed:</span>
+          <div>{formatLaunchParam("lpDeployed", params.lpDeployed)}</div>
+        </div>
+      </div>
+
+      {unusual.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {unusual.map((item) => (
+            <Badge
+              key={item.param}
+              variant="outline"
+              className="bg-orange-50 text-orange-700 border-orange-200 flex items-center gap-1 text-xs"
+              title={`Most launches use ${item.usual}`}
+            >
+              <AlertTriangle className="h-3 w-3" />
+              {item.label}: {item.value} (usually {item.usual})
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,27 +5,62 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Activity, Pause, Play, Wifi, WifiOff } from "lucide-react"
-import { getMonitoringStatus, startContractMonitoring, stopContractMonitoring } from "@/lib/blockchain"
+import {
+  getMonitoringStatus,
+  getStoredMonitoringStatus,
+  isHeadlessIndexerEnabled,
+  startContractMonitoring,
+  stopContractMonitoring,
+  type MonitoringStatusInfo,
+} from "@/lib/blockchain"
+import { getUnknownSelectors, type UnknownSelector } from "@/lib/method-registry"
 
 export function MonitoringStatus() {
-  const [status, setStatus] = useState({
+  const [status, setStatus] = useState<MonitoringStatusInfo>({
     isMonitoring: false,
     lastProcessedBlock: "0",
     subscriberCount: 0,
+    latestBlock: "0",
+    isCatchingUp: false,
+    catchUpStartBlock: null,
+    catchUpTargetBlock: null,
+    confirmationDepth: 0,
+    awaitingConfirmation: 0,
+    reorgCount: 0,
+    lastReorgBlock: null,
   })
 
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date())
+  const [unknownSelectors, setUnknownSelectors] = useState<UnknownSelector[]>([])
+  const headless = isHeadlessIndexerEnabled()
 
   useEffect(() => {
-    // Update status every second
-    const interval = setInterval(() => {
-      const currentStatus = getMonitoringStatus()
-      setStatus(currentStatus)
-      setLastUpdate(new Date())
-    }, 1000)
+    // Worker mode reads the stored cursor every 5 seconds, otherwise update status every second
+    const interval = setInterval(
+      async () => {
+        const currentStatus = headless ? await getStoredMonitoringStatus() : getMonitoringStatus()
+        setStatus(currentStatus)
+        setUnknownSelectors(headless ? [] : getUnknownSelectors().slice(0, 3))
+        setLastUpdate(new Date())
+      },
+      headless ? 5000 : 1000,
+    )
 
     return () => clearInterval(interval)
-  }, [])
+  }, [headless])
+
+  // Catch-up progress through the gap between the stored cursor and the chain head
+  const blocksBehind =
+    status.latestBlock !== "0" ? Math.max(Number(status.latestBlock) - Number(status.lastProcessedBlock), 0) : 0
+  const catchUpProgress =
+    status.isCatchingUp && status.catchUpStartBlock && status.catchUpTargetBlock
+      ? Math.min(
+          ((Number(status.lastProcessedBlock) - Number(status.catchUpStartBlock)) /
+            Math.max(Number(status.catchUpTargetBlock) - Number(status.catchUpStartBlock), 1)) *
+            100,
+          100,
+        )
+      : 100
 
   const handleToggleMonitoring = () => {
     if (status.isMonitoring) {
@@ -43,9 +78,12 @@ export function MonitoringStatus() {
             <Activity className="h-5 w-5" />
             Real-time Monitoring
           </div>
-          <Badge variant={status.isMonitoring ? "default" : "secondary"} className="flex items-center gap-1">
-            {status.isMonitoring ? <Wifi className="h-3 w-3" /> : <WifiOff className="h-3 w-3" />}
-            {status.isMonitoring ? "LIVE" : "OFFLINE"}
+          <Badge
+            variant={status.isMonitoring || headless ? "default" : "secondary"}
+            className="flex items-center gap-1"
+          >
+            {status.isMonitoring || headless ? <Wifi className="h-3 w-3" /> : <WifiOff className="h-3 w-3" />}
+            {headless ? "WORKER" : status.isMonitoring ? "LIVE" : "OFFLINE"}
           </Badge>
         </CardTitle>
       </CardHeader>
@@ -62,20 +100,49 @@ export function MonitoringStatus() {
             <div className="font-mono">{status.lastProcessedBlock}</div>
           </div>
           <div>
-            <span className="text-muted-foreground">Subscribers:</span>
-            <div>{status.subscriberCount}</div>
+            <span className="text-muted-foreground">{headless ? "Blocks Behind:" : "Subscribers:"}</span>
+            <div>{headless ? blocksBehind.toLocaleString() : status.subscriberCount}</div>
           </div>
         </div>
 
+        {status.isCatchingUp && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>
+                Catching up: block {status.lastProcessedBlock} of {status.catchUpTargetBlock}
+              </span>
+              <span>{catchUpProgress.toFixed(1)}%</span>
+            </div>
+            <div className="h-2 w-full rounded bg-muted overflow-hidden">
+              <div className="h-full bg-primary transition-all" style={{ width: `${catchUpProgress}%` }} />
+            </div>
+          </div>
+        )}
+
+        <div className="text-xs text-muted-foreground">
+          Posts after {status.confirmationDepth} confirmations
+          {!headless && ` · ${status.awaitingConfirmation} awaiting`}
+          {status.reorgCount > 0 && ` · ${status.reorgCount} reorg(s), last at block ${status.lastReorgBlock}`}
+        </div>
+
+        {unknownSelectors.length > 0 && (
+          <div className="text-xs text-muted-foreground">
+            Unknown selectors:{" "}
+            {unknownSelectors.map((entry) => `${entry.selector} (${entry.count}x)`).join(", ")}
+          </div>
+        )}
+
         <div className="text-xs text-muted-foreground">Last updated: {lastUpdate.toLocaleTimeString()}</div>
 
         <div className="flex justify-between items-center">
           <div className="text-sm text-muted-foreground">
-            {status.isMonitoring
-              ? "Scanning new blocks every 2 seconds for contract transactions"
-              : "Real-time monitoring is currently disabled"}
+            {headless
+              ? "Blocks are scanned by the headless indexer worker; this dashboard shows what it has stored"
+              : status.isMonitoring
+                ? "Scanning new blocks every 2 seconds for contract transactions"
+                : "Real-time monitoring is currently disabled"}
           </div>
-          <Button variant="outline" size="sm" onClick={handleToggleMonitoring}>
+          <Button variant="outline" size="sm" onClick={handleToggleMonitoring} disabled={headless}>
             {status.isMonitoring ? (
               <>
                 <Pause className="h-4 w-4 mr-2" />
@@ -0,0 +1,101 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { formatAvaxAmount } from "@/lib/bonding-curve"
+import { getLiquidityRemovals, getPoolSnapshots, type LiquidityRemovalRow, type PoolSnapshotRow } from "@/lib/database"
+import { getLivePoolState, type PoolState } from "@/lib/pool-watcher"
+
+const POOL_REFRESH_INTERVAL = 30000
+
+interface PoolStatsProps {
+  tokenAddress: string
+  pairAddress?: string
+}
+
+// Latest DEX price and liquidity of a graduated launch, with a warning when liquidity was pulled
+export function PoolStats({ tokenAddress, pairAddress }: PoolStatsProps) {
+  const [snapshots, setSnapshots] = useState<PoolSnapshotRow[]>([])
+  const [removals, setRemovals] = useState<LiquidityRemovalRow[]>([])
+  const [liveState, setLiveState] = useState<PoolState | null>(null)
+
+  useEffect(() => {
+    const update = async () => {
+      const [poolSnapshots, liquidityRemovals] = await Promise.all([
+        getPoolSnapshots(tokenAddress, 50),
+        getLiquidityRemovals(tokenAddress),
+      ])
+      setSnapshots(poolSnapshots)
+      setRemovals(liquidityRemovals)
+
+      // Pools the watcher hasn't stored yet are read straight from the pair
+      if (poolSnapshots.length === 0 && pairAddress) {
+        setLiveState(await getLivePoolState(tokenAddress, pairAddress))
+      }
+    }
+
+    update()
+    const interval = setInterval(update, POOL_REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [tokenAddress, pairAddress])
+
+  const latest = snapshots[0]
+  if (!latest) {
+    if (!liveState) return null
+
+    return (
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <span className="text-muted-foreground">DEX Price:</span>
+          <div className="font-semibold">{formatAvaxAmount(liveState.priceAvax)} AVAX</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Liquidity:</span>
+          <div className="font-semibold">{formatAvaxAmount(liveState.liquidityAvax)} AVAX</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Last Update:</span>
+          <div className="font-semibold">Live</div>
+        </div>
+      </div>
+    )
+  }
+
+  // Change against the oldest snapshot in the loaded window
+  const oldest = snapshots[snapshots.length - 1]
+  const oldestPrice = Number(oldest.price_avax)
+  const priceChange = oldestPrice > 0 ? ((Number(latest.price_avax) - oldestPrice) / oldestPrice) * 100 : 0
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <span className="text-muted-foreground">DEX Price:</span>
+          <div className="font-semibold">
+            {formatAvaxAmount(latest.price_avax)} AVAX
+            {snapshots.length > 1 && (
+              <span className={`ml-1 ${priceChange < 0 ? "text-red-600" : "text-green-600"}`}>
+                {priceChange >= 0 ? "+" : ""}
+                {priceChange.toFixed(1)}%
+              </span>
+            )}
+          </div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Liquidity:</span>
+          <div className="font-semibold">{formatAvaxAmount(latest.liquidity_avax)} AVAX</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Last Update:</span>
+          <div className="font-semibold">Block {latest.block_number}</div>
+        </div>
+      </div>
+      {removals.length > 0 && (
+        <Badge variant="destructive" className="text-xs">
+          🚨 {removals[0].removed_percentage}% of liquidity removed in block {removals[0].block_number}
+          {removals.length > 1 && ` (+${removals.length - 1} more)`}
+        </Badge>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Server } from "lucide-react"
+import { getRpcHealth, type RpcEndpointHealth } from "@/lib/rpc-provider"
+
+export function RpcHealth() {
+  const [endpoints, setEndpoints] = useState<RpcEndpointHealth[]>([])
+
+  useEffect(() => {
+    const update = () => setEndpoints(getRpcHealth())
+    update()
+
+    const interval = setInterval(update, 2000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const healthyCount = endpoints.filter((endpoint) => endpoint.status === "healthy").length
+
+  return (
+    <Card className="border-2">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Server className="h-5 w-5" />
+            RPC Endpoints
+          </div>
+          <Badge variant={healthyCount > 0 ? "default" : "destructive"}>
+            {healthyCount}/{endpoints.length} HEALTHY
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Endpoint</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Requests</TableHead>
+              <TableHead>Error Rate</TableHead>
+              <TableHead>Latency</TableHead>
+              <TableHead>Last Error</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {endpoints.map((endpoint) => (
+              <TableRow key={endpoint.label}>
+                <TableCell className="font-mono text-xs">
+                  {endpoint.label}
+                  {endpoint.isPreferred && (
+                    <Badge variant="outline" className="ml-2">
+                      active
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={
+                      endpoint.status === "healthy"
+                        ? "default"
+                        : endpoint.status === "degraded"
+                          ? "secondary"
+                          : "destructive"
+                    }
+                  >
+                    {endpoint.status.toUpperCase()}
+                  </Badge>
+                </TableCell>
+                <TableCell>{endpoint.requests.toLocaleString()}</TableCell>
+                <TableCell>{(endpoint.errorRate * 100).toFixed(1)}%</TableCell>
+                <TableCell>{endpoint.avgLatencyMs !== null ? `${endpoint.avgLatencyMs} ms` : "-"}</TableCell>
+                <TableCell className="text-xs text-muted-foreground max-w-xs truncate">
+                  {endpoint.lastError
+                    ? `${endpoint.lastError} (${new Date(endpoint.lastErrorAt!).toLocaleTimeString()})`
+                    : "-"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
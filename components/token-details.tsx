@@ -1,10 +1,15 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { formatUnits } from "viem"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
 import { Skeleton } from "@/components/ui/skeleton"
-import { ExternalLink } from "lucide-react"
-import { Button } from "@/components/ui/button"
+import { ARENA_CONTRACT_ADDRESS } from "@/lib/contracts"
+import { getHolderSnapshots, getTokensByAddress, getTopHolders, type HolderSnapshotRow } from "@/lib/database"
+import { formatAvaxValue } from "@/lib/arena-socials"
+import { getTokenSniperStats, type SniperStats } from "@/lib/snipers"
+import { getTokenTradeStats } from "@/lib/trades"
+import { ExplorerLink } from "./explorer-link"
 
 interface TokenDetailsProps {
   address: string
@@ -20,6 +25,17 @@ interface TokenDetail {
   timestamp: number
   holders: number
   transactions: number
+  top10Percentage: number | null
+  creatorPercentage: number | null
+  topHolders: { holder: string; balance: string }[]
+  holderHistory: HolderSnapshotRow[]
+  sniperStats: SniperStats | null
+  creatorFeesEarned: string | null
+  creatorFeeBasisPoints: number | null
+}
+
+function formatAddress(address: string): string {
+  return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`
 }
 
 export function TokenDetails({ address, isOpen, onClose }: TokenDetailsProps) {
@@ -27,24 +43,42 @@ export function TokenDetails({ address, isOpen, onClose }: TokenDetailsProps) {
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    if (isOpen && address) {
-      // In a real implementation, fetch detailed token data from an API
+    if (!isOpen || !address) return
+
+    const load = async () => {
       setLoading(true)
 
-      // Simulate API call with timeout
-      setTimeout(() => {
-        setToken({
-          name: "Example Token",
-          symbol: "EXT",
-          totalSupply: "1000000",
-          creator: "0x1234...5678",
-          timestamp: Date.now() - 3600000, // 1 hour ago
-          holders: 12,
-          transactions: 45,
-        })
-        setLoading(false)
-      }, 1000)
+      const [row] = (await getTokensByAddress([address])) ?? []
+      const launchpad = row?.contract_address ?? ARENA_CONTRACT_ADDRESS
+      const excluded = [launchpad, ...(row?.pair_address ? [row.pair_address] : [])]
+      const [holderHistory, topHolders, tradeStats, sniperStats] = await Promise.all([
+        getHolderSnapshots(address, 20),
+        getTopHolders(address, 10, excluded),
+        getTokenTradeStats(address),
+        getTokenSniperStats(address),
+      ])
+      const latest = holderHistory[0]
+
+      setToken({
+        name: row?.name || "Unknown Token",
+        symbol: row?.symbol || "???",
+        totalSupply: row?.total_supply ? formatUnits(BigInt(Math.trunc(row.total_supply)), 18) : "0",
+        creator: row?.creator_address || "Unknown",
+        timestamp: row ? new Date(row.timestamp).getTime() : 0,
+        holders: latest?.holder_count ?? 0,
+        transactions: tradeStats?.trades ?? 0,
+        top10Percentage: latest ? Number(latest.top10_percentage) : null,
+        creatorPercentage: latest ? Number(latest.creator_percentage) : null,
+        topHolders,
+        holderHistory,
+        sniperStats,
+        creatorFeesEarned: row?.creator_fees_earned ?? null,
+        creatorFeeBasisPoints: row?.creator_fee_basis_points ?? null,
+      })
+      setLoading(false)
     }
+
+    load()
   }, [isOpen, address])
 
   return (
@@ -74,28 +108,96 @@ export function TokenDetails({ address, isOpen, onClose }: TokenDetailsProps) {
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Creator:</span>
-              <span className="font-mono">{token?.creator}</span>
+              <span className="font-mono">{token?.creator && formatAddress(token.creator)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Holders:</span>
               <span>{token?.holders}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Top 10 Share:</span>
+              <span>{token?.top10Percentage !== null ? `${token?.top10Percentage.toFixed(2)}%` : "-"}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Creator Share:</span>
+              <span>{token?.creatorPercentage !== null ? `${token?.creatorPercentage.toFixed(2)}%` : "-"}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Sniped:</span>
+              <span>
+                {token?.sniperStats
+                  ? `${token.sniperStats.snipedPercentage.toFixed(2)}% by ${token.sniperStats.sniperCount} wallet(s)`
+                  : "-"}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Creator Fees:</span>
+              <span>
+                {token?.creatorFeesEarned !== null && token?.creatorFeesEarned !== undefined
+                  ? `${formatAvaxValue(token.creatorFeesEarned)} AVAX (${(token.creatorFeeBasisPoints ?? 0) / 100}%)`
+                  : "-"}
+              </span>
+            </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Transactions:</span>
               <span>{token?.transactions}</span>
             </div>
 
+            {token && token.topHolders.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-muted-foreground mb-2">Top Holders</h4>
+                <div className="space-y-1 text-xs">
+                  {token.topHolders.map((holder, index) => (
+                    <div key={holder.holder} className="flex justify-between">
+                      <span className="font-mono">
+                        {index + 1}. {formatAddress(holder.holder)}
+                        {holder.holder === token.creator.toLowerCase() && " (creator)"}
+                      </span>
+                      <span>{Number(formatUnits(BigInt(holder.balance), 18)).toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {token?.sniperStats && token.sniperStats.snipers.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-muted-foreground mb-2">Snipers</h4>
+                <div className="space-y-1 text-sm">
+                  {token.sniperStats.snipers.slice(0, 5).map((sniper) => (
+                    <div key={sniper.wallet} className="flex justify-between">
+                      <span className="font-mono">
+                        {formatAddress(sniper.wallet)}
+                        {sniper.blocksAfterLaunch === 0 ? " (same block)" : ` (+${sniper.blocksAfterLaunch})`}
+                      </span>
+                      <span>
+                        {sniper.percentage.toFixed(2)}% • {sniper.launchesSniped ?? 1} launch(es)
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {token && token.holderHistory.length > 1 && (
+              <div>
+                <h4 className="text-sm font-medium text-muted-foreground mb-2">Holder History</h4>
+                <div className="space-y-1 text-xs">
+                  {token.holderHistory.slice(0, 5).map((snapshot) => (
+                    <div key={snapshot.block_number} className="flex justify-between">
+                      <span className="text-muted-foreground">{new Date(snapshot.timestamp).toLocaleString()}</span>
+                      <span>
+                        {snapshot.holder_count} holders • top 10 {Number(snapshot.top10_percentage).toFixed(1)}% •
+                        creator {Number(snapshot.creator_percentage).toFixed(1)}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="flex justify-end mt-4">
-              <Button variant="outline" size="sm" asChild>
-                <a
-                  href={`https://snowtrace.io/address/${address}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center"
-                >
-                  View on Snowtrace <ExternalLink className="ml-2 h-3 w-3" />
-                </a>
-              </Button>
+              <ExplorerLink kind="address" value={address} />
             </div>
           </div>
         )}
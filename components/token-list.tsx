@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo } from "react"
 import { formatDistanceToNow } from "date-fns"
 import { ExternalLink, Loader2 } from "lucide-react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -9,6 +9,11 @@ import { Button } from "@/components/ui/button"
 import { fetchTokens, fetchPendingTransactions, subscribeToTokenCreations, type TokenData } from "@/lib/blockchain"
 import { useToast } from "@/hooks/use-toast"
 import { processTokenCreation } from "@/lib/database-simple"
+import { getLaunchParamsBaseline } from "@/lib/launch-params"
+import { getMempoolStatus, subscribeToPendingLaunches, type PendingLaunchUpdate } from "@/lib/mempool"
+import { LaunchParamsSummary } from "./launch-params"
+import { CurvePrice } from "./curve-price"
+import { ExplorerLink } from "./explorer-link"
 
 interface TokenListProps {
   type: "recent" | "pending"
@@ -59,6 +64,14 @@ export default function TokenList({ type }: TokenListProps) {
     [toast],
   )
 
+  // Pending launches come and go within seconds, so they are followed live instead of by polling alone
+  const applyPendingUpdate = useCallback(({ status, token }: PendingLaunchUpdate) => {
+    setTokens((prevTokens) => {
+      const others = prevTokens.filter((pending) => pending.hash !== token.hash)
+      return status === "pending" ? [token, ...others] : others
+    })
+  }, [])
+
   const fetchData = useCallback(async () => {
     setLoading(true)
     try {
@@ -87,17 +100,25 @@ export default function TokenList({ type }: TokenListProps) {
     // Set up polling for updates
     const interval = setInterval(fetchData, 30000) // Poll every 30 seconds
 
-    // Set up real-time event subscription for recent tokens
+    // Set up real-time event subscription for recent tokens and mempool updates for pending ones
     let unsubscribe: () => void
     if (type === "recent") {
       unsubscribe = subscribeToTokenCreations(addNewToken)
+    } else {
+      unsubscribe = subscribeToPendingLaunches(applyPendingUpdate)
     }
 
     return () => {
       clearInterval(interval)
       if (unsubscribe) unsubscribe()
     }
-  }, [type, fetchData, addNewToken])
+  }, [type, fetchData, addNewToken, applyPendingUpdate])
+
+  // Most common launch configuration among the loaded tokens, to flag unusual fee or sale settings
+  const launchParamsBaseline = useMemo(
+    () => getLaunchParamsBaseline(tokens.flatMap((token) => (token.launchParams ? [token.launchParams] : []))),
+    [tokens],
+  )
 
   if (loading) {
     return (
@@ -111,7 +132,9 @@ export default function TokenList({ type }: TokenListProps) {
   if (tokens.length === 0) {
     return (
       <div className="text-center py-20 text-muted-foreground">
-        No {type} token creations found.
+        {type === "pending" && getMempoolStatus().supported === false
+          ? "This RPC endpoint doesn't share pending transactions."
+          : `No ${type} token creations found.`}
         <Button variant="outline" onClick={fetchData} className="ml-2">
           Refresh
         </Button>
@@ -169,6 +192,19 @@ export default function TokenList({ type }: TokenListProps) {
                   </div>
                 )}
 
+                {token.launchParams && (
+                  <LaunchParamsSummary params={token.launchParams} baseline={launchParamsBaseline} />
+                )}
+
+                {token.launchParams && token.address && token.totalSupply && (
+                  <CurvePrice
+                    tokenAddress={token.address}
+                    totalSupply={token.totalSupply}
+                    params={token.launchParams}
+                    contractAddress={token.contractAddress}
+                  />
+                )}
+
                 {token.timestamp && (
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Created:</span>
@@ -191,16 +227,11 @@ export default function TokenList({ type }: TokenListProps) {
                     </Button>
                   )}
 
-                  <Button variant="outline" size="sm" asChild>
-                    <a
-                      href={`https://snowtrace.io/${token.tokenContractAddress || token.address ? "address/" + (token.tokenContractAddress || token.address) : "tx/" + token.hash}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center"
-                    >
-                      Snowtrace <ExternalLink className="ml-1 h-3 w-3" />
-                    </a>
-                  </Button>
+                  <ExplorerLink
+                    kind={token.tokenContractAddress || token.address ? "address" : "tx"}
+                    value={token.tokenContractAddress || token.address || token.hash || ""}
+                    short
+                  />
                 </div>
               </div>
             </CardContent>
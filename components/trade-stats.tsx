@@ -0,0 +1,56 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { formatUnits } from "viem"
+import { formatAvaxAmount } from "@/lib/bonding-curve"
+import { getTokenTradeStats, type TokenTradeStats } from "@/lib/trades"
+
+const STATS_REFRESH_INTERVAL = 30000
+
+interface TradeStatsProps {
+  tokenAddress: string
+}
+
+export function TradeStats({ tokenAddress }: TradeStatsProps) {
+  const [stats, setStats] = useState<TokenTradeStats | null>(null)
+
+  useEffect(() => {
+    const update = async () => {
+      const tradeStats = await getTokenTradeStats(tokenAddress)
+      if (tradeStats) setStats(tradeStats)
+    }
+
+    update()
+    const interval = setInterval(update, STATS_REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [tokenAddress])
+
+  if (!stats || stats.trades === 0) return null
+
+  const netTokens = BigInt(stats.netTokenFlow)
+
+  return (
+    <div className="grid grid-cols-3 gap-2 text-xs">
+      <div>
+        <span className="text-muted-foreground">Buy Volume:</span>
+        <div className="font-semibold">{formatAvaxAmount(stats.buyVolume)} AVAX</div>
+      </div>
+      <div>
+        <span className="text-muted-foreground">Traders:</span>
+        <div className="font-semibold">
+          {stats.uniqueBuyers} buyers / {stats.uniqueSellers} sellers
+        </div>
+      </div>
+      <div>
+        <span className="text-muted-foreground">Net Flow:</span>
+        <div className={`font-semibold ${netTokens < 0n ? "text-red-600" : "text-green-600"}`}>
+          {netTokens < 0n ? "-" : "+"}
+          {Number(formatUnits(netTokens < 0n ? -netTokens : netTokens, 18)).toLocaleString(undefined, {
+            maximumFractionDigits: 0,
+          })}{" "}
+          tokens
+        </div>
+      </div>
+    </div>
+  )
+}
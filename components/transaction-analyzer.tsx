@@ -5,16 +5,19 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
-import { Loader2, Search, ExternalLink, Copy, Check } from "lucide-react"
+import { Loader2, Search, Copy, Check } from "lucide-react"
 import { analyzeTransaction, analyzeSpecificTransaction, type TransactionAnalysis } from "@/lib/transaction-analyzer"
 import { formatDistanceToNow } from "date-fns"
 import { useToast } from "@/hooks/use-toast"
+import { ExplorerLink } from "./explorer-link"
+import { CallTraceView } from "./call-trace"
 
 export function TransactionAnalyzer() {
   const [analysis, setAnalysis] = useState<TransactionAnalysis | null>(null)
   const [loading, setLoading] = useState(false)
   const [txHash, setTxHash] = useState("")
   const [copiedHash, setCopiedHash] = useState<string | null>(null)
+  const [traceEnabled, setTraceEnabled] = useState(false)
   const { toast } = useToast()
 
   const handleAnalyze = async (hash?: string) => {
@@ -23,7 +26,7 @@ export function TransactionAnalyzer() {
 
     setLoading(true)
     try {
-      const result = await analyzeTransaction(hashToAnalyze)
+      const result = await analyzeTransaction(hashToAnalyze, { trace: traceEnabled })
       setAnalysis(result)
     } catch (error) {
       console.error("Error analyzing transaction:", error)
@@ -35,7 +38,7 @@ export function TransactionAnalyzer() {
   const loadExampleTransaction = async () => {
     setLoading(true)
     try {
-      const result = await analyzeSpecificTransaction()
+      const result = await analyzeSpecificTransaction({ trace: traceEnabled })
       setAnalysis(result)
     } catch (error) {
       console.error("Error loading example transaction:", error)
@@ -96,10 +99,17 @@ export function TransactionAnalyzer() {
             </Button>
           </div>
 
-          <div className="flex justify-center">
+          <div className="flex justify-center gap-2">
             <Button variant="outline" onClick={loadExampleTransaction} disabled={loading}>
               Load Example Transaction
             </Button>
+            <Button
+              variant={traceEnabled ? "default" : "outline"}
+              onClick={() => setTraceEnabled((enabled) => !enabled)}
+              title="Show internal calls via debug_traceTransaction (needs a node that supports it)"
+            >
+              Trace internal calls: {traceEnabled ? "on" : "off"}
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -207,16 +217,7 @@ export function TransactionAnalyzer() {
                 </Card>
               )}
 
-              <Button variant="outline" size="sm" asChild className="w-fit">
-                <a
-                  href={`https://snowtrace.io/tx/${analysis.hash}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center"
-                >
-                  View on Snowtrace <ExternalLink className="ml-2 h-3 w-3" />
-                </a>
-              </Button>
+              <ExplorerLink kind="tx" value={analysis.hash} className="w-fit" />
             </div>
 
             {/* Token Creation Details */}
@@ -259,20 +260,16 @@ export function TransactionAnalyzer() {
                     </div>
                   </div>
 
-                  <Button variant="outline" size="sm" asChild className="w-fit">
-                    <a
-                      href={`https://snowtrace.io/address/${analysis.tokenCreated.tokenAddress}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center"
-                    >
-                      View Token Contract <ExternalLink className="ml-2 h-3 w-3" />
-                    </a>
-                  </Button>
+                  <ExplorerLink kind="address" value={analysis.tokenCreated.tokenAddress} className="w-fit">
+                    View Token Contract
+                  </ExplorerLink>
                 </CardContent>
               </Card>
             )}
 
+            {/* Internal Calls */}
+            {analysis.trace && <CallTraceView trace={analysis.trace} />}
+
             {/* Transfer Events */}
             {analysis.transfers && analysis.transfers.length > 0 && (
               <Card>
@@ -1,3 +1,8 @@
+import { getApiUrl } from "./utils"
+import type { CurveQuote } from "./bonding-curve"
+import type { GraduationAlert } from "./graduation"
+import type { HolderStats } from "./holders"
+
 export interface ArenaUserProfile {
   username?: string
   displayName?: string
@@ -567,13 +572,15 @@ export async function postToArenaTimeline(
   contractsCreated: number,
   isChampion = false,
   arenaProfile?: ArenaUserProfile | null,
+  priceQuote?: CurveQuote | null,
+  holderStats?: HolderStats | null,
 ): Promise<boolean> {
   try {
     console.log(
       `📝 Calling Arena post API for @${username} - token: ${tokenSymbol} ${isChampion ? "(CHAMPION 🏆)" : ""}`,
     )
 
-    const response = await fetch("/api/arena-post", {
+    const response = await fetch(getApiUrl("/api/arena-post"), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -585,6 +592,8 @@ export async function postToArenaTimeline(
         contractsCreated,
         isChampion,
         arenaProfile, // Pass the full profile for heavy hitter detection
+        priceQuote,
+        holderStats,
       }),
     })
 
@@ -603,6 +612,34 @@ export async function postToArenaTimeline(
   }
 }
 
+// Graduation alert on the Arena timeline, mentioning the creator
+export async function postGraduationToArenaTimeline(alert: GraduationAlert): Promise<boolean> {
+  try {
+    console.log(`📝 Calling Arena post API for graduation of ${alert.tokenSymbol}`)
+
+    const response = await fetch(getApiUrl("/api/arena-post"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ alertType: "graduation", ...alert }),
+    })
+
+    const data = await response.json()
+
+    if (response.ok && data.success) {
+      console.log(`✅ Successfully posted graduation of ${alert.tokenSymbol} to Arena timeline`)
+      return true
+    } else {
+      console.error(`❌ Failed to post graduation to Arena timeline:`, data.error || "Unknown error")
+      return false
+    }
+  } catch (error) {
+    console.error(`❌ Error posting graduation of ${alert.tokenSymbol} to Arena timeline:`, error)
+    return false
+  }
+}
+
 // Test functie om een specifiek adres te testen
 export async function testArenaProfile(walletAddress: string): Promise<void> {
   console.log(`Testing Arena profile fetch for: ${walletAddress}`)
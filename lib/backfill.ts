@@ -0,0 +1,242 @@
+import type { Address } from "viem"
+import {
+  CONFIRMATION_DEPTH,
+  buildContractTransactionFromLog,
+  client,
+  getTokenCreatedLogs,
+  type ContractTransaction,
+} from "./blockchain"
+import { getIndexerCursor, saveCompleteTokenCreation, saveIndexerCursor } from "./database"
+import { addCreatorContract } from "./database-simple"
+import { indexTradesInRange } from "./trades"
+import { indexSnipersInRange } from "./snipers"
+import { indexCreatorFeesInRange } from "./creator-fees"
+import { indexPoolsInRange } from "./pool-watcher"
+import { indexHoldersInRange } from "./holders"
+import { indexCreatorActivityInRange } from "./rug-detector"
+import { enrichTransactionMetadata } from "./token-metadata"
+import { getPrimaryContract, type LaunchpadContract } from "./contracts"
+import { getChainId } from "./chains"
+
+// Adaptive chunk window: halve it when the RPC rejects a range or an indexer fails on it, grow it again while
+// chunks succeed
+const DEFAULT_CHUNK_SIZE = 2048n
+const MIN_CHUNK_SIZE = 1n
+const MAX_CHUNK_SIZE = 10000n
+const MAX_CHUNK_RETRIES = 3
+
+export interface BackfillOptions {
+  contract?: LaunchpadContract // Launchpad to walk, the first configured one by default
+  fromBlock?: bigint
+  toBlock?: bigint
+  chunkSize?: bigint
+  restart?: boolean // Ignore stored progress and start a fresh range
+  onProgress?: (progress: BackfillProgress) => void
+}
+
+export interface BackfillProgress {
+  fromBlock: bigint
+  toBlock: bigint
+  lastProcessedBlock: bigint
+  chunkSize: bigint
+  logsFound: number
+  tokensSaved: number
+  tradesSaved: number
+  percent: number
+}
+
+export interface BackfillResult extends BackfillProgress {
+  completed: boolean
+  error?: string
+}
+
+// Find the block in which a contract was deployed with a binary search over eth_getCode (needs an archive node)
+export async function findContractDeploymentBlock(address: Address, latestBlock: bigint): Promise<bigint> {
+  let low = 0n
+  let high = latestBlock
+
+  while (low < high) {
+    const mid = (low + high) / 2n
+    const code = await client.getCode({ address, blockNumber: mid })
+
+    if (code && code !== "0x") {
+      high = mid
+    } else {
+      low = mid + 1n
+    }
+  }
+
+  return low
+}
+
+// First block to backfill from when no range is given
+async function getContractStartBlock(contract: LaunchpadContract, latestBlock: bigint): Promise<bigint> {
+  if (contract.startBlock !== null) return contract.startBlock
+
+  console.log(`🔍 Searching for the ${contract.label} contract deployment block...`)
+  const deploymentBlock = await findContractDeploymentBlock(contract.address, latestBlock)
+  console.log(`✅ ${contract.label} contract deployed in block ${deploymentBlock}`)
+  return deploymentBlock
+}
+
+// Historical launches are stored without posting to Arena or Discord
+async function storeBackfilledTokenCreation(transaction: ContractTransaction): Promise<boolean> {
+  if (!transaction.isTokenCreation) return false
+
+  const { transactionId } = await saveCompleteTokenCreation(transaction)
+
+  await addCreatorContract(
+    transaction.from,
+    transaction.tokenMetadata?.symbol || "???",
+    transaction.tokenMetadata?.name,
+    transaction.tokenMetadata?.tokenAddress || transaction.tokenAddress,
+    transaction.hash,
+    new Date(transaction.timestamp!).toISOString(),
+  )
+
+  return !!transactionId
+}
+
+async function saveBackfillCursor(
+  contract: LaunchpadContract,
+  startBlock: bigint,
+  lastProcessedBlock: bigint,
+  targetBlock: bigint,
+) {
+  await saveIndexerCursor({
+    chain_id: getChainId(),
+    contract_address: contract.address,
+    cursor_type: "backfill",
+    start_block: Number(startBlock),
+    last_processed_block: Number(lastProcessedBlock),
+    target_block: Number(targetBlock),
+  })
+}
+
+// Walk TokenCreated logs over a block range and store tokens, transactions, creators, trades, pool history and
+// holders idempotently. Progress is saved per contract after every chunk, so an interrupted run resumes where
+// it stopped.
+export async function backfillTokenCreations(options: BackfillOptions = {}): Promise<BackfillResult> {
+  const contract = options.contract ?? getPrimaryContract()
+  const latestBlock = await client.getBlockNumber()
+
+  let startBlock: bigint
+  let fromBlock: bigint
+  // Stay below the unconfirmed tip by default; the live monitor covers it and handles reorgs there
+  let toBlock = options.toBlock ?? latestBlock - CONFIRMATION_DEPTH
+
+  const stored =
+    options.restart || options.fromBlock !== undefined
+      ? null
+      : await getIndexerCursor(getChainId(), contract.address, "backfill")
+
+  if (stored && stored.target_block !== null && stored.last_processed_block < stored.target_block) {
+    startBlock = BigInt(stored.start_block ?? stored.last_processed_block)
+    fromBlock = BigInt(stored.last_processed_block) + 1n
+    toBlock = BigInt(stored.target_block)
+    console.log(`⏯️ Resuming ${contract.label} backfill at block ${fromBlock} (target ${toBlock})`)
+  } else {
+    startBlock = options.fromBlock ?? (await getContractStartBlock(contract, latestBlock))
+    fromBlock = startBlock
+    console.log(`🚀 Starting ${contract.label} backfill from block ${fromBlock} to ${toBlock}`)
+  }
+
+  let chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+  let lastProcessedBlock = fromBlock - 1n
+  let logsFound = 0
+  let tokensSaved = 0
+  let tradesSaved = 0
+  let retries = 0
+
+  const progress = (): BackfillProgress => {
+    const total = toBlock - startBlock + 1n
+    const done = lastProcessedBlock - startBlock + 1n
+    return {
+      fromBlock: startBlock,
+      toBlock,
+      lastProcessedBlock,
+      chunkSize,
+      logsFound,
+      tokensSaved,
+      tradesSaved,
+      percent: total > 0n ? Math.min((Number(done) / Number(total)) * 100, 100) : 100,
+    }
+  }
+
+  let current = fromBlock
+  while (current <= toBlock) {
+    const chunkEnd = current + chunkSize - 1n < toBlock ? current + chunkSize - 1n : toBlock
+
+    let logs
+    try {
+      logs = await getTokenCreatedLogs(current, chunkEnd, [contract])
+    } catch (error) {
+      if (chunkSize <= MIN_CHUNK_SIZE) {
+        console.error(`❌ getLogs failed for single block ${current}:`, error)
+        return { ...progress(), completed: false, error: String(error) }
+      }
+
+      // Most providers reject wide ranges or large result sets; retry with a smaller window
+      chunkSize = chunkSize / 2n > MIN_CHUNK_SIZE ? chunkSize / 2n : MIN_CHUNK_SIZE
+      console.warn(`⚠️ getLogs failed for ${current}-${chunkEnd}, shrinking chunk to ${chunkSize} blocks`)
+      continue
+    }
+
+    try {
+      const blockTimestamps = new Map<bigint, number>()
+      const transactions: ContractTransaction[] = []
+      for (const log of logs) {
+        transactions.push(await buildContractTransactionFromLog(log, blockTimestamps))
+      }
+
+      await enrichTransactionMetadata(transactions)
+      for (const transaction of transactions) {
+        if (await storeBackfilledTokenCreation(transaction)) tokensSaved++
+      }
+
+      // Old graduations are stored without alerting
+      tradesSaved += await indexTradesInRange(current, chunkEnd, { graduationAlertSent: true })
+      await indexSnipersInRange(current, chunkEnd)
+      await indexCreatorFeesInRange(current, chunkEnd)
+      await indexPoolsInRange(current, chunkEnd)
+      await indexHoldersInRange(current, chunkEnd)
+      // Old creator sells and LP removals feed the rug history but don't alert
+      await indexCreatorActivityInRange(current, chunkEnd, { alertSent: true })
+    } catch (error) {
+      // Writes are idempotent, so the whole chunk can safely be retried. The indexers read their own logs over
+      // the chunk, so the RPC may have rejected one of those result sets: retry with a smaller window first.
+      if (chunkSize > MIN_CHUNK_SIZE) {
+        chunkSize = chunkSize / 2n > MIN_CHUNK_SIZE ? chunkSize / 2n : MIN_CHUNK_SIZE
+        console.warn(`⚠️ Error processing chunk ${current}-${chunkEnd}, shrinking to ${chunkSize} blocks:`, error)
+        continue
+      }
+
+      retries++
+      if (retries > MAX_CHUNK_RETRIES) {
+        console.error(`❌ Giving up on block ${current} after ${MAX_CHUNK_RETRIES} retries:`, error)
+        return { ...progress(), completed: false, error: String(error) }
+      }
+
+      console.warn(`⚠️ Error processing chunk ${current}-${chunkEnd}, retry ${retries}/${MAX_CHUNK_RETRIES}:`, error)
+      await new Promise((resolve) => setTimeout(resolve, retries * 1000))
+      continue
+    }
+
+    retries = 0
+    logsFound += logs.length
+    lastProcessedBlock = chunkEnd
+    await saveBackfillCursor(contract, startBlock, lastProcessedBlock, toBlock)
+    options.onProgress?.(progress())
+
+    current = chunkEnd + 1n
+    if (chunkSize < MAX_CHUNK_SIZE) {
+      chunkSize = chunkSize * 2n < MAX_CHUNK_SIZE ? chunkSize * 2n : MAX_CHUNK_SIZE
+    }
+  }
+
+  console.log(
+    `✅ ${contract.label} backfill complete: ${logsFound} launches found, ${tokensSaved} saved, ` +
+      `${tradesSaved} trades indexed`,
+  )
+  return { ...progress(), completed: true }
+}
@@ -1,21 +1,48 @@
-import { createPublicClient, http, parseAbiItem, type Address, decodeAbiParameters, decodeEventLog } from "viem"
-import { avalanche } from "viem/chains"
+import type { Address } from "viem"
 import { fetchArenaUserProfile, type ArenaUserProfile } from "./arena-socials"
-import { processTokenCreation } from "./database-simple"
-
-// Arena Launch Contract address
-const ARENA_CONTRACT_ADDRESS = "0x8315f1eb449Dd4B779495C3A0b05e5d194446c6e" as const
-
-// ABI for the TokenCreated event - Updated structure
-const TOKEN_CREATED_EVENT = parseAbiItem(
-  "event TokenCreated(uint256 tokenId, (uint128 curveScaler, uint16 a, uint8 b, bool lpDeployed, uint8 lpPercentage, uint8 salePercentage, uint8 creatorFeeBasisPoints, address creatorAddress, address pairAddress, address tokenContractAddress) params, uint256 tokenSupply)",
-)
+import { processTokenCreation, removeCreatorContract } from "./database-simple"
+import { getIndexerCursor, rollbackBlocksAfter, saveIndexerCursor } from "./database"
+import { rpcClient } from "./rpc-provider"
+import { indexTradesInRange } from "./trades"
+import { indexSnipersInRange } from "./snipers"
+import { getCreatorFeesToRollback, indexCreatorFeesInRange, rollbackCreatorFees } from "./creator-fees"
+import { releaseGraduationAlerts } from "./graduation"
+import { indexPoolsInRange } from "./pool-watcher"
+import { indexHoldersInRange, rollbackHoldersAfter } from "./holders"
+import { indexCreatorActivityInRange, releaseRugAlerts, rollbackCreatorEventsAfter } from "./rug-detector"
+import { enrichTokens, enrichTransactionMetadata } from "./token-metadata"
+import { lookupMethod, recordUnknownSelector } from "./method-registry"
+import { decodeTokenCreationData, extractLaunchParams, type TokenCreatedLog } from "./decoder"
+import {
+  decodeLaunchLog,
+  getLaunchpadContract,
+  getLaunchpadContracts,
+  getPrimaryContract,
+  isLaunchpadContract,
+  type LaunchpadContract,
+} from "./contracts"
+import { getChainId } from "./chains"
+import { getPendingLaunches, startMempoolWatcher } from "./mempool"
+
+// Shared Avalanche client with multi-endpoint failover
+export const client = rpcClient
+
+// TokenCreated logs of the given launchpad contracts (all configured ones by default), oldest first
+export async function getTokenCreatedLogs(
+  fromBlock: bigint,
+  toBlock: bigint,
+  contracts: LaunchpadContract[] = getLaunchpadContracts(),
+): Promise<TokenCreatedLog[]> {
+  const logs: TokenCreatedLog[] = []
+  for (const { address, creationEvent, decodeCreation } of contracts) {
+    const found = await client.getLogs({ address, event: creationEvent, fromBlock, toBlock })
+    logs.push(...found.flatMap((log) => decodeCreation(log) ?? []))
+  }
 
-// Initialize the Avalanche client
-const client = createPublicClient({
-  chain: avalanche,
-  transport: http("https://api.avax.network/ext/bc/C/rpc"),
-})
+  return logs.sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1,
+  )
+}
 
 export interface TokenData {
   address?: string
@@ -23,17 +50,41 @@ export interface TokenData {
   creator?: string
   name?: string
   symbol?: string
+  decimals?: number
   totalSupply?: string
   timestamp?: number
   isPending?: boolean
   blockNumber?: bigint
   tokenId?: string
   tokenContractAddress?: string
+  contractAddress?: string // Launchpad contract that created the token
+  launchParams?: TokenLaunchParams
+}
+
+// Bonding curve, LP and fee settings from the TokenCreated params tuple
+export interface TokenLaunchParams {
+  curveScaler: string
+  a: number
+  b: number
+  lpDeployed: boolean
+  lpPercentage: number
+  salePercentage: number
+  creatorFeeBasisPoints: number
+  pairAddress: string
+}
+
+// Bonding until the launch's liquidity pool is deployed, graduated after
+export interface TokenLifecycle {
+  state: "bonding" | "graduated"
+  graduatedAt?: number
+  graduationTxHash?: string
+  timeToGraduateSeconds?: number
 }
 
 export interface TokenMetadata {
   name?: string
   symbol?: string
+  decimals?: number
   totalSupply?: string
   creator?: string
   tokenAddress?: string
@@ -61,6 +112,7 @@ export interface ContractTransaction {
   to: string | null
   value: string
   blockNumber: bigint
+  blockHash?: string
   timestamp?: number
   method?: string
   methodId?: string
@@ -71,148 +123,48 @@ export interface ContractTransaction {
   creatorProfile?: CreatorProfile
   rawInput?: string
   tokenAddress?: string
+  tokenId?: string
+  contractAddress?: string // Launchpad contract that emitted the launch
+  launchParams?: TokenLaunchParams
+  lifecycle?: TokenLifecycle
 }
 
-// Uitgebreide method signatures voor Arena contract functies
-const METHOD_SIGNATURES: Record<string, { name: string; type: TransactionType; description: string }> = {
-  // Token Creation
-  "0x0b8c6fec": {
-    name: "createToken",
-    type: "TOKEN_CREATION",
-    description: "Create new token",
-  },
-  "0x30f51a46": {
-    name: "createToken",
-    type: "TOKEN_CREATION",
-    description: "Create new token",
-  },
-
-  // Liquidity Management
-  "0x5a46f06c": {
-    name: "createLP",
-    type: "ADD_LIQUIDITY",
-    description: "Add initial liquidity",
-  },
-  "0xe8e33700": {
-    name: "addLiquidity",
-    type: "ADD_LIQUIDITY",
-    description: "Add liquidity to pool",
-  },
-  "0xbaa2abde": {
-    name: "removeLiquidity",
-    type: "REMOVE_LIQUIDITY",
-    description: "Remove liquidity from pool",
-  },
-
-  // Trading
-  "0xa6f2ae3a": {
-    name: "buy",
-    type: "BUY",
-    description: "Buy tokens with AVAX",
-  },
-  "0x7ff36ab5": {
-    name: "sell",
-    type: "SELL",
-    description: "Sell tokens for AVAX",
-  },
-  "0x38ed1739": {
-    name: "swapExactTokensForETH",
-    type: "SELL",
-    description: "Swap tokens for AVAX",
-  },
-  "0x7c025200": {
-    name: "swapETHForExactTokens",
-    type: "BUY",
-    description: "Swap AVAX for tokens",
-  },
-
-  // Standard ERC20 functions
-  "0x095ea7b3": {
-    name: "approve",
-    type: "APPROVE",
-    description: "Approve token spending",
-  },
-  "0xa9059cbb": {
-    name: "transfer",
-    type: "TRANSFER",
-    description: "Transfer tokens",
-  },
-  "0x23b872dd": {
-    name: "transferFrom",
-    type: "TRANSFER",
-    description: "Transfer tokens from address",
-  },
-
-  // Additional Arena-specific functions
-  "0x2e1a7d4d": {
-    name: "withdraw",
-    type: "SELL",
-    description: "Withdraw AVAX",
-  },
-  "0xd0e30db0": {
-    name: "deposit",
-    type: "BUY",
-    description: "Deposit AVAX",
-  },
-}
+// Live scan mode: "logs" pulls TokenCreated logs per block range, "blocks" fetches every full block (fallback)
+const SCAN_MODE = process.env.NEXT_PUBLIC_MONITOR_SCAN_MODE === "blocks" ? "blocks" : "logs"
+
+// Catch-up settings: how many blocks one monitoring iteration may scan, and how fast to loop while behind
+const MAX_BLOCKS_PER_ITERATION = SCAN_MODE === "logs" ? 2000n : 50n
+const CATCH_UP_INTERVAL = 500
+
+// Reorg protection: posts wait for this many confirmations, and recent block hashes are kept to spot forks
+export const CONFIRMATION_DEPTH = BigInt(process.env.NEXT_PUBLIC_CONFIRMATION_DEPTH || "3")
+const REORG_WINDOW = 128n
 
 // Global state voor real-time monitoring
 let isMonitoring = false
 let lastProcessedBlock = 0n
+let latestKnownBlock = 0n
+let catchUpStartBlock: bigint | null = null
+let catchUpTargetBlock: bigint | null = null
 let monitoringCallbacks: Array<(tx: ContractTransaction) => void> = []
 let monitoringTimeout: NodeJS.Timeout | null = null
+const recentBlockHashes = new Map<bigint, string>()
+const awaitingConfirmation = new Map<string, ContractTransaction>()
+let reorgCount = 0
+let lastReorgBlock: bigint | null = null
 
-// Decode token creation data from transaction input
-export function decodeTokenCreationData(methodId: string, input: string): TokenMetadata | null {
-  try {
-    if (methodId === "0x0b8c6fec") {
-      // Original createToken format
-      const data = `0x${input.slice(10)}`
-      const decoded = decodeAbiParameters(
-        [
-          { name: "name", type: "string" },
-          { name: "symbol", type: "string" },
-          { name: "totalSupply", type: "uint256" },
-          { name: "taxPercentage", type: "uint256" },
-        ],
-        data,
-      )
-
-      return {
-        name: decoded[0],
-        symbol: decoded[1],
-        totalSupply: decoded[2].toString(),
-      }
-    } else if (methodId === "0x30f51a46") {
-      // New createToken format
-      const data = `0x${input.slice(10)}`
-      const decoded = decodeAbiParameters(
-        [
-          { name: "param1", type: "uint16" },
-          { name: "param2", type: "uint8" },
-          { name: "param3", type: "uint128" },
-          { name: "param4", type: "uint8" },
-          { name: "creator", type: "address" },
-          { name: "param6", type: "uint256" },
-          { name: "name", type: "string" },
-          { name: "symbol", type: "string" },
-          { name: "totalSupply", type: "uint256" },
-        ],
-        data,
-      )
-
-      return {
-        name: decoded[6],
-        symbol: decoded[7],
-        totalSupply: decoded[8].toString(),
-        creator: decoded[4],
-      }
-    }
-  } catch (error) {
-    console.error("Error decoding token creation data:", error)
-  }
-
-  return null
+export interface MonitoringStatusInfo {
+  isMonitoring: boolean
+  lastProcessedBlock: string
+  subscriberCount: number
+  latestBlock: string
+  isCatchingUp: boolean
+  catchUpStartBlock: string | null
+  catchUpTargetBlock: string | null
+  confirmationDepth: number
+  awaitingConfirmation: number
+  reorgCount: number
+  lastReorgBlock: string | null
 }
 
 // Functie om creator profile op te halen
@@ -255,7 +207,7 @@ export function determineTransactionType(
   description: string
   method: string
 } {
-  const methodInfo = METHOD_SIGNATURES[methodId]
+  const methodInfo = lookupMethod(methodId)
 
   if (methodInfo) {
     return {
@@ -265,16 +217,8 @@ export function determineTransactionType(
     }
   }
 
-  // Verbeterde fallback logica
-  // Check of de method ID begint met "0x" gevolgd door "create" of "token" in de hex representatie
-  const methodIdLower = methodId.toLowerCase()
-  if (methodIdLower.includes("create") || methodIdLower.includes("token")) {
-    return {
-      type: "TOKEN_CREATION",
-      description: "Possible token creation",
-      method: "unknown_create",
-    }
-  }
+  // Count selectors without an ABI, so we can see which calls we are missing
+  recordUnknownSelector(methodId)
 
   // Als er AVAX wordt gestuurd, is het waarschijnlijk een buy
   const valueInAvax = Number(value) / 1e18
@@ -305,112 +249,314 @@ function notifyCallbacks(transaction: ContractTransaction) {
       }
     })
 
-    // Process token creation for database storage
+    // Process token creation for database storage; posts are held until the launch is confirmed
     if (transaction.isTokenCreation) {
-      processTokenCreation(transaction).catch((error) => {
+      const postAlerts = CONFIRMATION_DEPTH === 0n
+      if (!postAlerts) {
+        awaitingConfirmation.set(transaction.hash, transaction)
+      }
+
+      processTokenCreation(transaction, { postAlerts }).catch((error) => {
         console.error("Error processing token creation for database:", error)
       })
     }
   }, 0)
 }
 
-// Real-time contract monitoring functie
-async function monitorContract() {
-  if (!isMonitoring) return
+// Persist the live cursor, including the catch-up range while we are behind the chain head
+async function persistMonitoringCursor() {
+  await saveIndexerCursor({
+    chain_id: getChainId(),
+    contract_address: getPrimaryContract().address,
+    cursor_type: "live",
+    last_processed_block: Number(lastProcessedBlock),
+    start_block: catchUpStartBlock !== null ? Number(catchUpStartBlock) : null,
+    target_block: catchUpTargetBlock !== null ? Number(catchUpTargetBlock) : null,
+  })
+}
 
-  try {
-    const latestBlock = await client.getBlockNumber()
+function rememberBlockHash(blockNumber: bigint, hash: string) {
+  recentBlockHashes.set(blockNumber, hash)
 
-    // Initialize lastProcessedBlock if not set
-    if (lastProcessedBlock === 0n) {
-      lastProcessedBlock = latestBlock - 1n // Start from previous block
-      console.log(`Starting monitoring from block ${lastProcessedBlock}`)
+  for (const knownBlock of recentBlockHashes.keys()) {
+    if (knownBlock <= blockNumber - REORG_WINDOW) {
+      recentBlockHashes.delete(knownBlock)
+    }
+  }
+}
+
+// Walk back to the last block we saw that is still canonical, roll back everything stored above it
+// and rescan from there. The known hashes may be sparse (log scanning only sees some blocks).
+async function handleReorg(mismatchBlock: bigint) {
+  const knownBlocks = [...recentBlockHashes.keys()]
+    .filter((block) => block <= mismatchBlock)
+    .sort((a, b) => (a > b ? -1 : 1))
+
+  let forkPoint: bigint | null = null
+  for (const knownBlock of knownBlocks) {
+    const canonical = await client.getBlock({ blockNumber: knownBlock })
+    if (canonical.hash === recentBlockHashes.get(knownBlock)) {
+      forkPoint = knownBlock
+      break
+    }
+  }
+
+  if (forkPoint === null) {
+    console.warn(`⚠️ Reorg is deeper than the ${REORG_WINDOW} tracked blocks, rolling back all of them`)
+    forkPoint = (knownBlocks[knownBlocks.length - 1] ?? mismatchBlock) - 1n
+  }
+
+  console.warn(`🔀 Chain reorganization detected at block ${mismatchBlock}, rolling back to block ${forkPoint}`)
+
+  for (const knownBlock of recentBlockHashes.keys()) {
+    if (knownBlock > forkPoint) {
+      recentBlockHashes.delete(knownBlock)
+    }
+  }
+
+  // Launches from orphaned blocks are never posted; if they are mined again the rescan picks them up
+  for (const [hash, transaction] of awaitingConfirmation) {
+    if (transaction.blockNumber > forkPoint) {
+      awaitingConfirmation.delete(hash)
+    }
+  }
+
+  const feeTokens = await getCreatorFeesToRollback(forkPoint, lastProcessedBlock)
+  const orphaned = await rollbackBlocksAfter(forkPoint)
+  await rollbackHoldersAfter(forkPoint)
+  await rollbackCreatorEventsAfter(forkPoint)
+  await rollbackCreatorFees(feeTokens)
+  for (const row of orphaned) {
+    if (row.transaction_type === "TOKEN_CREATION") {
+      await removeCreatorContract(row.from_address, row.hash)
+    }
+  }
+
+  reorgCount++
+  lastReorgBlock = forkPoint
+  lastProcessedBlock = forkPoint
+}
+
+// Post held launches once they are CONFIRMATION_DEPTH blocks deep and their block is still canonical
+async function releaseConfirmedTransactions() {
+  for (const [hash, transaction] of awaitingConfirmation) {
+    if (lastProcessedBlock - transaction.blockNumber < CONFIRMATION_DEPTH) continue
+
+    awaitingConfirmation.delete(hash)
+
+    if (transaction.blockHash) {
+      const canonical = await client.getBlock({ blockNumber: transaction.blockNumber })
+      if (canonical.hash !== transaction.blockHash) {
+        console.warn(`⚠️ Dropping posts for ${hash}: its block is no longer canonical`)
+        continue
+      }
+    }
+
+    console.log(`✅ ${hash} reached ${CONFIRMATION_DEPTH} confirmations, releasing posts`)
+    processTokenCreation(transaction).catch((error) => {
+      console.error("Error posting confirmed token creation:", error)
+    })
+  }
+}
+
+// Hand a detected launch to the subscribers, then again once the creator profile is loaded
+function emitTokenCreation(contractTx: ContractTransaction) {
+  console.log(`New token creation found: ${contractTx.hash} - ${contractTx.description}`)
+
+  notifyCallbacks(contractTx)
+
+  fetchCreatorProfile(contractTx.from)
+    .then((profile) => {
+      contractTx.creatorProfile = profile
+      notifyCallbacks(contractTx)
+    })
+    .catch((error) => {
+      console.error(`Error fetching profile for ${contractTx.from}:`, error)
+    })
+}
 
-      // Schedule next check
-      monitoringTimeout = setTimeout(monitorContract, 3000)
+// Log mode: one getLogs call for the whole range, transaction details only for matching hashes.
+// This also catches launches routed through other contracts, since the Arena contract emits the event either way.
+async function scanRangeWithLogs(fromBlock: bigint, toBlock: bigint) {
+  // Make sure the block we stopped at is still canonical before building on top of it
+  const knownHash = recentBlockHashes.get(lastProcessedBlock)
+  if (knownHash) {
+    const previous = await client.getBlock({ blockNumber: lastProcessedBlock })
+    if (previous.hash !== knownHash) {
+      await handleReorg(lastProcessedBlock)
       return
     }
+  }
 
-    // Check if there are new blocks
-    if (latestBlock > lastProcessedBlock) {
-      console.log(`New blocks detected: ${lastProcessedBlock + 1n} to ${latestBlock}`)
+  const logs = await getTokenCreatedLogs(fromBlock, toBlock)
 
-      // Process each new block
-      for (let blockNum = lastProcessedBlock + 1n; blockNum <= latestBlock; blockNum++) {
-        try {
-          const block = await client.getBlock({ blockNumber: blockNum, includeTransactions: true })
+  const blockTimestamps = new Map<bigint, number>()
+  const transactions: ContractTransaction[] = []
+  for (const log of logs) {
+    rememberBlockHash(log.blockNumber, log.blockHash)
+    transactions.push(await buildContractTransactionFromLog(log, blockTimestamps))
+  }
 
-          if (!block.transactions) continue
+  await enrichTransactionMetadata(transactions)
+  transactions.forEach(emitTokenCreation)
 
-          // Check each transaction in the block
-          for (const tx of block.transactions) {
-            if (typeof tx === "object" && tx.to?.toLowerCase() === ARENA_CONTRACT_ADDRESS.toLowerCase()) {
-              const methodId = tx.input.slice(0, 10)
-              const transactionInfo = determineTransactionType(methodId, tx.value.toString())
+  const tip = await client.getBlock({ blockNumber: toBlock })
+  rememberBlockHash(toBlock, tip.hash!)
+  lastProcessedBlock = toBlock
+}
 
-              // Only process token creations for real-time monitoring
-              if (transactionInfo.type !== "TOKEN_CREATION") continue
+// Block mode (fallback): fetch every block with its transactions and filter on calls to the Arena contract
+async function scanRangeWithBlocks(fromBlock: bigint, toBlock: bigint) {
+  for (let blockNum = fromBlock; blockNum <= toBlock; blockNum++) {
+    try {
+      const block = await client.getBlock({ blockNumber: blockNum, includeTransactions: true })
+
+      // A parent hash that differs from the one we saw means the chain reorganized under us
+      const knownParentHash = recentBlockHashes.get(blockNum - 1n)
+      if (knownParentHash && block.parentHash !== knownParentHash) {
+        await handleReorg(blockNum - 1n)
+        return
+      }
 
-              // Decode token metadata if it's a token creation
-              let tokenMetadata: TokenMetadata | null = null
-              if (transactionInfo.type === "TOKEN_CREATION") {
-                tokenMetadata = decodeTokenCreationData(methodId, tx.input)
-              }
+      rememberBlockHash(blockNum, block.hash!)
 
-              const contractTx: ContractTransaction = {
-                hash: tx.hash,
-                from: tx.from,
-                to: tx.to,
-                value: tx.value.toString(),
-                blockNumber: block.number!,
-                timestamp: Number(block.timestamp) * 1000,
-                method: transactionInfo.method,
-                methodId,
-                transactionType: transactionInfo.type,
-                isTokenCreation: transactionInfo.type === "TOKEN_CREATION",
-                description: transactionInfo.description,
-                tokenMetadata,
-                rawInput: tx.input,
-              }
+      if (!block.transactions) {
+        lastProcessedBlock = blockNum
+        continue
+      }
 
-              console.log(`New token creation found: ${contractTx.hash} - ${contractTx.description}`)
-
-              // Notify callbacks first without profile
-              notifyCallbacks(contractTx)
-
-              // Fetch creator profile asynchronously and notify again
-              if (transactionInfo.type === "TOKEN_CREATION") {
-                fetchCreatorProfile(tx.from)
-                  .then((profile) => {
-                    contractTx.creatorProfile = profile
-                    // Notify callbacks again with updated profile
-                    notifyCallbacks(contractTx)
-                  })
-                  .catch((error) => {
-                    console.error(`Error fetching profile for ${tx.from}:`, error)
-                  })
-              }
-            }
+      // Check each transaction in the block
+      for (const tx of block.transactions) {
+        if (typeof tx === "object" && isLaunchpadContract(tx.to)) {
+          const methodId = tx.input.slice(0, 10)
+          const transactionInfo = determineTransactionType(methodId, tx.value.toString())
+
+          // Only process token creations for real-time monitoring
+          if (transactionInfo.type !== "TOKEN_CREATION") continue
+
+          const contractTx: ContractTransaction = {
+            hash: tx.hash,
+            from: tx.from,
+            to: tx.to,
+            value: tx.value.toString(),
+            blockNumber: block.number!,
+            blockHash: block.hash!,
+            timestamp: Number(block.timestamp) * 1000,
+            method: transactionInfo.method,
+            methodId,
+            transactionType: transactionInfo.type,
+            isTokenCreation: true,
+            description: transactionInfo.description,
+            tokenMetadata: decodeTokenCreationData(methodId, tx.input) ?? undefined,
+            rawInput: tx.input,
+            contractAddress: getLaunchpadContract(tx.to)?.address,
           }
 
-          // Small delay between blocks to avoid overwhelming the system
-          if (blockNum < latestBlock) {
-            await new Promise((resolve) => setTimeout(resolve, 100))
-          }
+          await enrichTransactionMetadata([contractTx])
+          emitTokenCreation(contractTx)
+        }
+      }
+
+      lastProcessedBlock = blockNum
+
+      // Small delay between blocks to avoid overwhelming the system
+      if (blockNum < toBlock) {
+        await new Promise((resolve) => setTimeout(resolve, 100))
+      }
+    } catch (error) {
+      // Stop here so the failed block is retried next iteration instead of being skipped
+      console.error(`Error processing block ${blockNum}:`, error)
+      return
+    }
+  }
+}
+
+// Real-time contract monitoring functie
+async function monitorContract() {
+  if (!isMonitoring) return
+
+  let isBehind = false
+
+  try {
+    const latestBlock = await client.getBlockNumber()
+    latestKnownBlock = latestBlock
+
+    // Resume from the stored cursor, or start at the previous block on the very first run
+    if (lastProcessedBlock === 0n) {
+      const cursor = await getIndexerCursor(getChainId(), getPrimaryContract().address)
+
+      if (cursor) {
+        // Rescan the unconfirmed tail so held posts survive a restart and block hashes are known again
+        lastProcessedBlock = BigInt(cursor.last_processed_block) - CONFIRMATION_DEPTH
+        console.log(`Resuming monitoring from stored cursor at block ${lastProcessedBlock}`)
+      } else {
+        lastProcessedBlock = latestBlock - 1n
+        console.log(`Starting monitoring from block ${lastProcessedBlock}`)
+        await persistMonitoringCursor()
+      }
+    }
+
+    // Check if there are new blocks
+    if (latestBlock > lastProcessedBlock) {
+      // Catch up through a gap in bounded chunks instead of one huge scan
+      const toBlock =
+        latestBlock - lastProcessedBlock > MAX_BLOCKS_PER_ITERATION
+          ? lastProcessedBlock + MAX_BLOCKS_PER_ITERATION
+          : latestBlock
+
+      if (toBlock < latestBlock) {
+        if (catchUpStartBlock === null) {
+          catchUpStartBlock = lastProcessedBlock
+          console.log(`⏩ Catching up ${latestBlock - lastProcessedBlock} blocks behind the chain head`)
+        }
+        catchUpTargetBlock = latestBlock
+      }
+
+      console.log(`New blocks detected: ${lastProcessedBlock + 1n} to ${toBlock}`)
+
+      const fromBlock = lastProcessedBlock + 1n
+      if (SCAN_MODE === "logs") {
+        await scanRangeWithLogs(fromBlock, toBlock)
+      } else {
+        await scanRangeWithBlocks(fromBlock, toBlock)
+      }
+
+      // Index trades, snipers, creator fees, graduated pools, holders and creator activity over whatever was
+      // scanned; on failure the range is scanned again
+      if (lastProcessedBlock >= fromBlock) {
+        try {
+          await indexTradesInRange(fromBlock, lastProcessedBlock)
+          await indexSnipersInRange(fromBlock, lastProcessedBlock)
+          await indexCreatorFeesInRange(fromBlock, lastProcessedBlock)
+          await indexPoolsInRange(fromBlock, lastProcessedBlock)
+          await indexHoldersInRange(fromBlock, lastProcessedBlock)
+          await indexCreatorActivityInRange(fromBlock, lastProcessedBlock)
         } catch (error) {
-          console.error(`Error processing block ${blockNum}:`, error)
+          console.error(`❌ Error indexing activity in blocks ${fromBlock}-${lastProcessedBlock}:`, error)
+          lastProcessedBlock = fromBlock - 1n
         }
       }
 
-      lastProcessedBlock = latestBlock
+      await releaseConfirmedTransactions()
+      await releaseGraduationAlerts(lastProcessedBlock - CONFIRMATION_DEPTH)
+      await releaseRugAlerts(lastProcessedBlock - CONFIRMATION_DEPTH)
+
+      isBehind = lastProcessedBlock < latestBlock
+      if (!isBehind && catchUpStartBlock !== null) {
+        console.log(`✅ Caught up with the chain head at block ${lastProcessedBlock}`)
+        catchUpStartBlock = null
+        catchUpTargetBlock = null
+      }
+
+      await persistMonitoringCursor()
     }
   } catch (error) {
     console.error("Error in contract monitoring:", error)
   }
 
-  // Schedule next check - slower polling to be more stable
+  // Schedule next check - slower polling to be more stable, faster while catching up
   if (isMonitoring) {
-    monitoringTimeout = setTimeout(monitorContract, 3000) // Check every 3 seconds
+    monitoringTimeout = setTimeout(monitorContract, isBehind ? CATCH_UP_INTERVAL : 3000)
   }
 }
 
@@ -446,6 +592,10 @@ export function stopContractMonitoring(): void {
 
   monitoringCallbacks = []
   lastProcessedBlock = 0n
+  catchUpStartBlock = null
+  catchUpTargetBlock = null
+  recentBlockHashes.clear()
+  awaitingConfirmation.clear()
 }
 
 // Subscribe to real-time contract transactions
@@ -472,18 +622,53 @@ export function subscribeToContractTransactions(callback: (tx: ContractTransacti
 }
 
 // Get monitoring status
-export function getMonitoringStatus(): {
-  isMonitoring: boolean
-  lastProcessedBlock: string
-  subscriberCount: number
-} {
+export function getMonitoringStatus(): MonitoringStatusInfo {
   return {
     isMonitoring,
     lastProcessedBlock: lastProcessedBlock.toString(),
     subscriberCount: monitoringCallbacks.length,
+    latestBlock: latestKnownBlock.toString(),
+    isCatchingUp: catchUpStartBlock !== null,
+    catchUpStartBlock: catchUpStartBlock?.toString() ?? null,
+    catchUpTargetBlock: catchUpTargetBlock?.toString() ?? null,
+    confirmationDepth: Number(CONFIRMATION_DEPTH),
+    awaitingConfirmation: awaitingConfirmation.size,
+    reorgCount,
+    lastReorgBlock: lastReorgBlock?.toString() ?? null,
   }
 }
 
+// Monitoring status of the headless worker, derived from the cursor it stores
+export async function getStoredMonitoringStatus(): Promise<MonitoringStatusInfo> {
+  const [cursor, latestBlock] = await Promise.all([
+    getIndexerCursor(getChainId(), getPrimaryContract().address),
+    client.getBlockNumber().catch(() => 0n),
+  ])
+
+  // The worker saves its cursor every few seconds; a stale cursor means it is not running
+  const isAlive = !!cursor && Date.now() - new Date(cursor.updated_at).getTime() < 60 * 1000
+
+  return {
+    isMonitoring: isAlive,
+    lastProcessedBlock: cursor ? cursor.last_processed_block.toString() : "0",
+    subscriberCount: 0,
+    latestBlock: latestBlock.toString(),
+    isCatchingUp: cursor?.start_block != null,
+    catchUpStartBlock: cursor?.start_block?.toString() ?? null,
+    catchUpTargetBlock: cursor?.target_block?.toString() ?? null,
+    // Held posts and reorgs live in the worker's memory; only the configured depth is known here
+    confirmationDepth: Number(CONFIRMATION_DEPTH),
+    awaitingConfirmation: 0,
+    reorgCount: 0,
+    lastReorgBlock: null,
+  }
+}
+
+// When the headless indexer worker runs the scan loop, the dashboard only reads what it stored
+export function isHeadlessIndexerEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_INDEXER_MODE === "worker"
+}
+
 // Helper functie om token address te extraheren uit events
 async function extractTokenAddressFromTransaction(txHash: string): Promise<string | null> {
   try {
@@ -492,25 +677,12 @@ async function extractTokenAddressFromTransaction(txHash: string): Promise<strin
     // Haal de transaction receipt op
     const receipt = await client.getTransactionReceipt({ hash: txHash as `0x${string}` })
 
-    // Zoek naar TokenCreated events
+    // Launches of the configured launchpads, each read by the decoder of its kind
     for (const log of receipt.logs) {
-      // Check of het log van het Arena contract komt
-      if (log.address.toLowerCase() === ARENA_CONTRACT_ADDRESS.toLowerCase()) {
-        try {
-          // Probeer te decoderen als TokenCreated event
-          const decoded = decodeEventLog({
-            abi: [TOKEN_CREATED_EVENT],
-            data: log.data,
-            topics: log.topics,
-          })
-
-          if (decoded.eventName === "TokenCreated" && decoded.args.params?.tokenContractAddress) {
-            console.log(`✅ Found token contract address in event: ${decoded.args.params.tokenContractAddress}`)
-            return decoded.args.params.tokenContractAddress as string
-          }
-        } catch (e) {
-          // Niet een TokenCreated event, ga door
-        }
+      const tokenAddress = decodeLaunchLog(log)?.args.params?.tokenContractAddress
+      if (tokenAddress) {
+        console.log(`✅ Found token contract address in event: ${tokenAddress}`)
+        return tokenAddress
       }
     }
 
@@ -522,6 +694,77 @@ async function extractTokenAddressFromTransaction(txHash: string): Promise<strin
   }
 }
 
+// Build a ContractTransaction from a TokenCreated log (shared by the initial load and the backfill)
+export async function buildContractTransactionFromLog(
+  log: TokenCreatedLog,
+  blockTimestamps?: Map<bigint, number>,
+): Promise<ContractTransaction> {
+  const tx = await client.getTransaction({ hash: log.transactionHash })
+
+  // Reuse block timestamps when many logs share a block
+  let timestamp = blockTimestamps?.get(log.blockNumber)
+  if (timestamp === undefined) {
+    const block = await client.getBlock({ blockNumber: log.blockNumber })
+    timestamp = Number(block.timestamp) * 1000
+    blockTimestamps?.set(log.blockNumber, timestamp)
+  }
+
+  const methodId = tx.input.slice(0, 10)
+  const transactionInfo = determineTransactionType(methodId, tx.value.toString())
+
+  // The log proves a launch, even when the transaction went through another contract (router, factory)
+  const isDirectCall =
+    tx.to?.toLowerCase() === log.address.toLowerCase() && transactionInfo.type === "TOKEN_CREATION"
+
+  let tokenMetadata: TokenMetadata | null = isDirectCall ? decodeTokenCreationData(methodId, tx.input) : null
+
+  const tokenAddress = log.args.params?.tokenContractAddress as string | undefined
+  if (tokenAddress) {
+    if (!tokenMetadata) tokenMetadata = { tokenAddress }
+    else tokenMetadata.tokenAddress = tokenAddress
+  }
+
+  if (!tokenMetadata?.tokenAddress) {
+    const addr = await extractTokenAddressFromTransaction(tx.hash)
+    if (addr) {
+      if (!tokenMetadata) tokenMetadata = { tokenAddress: addr }
+      else tokenMetadata.tokenAddress = addr
+    }
+  }
+
+  // Routed calls can't be decoded with our method signatures; their name, symbol and decimals are read from
+  // the token itself by enrichTransactionMetadata, batched over all launches of a range
+  if (tokenMetadata && !tokenMetadata.totalSupply) {
+    tokenMetadata.totalSupply = log.args.tokenSupply?.toString()
+  }
+
+  const contractTx: ContractTransaction = {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    value: tx.value.toString(),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    timestamp,
+    method: isDirectCall ? transactionInfo.method : "routed_create",
+    methodId,
+    transactionType: "TOKEN_CREATION",
+    isTokenCreation: true,
+    description: isDirectCall ? transactionInfo.description : "Token creation via another contract",
+    tokenMetadata: tokenMetadata ?? undefined,
+    rawInput: tx.input,
+    tokenId: log.args.tokenId?.toString(),
+    contractAddress: log.address,
+    launchParams: extractLaunchParams(log),
+  }
+
+  if (tokenMetadata?.tokenAddress) {
+    contractTx.tokenAddress = tokenMetadata.tokenAddress
+  }
+
+  return contractTx
+}
+
 // Fetch recent contract transactions (for initial load)
 export async function fetchContractTransactions(
   limit = 50,
@@ -541,12 +784,7 @@ export async function fetchContractTransactions(
     console.log(`Fetching logs from block ${fromBlock} to ${latestBlock}`)
 
     // Currently only TokenCreated events emit logs, so other filters will return nothing
-    const logs = await client.getLogs({
-      address: ARENA_CONTRACT_ADDRESS,
-      event: TOKEN_CREATED_EVENT,
-      fromBlock,
-      toBlock: latestBlock,
-    })
+    const logs = await getTokenCreatedLogs(fromBlock, latestBlock)
 
     console.log(`Received ${logs.length} logs`)
 
@@ -554,52 +792,9 @@ export async function fetchContractTransactions(
 
     for (const log of logs) {
       try {
-        const tx = await client.getTransaction({ hash: log.transactionHash })
-        const block = await client.getBlock({ blockNumber: log.blockNumber })
-
-        const methodId = tx.input.slice(0, 10)
-        const transactionInfo = determineTransactionType(methodId, tx.value.toString())
-
-        if (filterType && transactionInfo.type !== filterType) continue
+        const contractTx = await buildContractTransactionFromLog(log)
 
-        let tokenMetadata: TokenMetadata | null = null
-        if (transactionInfo.type === "TOKEN_CREATION") {
-          tokenMetadata = decodeTokenCreationData(methodId, tx.input)
-
-          const tokenAddress = (log.args as any)?.params?.tokenContractAddress as string | undefined
-          if (tokenAddress) {
-            if (!tokenMetadata) tokenMetadata = { tokenAddress }
-            else tokenMetadata.tokenAddress = tokenAddress
-          }
-
-          if (!tokenMetadata?.tokenAddress) {
-            const addr = await extractTokenAddressFromTransaction(tx.hash)
-            if (addr) {
-              if (!tokenMetadata) tokenMetadata = { tokenAddress: addr }
-              else tokenMetadata.tokenAddress = addr
-            }
-          }
-        }
-
-        const contractTx: ContractTransaction = {
-          hash: tx.hash,
-          from: tx.from,
-          to: tx.to,
-          value: tx.value.toString(),
-          blockNumber: tx.blockNumber!,
-          timestamp: Number(block.timestamp) * 1000,
-          method: transactionInfo.method,
-          methodId,
-          transactionType: transactionInfo.type,
-          isTokenCreation: transactionInfo.type === "TOKEN_CREATION",
-          description: transactionInfo.description,
-          tokenMetadata,
-          rawInput: tx.input,
-        }
-
-        if (transactionInfo.type === "TOKEN_CREATION" && tokenMetadata?.tokenAddress) {
-          contractTx.tokenAddress = tokenMetadata.tokenAddress
-        }
+        if (filterType && contractTx.transactionType !== filterType) continue
 
         transactions.push(contractTx)
       } catch (err) {
@@ -607,6 +802,8 @@ export async function fetchContractTransactions(
       }
     }
 
+    await enrichTransactionMetadata(transactions)
+
     const sortedTransactions = transactions
       .sort((a, b) => Number(b.blockNumber - a.blockNumber))
       .slice(0, limit)
@@ -672,12 +869,7 @@ export async function fetchTokens(): Promise<TokenData[]> {
     console.log(`Fetching token events from block ${fromBlock} to ${blockNumber}`)
 
     // Fetch events
-    const logs = await client.getLogs({
-      address: ARENA_CONTRACT_ADDRESS,
-      event: TOKEN_CREATED_EVENT,
-      fromBlock,
-      toBlock: blockNumber,
-    })
+    const logs = await getTokenCreatedLogs(fromBlock, blockNumber)
 
     console.log(`Found ${logs.length} token creation events`)
 
@@ -696,14 +888,16 @@ export async function fetchTokens(): Promise<TokenData[]> {
             address: params?.tokenContractAddress as string,
             tokenContractAddress: params?.tokenContractAddress as string,
             creator: params?.creatorAddress as string,
-            name: undefined, // Name not available in event, would need separate call
-            symbol: undefined, // Symbol not available in event, would need separate call
+            name: undefined, // Not in the event, filled in by enrichTokens below
+            symbol: undefined,
             totalSupply: tokenSupply,
             timestamp: Number(block.timestamp) * 1000,
             blockNumber: log.blockNumber,
             hash: log.transactionHash,
             isPending: false,
             tokenId,
+            contractAddress: log.address,
+            launchParams: extractLaunchParams(log),
           }
         } catch (error) {
           console.error("Error processing log:", error)
@@ -713,7 +907,7 @@ export async function fetchTokens(): Promise<TokenData[]> {
     )
 
     // Filter out null values and sort by block number, newest first
-    const validTokens = tokens.filter(Boolean) as TokenData[]
+    const validTokens = await enrichTokens(tokens.filter(Boolean) as TokenData[])
     return validTokens.sort((a, b) => Number((b.blockNumber || 0n) - (a.blockNumber || 0n)))
   } catch (error) {
     console.error("Error fetching token creation events:", error)
@@ -721,58 +915,70 @@ export async function fetchTokens(): Promise<TokenData[]> {
   }
 }
 
-// Fetch pending transactions that are creating tokens
+// Token launches waiting in the mempool. The watcher starts on first use and stops once nobody has asked for a
+// while, so the first call after a pause only returns launches that were already pending; RPCs without
+// pending filters always return an empty list.
 export async function fetchPendingTransactions(): Promise<TokenData[]> {
   try {
-    // Note: Most RPC endpoints don't provide reliable pending transaction data
-    // This is a placeholder implementation
-    console.log("Fetching pending transactions...")
-    return []
+    await startMempoolWatcher()
+    return getPendingLaunches()
   } catch (error) {
     console.error("Error fetching pending transactions:", error)
     return []
   }
 }
 
-// Function to listen for new token creation events in real-time
+// Function to listen for new token creation events in real-time. Each launchpad is watched with its own
+// launch event and decoder.
 export function subscribeToTokenCreations(callback: (token: TokenData) => void) {
   try {
-    const unwatch = client.watchContractEvent({
-      address: ARENA_CONTRACT_ADDRESS as Address,
-      event: TOKEN_CREATED_EVENT,
-      onLogs: async (logs) => {
-        for (const log of logs) {
-          try {
-            const block = await client.getBlock({ blockNumber: log.blockNumber })
-
-            // Extract data from the new event structure
-            const tokenId = log.args.tokenId?.toString()
-            const params = log.args.params
-            const tokenSupply = log.args.tokenSupply?.toString()
-
-            const token: TokenData = {
-              address: params?.tokenContractAddress as string,
-              tokenContractAddress: params?.tokenContractAddress as string,
-              creator: params?.creatorAddress as string,
-              name: undefined, // Name not available in event
-              symbol: undefined, // Symbol not available in event
-              totalSupply: tokenSupply,
-              timestamp: Number(block.timestamp) * 1000,
-              blockNumber: log.blockNumber,
-              hash: log.transactionHash,
-              isPending: false,
-              tokenId,
+    const unwatchers = getLaunchpadContracts().map(({ address, creationEvent, decodeCreation }) =>
+      client.watchEvent({
+        address,
+        event: creationEvent,
+        onLogs: async (rawLogs) => {
+          const tokens: TokenData[] = []
+
+          for (const log of rawLogs.flatMap((rawLog) => decodeCreation(rawLog) ?? [])) {
+            try {
+              const block = await client.getBlock({ blockNumber: log.blockNumber })
+
+              // Extract data from the new event structure
+              const tokenId = log.args.tokenId?.toString()
+              const params = log.args.params
+              const tokenSupply = log.args.tokenSupply?.toString()
+
+              const token: TokenData = {
+                address: params?.tokenContractAddress as string,
+                tokenContractAddress: params?.tokenContractAddress as string,
+                creator: params?.creatorAddress as string,
+                name: undefined, // Not in the event, filled in by enrichTokens below
+                symbol: undefined,
+                totalSupply: tokenSupply,
+                timestamp: Number(block.timestamp) * 1000,
+                blockNumber: log.blockNumber,
+                hash: log.transactionHash,
+                isPending: false,
+                tokenId,
+                contractAddress: log.address,
+                launchParams: extractLaunchParams(log),
+              }
+
+              tokens.push(token)
+            } catch (error) {
+              console.error("Error processing log:", error)
             }
+          }
 
+          for (const token of await enrichTokens(tokens)) {
             // Use setTimeout to ensure async callback execution
             setTimeout(() => callback(token), 0)
-          } catch (error) {
-            console.error("Error processing log:", error)
           }
-        }
-      },
-    })
+        },
+      }),
+    )
 
+    const unwatch = () => unwatchers.forEach((stop) => stop())
     return unwatch
   } catch (error) {
     console.error("Error setting up event subscription:", error)
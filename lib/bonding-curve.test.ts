@@ -0,0 +1,153 @@
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, it, expect, vi } from 'vitest'
+import {
+  getBuyCost,
+  getCurveQuote,
+  getGraduationProgress,
+  getMarketCap,
+  getSellProceeds,
+  getSpotPrice,
+} from './bonding-curve'
+import type { TokenCreation } from './decoder'
+import { createRpcReplayer, FIXTURE_DIR, loadRpcFixture } from './rpc-fixtures'
+import { setRpcHandler } from './rpc-provider'
+import type { TransactionAnalysis } from './transaction-analyzer'
+
+const WEI = BigInt(10 ** 18)
+
+// price(x) = (2x² + 3x) / 1000 AVAX per token
+const params = { curveScaler: '1000', a: 2, b: 3, salePercentage: 70, lpPercentage: 20 }
+
+describe('getSpotPrice', () => {
+  it('is zero before anything is sold', () => {
+    expect(getSpotPrice(params, 0n)).toBe(0n)
+  })
+
+  it('prices 10 sold tokens at 0.23 AVAX', () => {
+    // (2·100 + 3·10) / 1000 = 0.23
+    expect(getSpotPrice(params, 10n * WEI)).toBe(230000000000000000n)
+  })
+
+  it('returns zero for a zero curve scaler', () => {
+    expect(getSpotPrice({ ...params, curveScaler: '0' }, 10n * WEI)).toBe(0n)
+  })
+})
+
+describe('getBuyCost', () => {
+  it('integrates the curve from zero', () => {
+    // (2/3·1000 + 3/2·100) / 1000 = 0.816666… AVAX, rounded down in wei
+    expect(getBuyCost(params, 0n, 10n * WEI)).toBe(816666666666666666n)
+  })
+
+  it('costs more further up the curve', () => {
+    // (2/3·(8000 − 1000) + 3/2·(400 − 100)) / 1000 = 5.116666… AVAX
+    expect(getBuyCost(params, 10n * WEI, 10n * WEI)).toBe(5116666666666666666n)
+  })
+
+  it('is additive over consecutive buys', () => {
+    const whole = getBuyCost(params, 0n, 20n * WEI)
+    const split = getBuyCost(params, 0n, 10n * WEI) + getBuyCost(params, 10n * WEI, 10n * WEI)
+    // Each call rounds down once, so the split can be at most one wei lower
+    expect(whole - split).toBeLessThanOrEqual(1n)
+  })
+
+  it('returns zero for a zero amount', () => {
+    expect(getBuyCost(params, 10n * WEI, 0n)).toBe(0n)
+  })
+})
+
+describe('getSellProceeds', () => {
+  it('mirrors the buy cost of the same range', () => {
+    expect(getSellProceeds(params, 20n * WEI, 10n * WEI)).toBe(getBuyCost(params, 10n * WEI, 10n * WEI))
+  })
+
+  it('never sells more than was sold', () => {
+    expect(getSellProceeds(params, 10n * WEI, 50n * WEI)).toBe(getBuyCost(params, 0n, 10n * WEI))
+  })
+})
+
+describe('getMarketCap and getGraduationProgress', () => {
+  const totalSupply = 1000n * WEI
+
+  it('values the full supply at the spot price', () => {
+    // 0.23 AVAX × 1000 tokens
+    expect(getMarketCap(params, 10n * WEI, totalSupply)).toBe(230n * WEI)
+  })
+
+  it('measures progress against the sale allocation', () => {
+    // 70% of 1000 tokens are sold on the curve; 350 sold is halfway
+    expect(getGraduationProgress(params, 350n * WEI, totalSupply)).toBe(50)
+    expect(getGraduationProgress(params, 0n, totalSupply)).toBe(0)
+    expect(getGraduationProgress(params, 700n * WEI, totalSupply)).toBe(100)
+  })
+
+  it('quotes the cost of buying out the rest of the sale allocation', () => {
+    const quote = getCurveQuote(params, 350n * WEI, totalSupply)
+    expect(quote.costToGraduate).toBe(getBuyCost(params, 350n * WEI, 350n * WEI).toString())
+    expect(getCurveQuote(params, 700n * WEI, totalSupply).costToGraduate).toBe('0')
+  })
+})
+
+// The formula above is an assumption, so it is also checked against a launch recorded from mainnet when
+// fixtures/rpc/arena-launch.json exists. Record it with the launch and its first buys in chain order, each a
+// direct call to the launchpad:
+//   pnpm record-fixtures arena-launch --tx <launch> --tx <first buy> --tx <second buy> ...
+const REAL_LAUNCH = 'arena-launch'
+
+// The buy value also pays the creator fee and Arena's own fee, which the launch params don't carry
+const PROTOCOL_FEE_ALLOWANCE_BPS = 300
+
+describe.skipIf(!existsSync(join(FIXTURE_DIR, `${REAL_LAUNCH}.json`)))('against a recorded launch', () => {
+  beforeAll(() => {
+    setRpcHandler(createRpcReplayer(loadRpcFixture(REAL_LAUNCH)))
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 404 })))
+  })
+
+  afterAll(() => {
+    setRpcHandler(null)
+    vi.unstubAllGlobals()
+  })
+
+  it('prices each recorded buy at what the buyer paid', async () => {
+    const { analyzeTransaction } = await import('./transaction-analyzer')
+    const hashes = loadRpcFixture(REAL_LAUNCH)
+      .calls.filter((call) => call.method === 'eth_getTransactionByHash')
+      .map((call) => (call.params as string[])[0])
+
+    const analyses = []
+    for (const hash of new Set(hashes)) analyses.push(await analyzeTransaction(hash))
+    const [launch, ...buys] = analyses
+
+    const created = launch?.events.find((event) => event.type === 'TokenCreated')
+    expect(created).toBeDefined()
+    const { tokenAddress, launchParams: params } = created!.data as TokenCreation
+    expect(params).toBeDefined()
+    const launchParams = params!
+    const launchpad = created!.address.toLowerCase()
+
+    // Tokens the launchpad handed out in a transaction, leaving out the liquidity move into the pair
+    const bought = (analysis: TransactionAnalysis) =>
+      (analysis.transfers ?? [])
+        .filter((transfer) => transfer.tokenAddress.toLowerCase() === tokenAddress.toLowerCase())
+        .filter((transfer) => transfer.from.toLowerCase() === launchpad)
+        .filter((transfer) => transfer.to.toLowerCase() !== launchParams.pairAddress.toLowerCase())
+        .reduce((total, transfer) => total + BigInt(transfer.value), BigInt(0))
+
+    // A creator's first buy can happen in the launch transaction itself
+    let soldSupply = bought(launch!)
+    expect(buys.length).toBeGreaterThan(0)
+
+    for (const buy of buys) {
+      expect(buy?.to?.toLowerCase()).toBe(launchpad)
+      const amount = bought(buy!)
+      const cost = getBuyCost(launchParams, soldSupply, amount)
+      const paid = BigInt(buy!.value)
+      const maxFee = (cost * BigInt(launchParams.creatorFeeBasisPoints + PROTOCOL_FEE_ALLOWANCE_BPS)) / BigInt(10000)
+
+      expect(paid).toBeGreaterThanOrEqual(cost)
+      expect(paid - cost).toBeLessThanOrEqual(maxFee)
+      soldSupply += amount
+    }
+  })
+})
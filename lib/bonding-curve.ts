@@ -0,0 +1,143 @@
+import { erc20Abi, type Address } from "viem"
+import type { TokenLaunchParams } from "./blockchain"
+import { rpcClient } from "./rpc-provider"
+
+// Bonding curve pricing for Arena launches.
+//
+// Assumed curve (quadratic, from the TokenCreated params): with x the number of whole tokens sold on the curve,
+//   price(x) = (a·x² + b·x) / curveScaler   AVAX per token
+// so buying from x0 to x1 costs the integral  (a·(x1³ − x0³)/3 + b·(x1² − x0²)/2) / curveScaler  AVAX.
+// All math is done in wei with bigint and a single division at the end, so results are exact (rounded down).
+// If the contract's formula turns out to differ, only this file needs to change.
+
+// False until the formula above has been checked against trades recorded from mainnet. Until then token cards
+// show its quotes, but published alerts leave them out.
+export const CURVE_FORMULA_VERIFIED = false
+
+const WEI = BigInt(10 ** 18)
+
+export type CurveParams = Pick<TokenLaunchParams, "curveScaler" | "a" | "b" | "salePercentage" | "lpPercentage">
+
+export interface CurveQuote {
+  soldSupply: string // Tokens sold on the curve (wei)
+  spotPrice: string // Wei per whole token
+  marketCap: string // Wei, spot price × total supply
+  graduationProgress: number // Percentage of the sale allocation sold, 0-100
+  costToGraduate: string // Wei needed to buy the rest of the sale allocation
+}
+
+function curveTerms(params: CurveParams) {
+  return {
+    a: BigInt(params.a),
+    b: BigInt(params.b),
+    scaler: BigInt(params.curveScaler),
+  }
+}
+
+// Spot price in wei per whole token at the given sold supply (wei)
+export function getSpotPrice(params: CurveParams, soldSupply: bigint): bigint {
+  const { a, b, scaler } = curveTerms(params)
+  if (scaler === 0n) return 0n
+
+  return (a * soldSupply * soldSupply + b * WEI * soldSupply) / (WEI * scaler)
+}
+
+// Wei it costs to buy `amount` tokens (wei) when `soldSupply` tokens (wei) are already sold
+export function getBuyCost(params: CurveParams, soldSupply: bigint, amount: bigint): bigint {
+  const { a, b, scaler } = curveTerms(params)
+  if (scaler === 0n || amount <= 0n) return 0n
+
+  const from = soldSupply
+  const to = soldSupply + amount
+  const cubic = 2n * a * (to * to * to - from * from * from)
+  const quadratic = 3n * b * WEI * (to * to - from * from)
+
+  return (cubic + quadratic) / (6n * WEI * WEI * scaler)
+}
+
+// Wei received for selling `amount` tokens (wei) back to the curve, before fees
+export function getSellProceeds(params: CurveParams, soldSupply: bigint, amount: bigint): bigint {
+  const sellAmount = amount > soldSupply ? soldSupply : amount
+  return getBuyCost(params, soldSupply - sellAmount, sellAmount)
+}
+
+// Market cap in wei: spot price applied to the full token supply
+export function getMarketCap(params: CurveParams, soldSupply: bigint, totalSupply: bigint): bigint {
+  return (getSpotPrice(params, soldSupply) * totalSupply) / WEI
+}
+
+// Tokens (wei) that are sold on the curve before the launch graduates to a DEX pair
+export function getSaleAllocation(params: CurveParams, totalSupply: bigint): bigint {
+  return (totalSupply * BigInt(params.salePercentage)) / 100n
+}
+
+// Percentage of the sale allocation that has been sold, 0-100
+export function getGraduationProgress(params: CurveParams, soldSupply: bigint, totalSupply: bigint): number {
+  const allocation = getSaleAllocation(params, totalSupply)
+  if (allocation === 0n) return 0
+  if (soldSupply >= allocation) return 100
+
+  // Basis points keep two decimals without leaving bigint
+  return Number((soldSupply * 10000n) / allocation) / 100
+}
+
+export function getCurveQuote(params: CurveParams, soldSupply: bigint, totalSupply: bigint): CurveQuote {
+  const allocation = getSaleAllocation(params, totalSupply)
+  const remaining = allocation > soldSupply ? allocation - soldSupply : 0n
+
+  return {
+    soldSupply: soldSupply.toString(),
+    spotPrice: getSpotPrice(params, soldSupply).toString(),
+    marketCap: getMarketCap(params, soldSupply, totalSupply).toString(),
+    graduationProgress: getGraduationProgress(params, soldSupply, totalSupply),
+    costToGraduate: getBuyCost(params, soldSupply, remaining).toString(),
+  }
+}
+
+// Sold supply read from chain. Assumes the launch contract holds the unsold sale allocation plus the
+// LP allocation until graduation, so whatever is missing from its balance has been bought.
+export async function fetchSoldSupply(
+  tokenAddress: string,
+  launchContract: string,
+  params: CurveParams,
+  totalSupply: bigint,
+): Promise<bigint> {
+  const balance = await rpcClient.readContract({
+    address: tokenAddress as Address,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [launchContract as Address],
+  })
+
+  const allocation = getSaleAllocation(params, totalSupply)
+  const held = allocation + (totalSupply * BigInt(params.lpPercentage)) / 100n
+  const sold = held - balance
+
+  if (sold < 0n) return 0n
+  return sold > allocation ? allocation : sold
+}
+
+// Live quote for a launch, or null when the chain can't be read
+export async function getLiveCurveQuote(
+  tokenAddress: string,
+  launchContract: string,
+  params: CurveParams,
+  totalSupply: bigint,
+): Promise<CurveQuote | null> {
+  try {
+    const soldSupply = await fetchSoldSupply(tokenAddress, launchContract, params, totalSupply)
+    return getCurveQuote(params, soldSupply, totalSupply)
+  } catch (error) {
+    console.error(`❌ Error fetching curve quote for ${tokenAddress}:`, error)
+    return null
+  }
+}
+
+// "0.0123" style AVAX amount from wei
+export function formatAvaxAmount(wei: string | bigint): string {
+  const avax = Number(BigInt(wei)) / 1e18
+  if (avax === 0) return "0"
+  if (avax < 0.0001) return avax.toExponential(2)
+  if (avax < 1) return avax.toFixed(4)
+  return avax.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { mapWithConcurrency, parseTransactionHashes, rowsToCsv, summarizeAnalysis } from './bulk-analysis'
+
+const HASH_A = `0x${'ab'.repeat(32)}`
+const HASH_B = `0x${'CD'.repeat(32)}`
+
+describe('bulk analysis', () => {
+  it('parses unique hashes from pasted text', () => {
+    const text = `hash\n${HASH_A}\n${HASH_B}, ${HASH_A}\n0x1234 not a hash`
+
+    expect(parseTransactionHashes(text)).toEqual([HASH_A, HASH_B.toLowerCase()])
+  })
+
+  it('keeps order and never runs more than the limit at once', async () => {
+    let running = 0
+    let peak = 0
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+      running--
+      return index
+    })
+
+    expect(results).toEqual([0, 1, 2, 3, 4])
+    expect(peak).toBe(2)
+  })
+
+  it('exports rows as CSV with quoted fields', () => {
+    const failed = summarizeAnalysis(HASH_A, null)
+    const csv = rowsToCsv([{ ...failed, method: 'createToken(string,string)' }])
+    const [header, line] = csv.trim().split('\n')
+
+    expect(header.split(',')).toContain('tokenSymbol')
+    expect(line).toBe(`${HASH_A},,,,,"createToken(string,string)",error,,0,0,,,${failed.error}`)
+  })
+
+  it('keeps spreadsheet formulas in CSV cells from running', () => {
+    const row = { ...summarizeAnalysis(HASH_A, null), tokenSymbol: '=HYPERLINK("http://x")', method: '@SUM(A1)' }
+    const line = rowsToCsv([{ ...row, tokenAddress: '+cmd', error: '-1' }]).trim().split('\n')[1]
+
+    expect(line).toContain(`"'=HYPERLINK(""http://x"")"`)
+    expect(line).toContain("'@SUM(A1)")
+    expect(line).toContain("'+cmd")
+    expect(line.endsWith(",'-1")).toBe(true)
+  })
+})
@@ -0,0 +1,160 @@
+import type { Hash } from "viem"
+import { client, getTokenCreatedLogs } from "./blockchain"
+import { getLaunchpadContracts } from "./contracts"
+import { TRANSFER_EVENT } from "./decoder"
+import { analyzeTransaction, type AnalyzeOptions, type TransactionAnalysis } from "./transaction-analyzer"
+
+// Run the Transaction Analyzer over many transactions and summarize them as rows that can be exported.
+
+const DEFAULT_CONCURRENCY = 4
+export const MAX_BLOCK_RANGE = BigInt(2048) // Widest range the analyzer will collect launchpad transactions from
+
+export interface BulkAnalysisRow {
+  hash: string
+  blockNumber: string | null
+  timestamp: string | null
+  from: string | null
+  to: string | null
+  method: string | null
+  status: "success" | "failed" | "error"
+  gasUsed: string | null
+  events: number
+  transfers: number
+  tokenAddress: string | null
+  tokenSymbol: string | null
+  error: string | null // Why the transaction couldn't be analyzed
+}
+
+export interface BulkAnalysisOptions extends AnalyzeOptions {
+  concurrency?: number
+  onProgress?: (done: number, total: number) => void
+}
+
+// Transaction hashes in pasted text or an uploaded file, in order and without duplicates
+export function parseTransactionHashes(text: string): Hash[] {
+  const matches = text.match(/0x[0-9a-fA-F]{64}/g) ?? []
+  return [...new Set(matches.map((hash) => hash.toLowerCase() as Hash))]
+}
+
+// Map items with at most `concurrency` calls in flight, keeping the input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return results
+}
+
+export function summarizeAnalysis(hash: string, analysis: TransactionAnalysis | null): BulkAnalysisRow {
+  if (!analysis) {
+    return {
+      hash,
+      blockNumber: null,
+      timestamp: null,
+      from: null,
+      to: null,
+      method: null,
+      status: "error",
+      gasUsed: null,
+      events: 0,
+      transfers: 0,
+      tokenAddress: null,
+      tokenSymbol: null,
+      error: "Transaction not found or could not be analyzed",
+    }
+  }
+
+  return {
+    hash: analysis.hash,
+    blockNumber: analysis.blockNumber.toString(),
+    timestamp: new Date(analysis.timestamp).toISOString(),
+    from: analysis.from,
+    to: analysis.to,
+    method: analysis.method.name,
+    status: analysis.status,
+    gasUsed: analysis.gasUsed.toString(),
+    events: analysis.events.length,
+    transfers: analysis.transfers?.length ?? 0,
+    tokenAddress: analysis.tokenCreated?.tokenAddress ?? null,
+    tokenSymbol: analysis.tokenCreated?.symbol || null,
+    error: null,
+  }
+}
+
+export async function analyzeTransactions(
+  hashes: string[],
+  options: BulkAnalysisOptions = {},
+): Promise<BulkAnalysisRow[]> {
+  let done = 0
+
+  return mapWithConcurrency(hashes, options.concurrency ?? DEFAULT_CONCURRENCY, async (hash) => {
+    const analysis = await analyzeTransaction(hash, { trace: options.trace })
+    options.onProgress?.(++done, hashes.length)
+    return summarizeAnalysis(hash, analysis)
+  })
+}
+
+// Transactions that touched a launchpad contract in a block range: launches, plus buys and sells seen as
+// token transfers out of and into the contract
+export async function getLaunchpadTransactionHashes(fromBlock: bigint, toBlock: bigint): Promise<Hash[]> {
+  if (toBlock < fromBlock) throw new Error("The block range ends before it starts")
+  if (toBlock - fromBlock >= MAX_BLOCK_RANGE) {
+    throw new Error(`Block ranges are limited to ${MAX_BLOCK_RANGE} blocks`)
+  }
+
+  const launchpads = getLaunchpadContracts().map((contract) => contract.address)
+  const [created, bought, sold] = await Promise.all([
+    getTokenCreatedLogs(fromBlock, toBlock),
+    client.getLogs({ event: TRANSFER_EVENT, args: { from: launchpads }, fromBlock, toBlock }),
+    client.getLogs({ event: TRANSFER_EVENT, args: { to: launchpads }, fromBlock, toBlock }),
+  ])
+
+  const logs = [...created, ...bought, ...sold].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1,
+  )
+  return [...new Set(logs.map((log) => log.transactionHash))]
+}
+
+const CSV_COLUMNS: (keyof BulkAnalysisRow)[] = [
+  "hash",
+  "blockNumber",
+  "timestamp",
+  "from",
+  "to",
+  "method",
+  "status",
+  "gasUsed",
+  "events",
+  "transfers",
+  "tokenAddress",
+  "tokenSymbol",
+  "error",
+]
+
+// Token symbols are chosen by whoever launched the token, so text that a spreadsheet would run as a
+// formula is prefixed with a quote. Numbers are ours and stay as they are.
+function csvField(value: string | number | null): string {
+  if (value === null) return ""
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function rowsToCsv(rows: BulkAnalysisRow[]): string {
+  const lines = rows.map((row) => CSV_COLUMNS.map((column) => csvField(row[column])).join(","))
+  return [CSV_COLUMNS.join(","), ...lines].join("\n") + "\n"
+}
+
+export function rowsToJson(rows: BulkAnalysisRow[]): string {
+  return JSON.stringify(rows, null, 2)
+}
@@ -0,0 +1,69 @@
+import { RpcRequestError } from 'viem'
+import { describe, it, expect } from 'vitest'
+import {
+  collectValueTransfers,
+  flattenCalls,
+  isTraceUnsupportedError,
+  normalizeCallFrame,
+  type CallFrame,
+} from './call-trace'
+
+const USER = '0x1111111111111111111111111111111111111111'
+const ROUTER = '0x2222222222222222222222222222222222222222'
+const LAUNCHPAD = '0x3333333333333333333333333333333333333333'
+const FEES = '0x4444444444444444444444444444444444444444'
+
+// A router that forwards a launch and pays a fee, with a refund attempt that reverts
+const frame: CallFrame = {
+  type: 'CALL',
+  from: USER,
+  to: ROUTER,
+  value: '0xde0b6b3a7640000',
+  gasUsed: '0x5208',
+  input: '0x12345678',
+  calls: [
+    { type: 'CALL', from: ROUTER, to: LAUNCHPAD, value: '0x6f05b59d3b20000', input: '0xa6f2ae3a' },
+    { type: 'CALL', from: ROUTER, to: FEES, value: '0x6f05b59d3b20000', input: '0x' },
+    {
+      type: 'CALL',
+      from: ROUTER,
+      to: USER,
+      value: '0x1',
+      input: '0x',
+      error: 'execution reverted',
+      revertReason: 'refund failed',
+      calls: [{ type: 'CALL', from: USER, to: FEES, value: '0x1', input: '0x' }],
+    },
+  ],
+}
+
+describe('call traces', () => {
+  it('normalizes frames with decimal values, methods and depth', () => {
+    const root = normalizeCallFrame(frame)
+
+    expect(root).toMatchObject({ value: '1000000000000000000', gasUsed: '21000', depth: 0, reverted: false })
+    expect(root.calls[0]).toMatchObject({ depth: 1, method: 'buy()', methodId: '0xa6f2ae3a' })
+    expect(root.calls[1].methodId).toBeNull()
+    expect(root.calls[2]).toMatchObject({ error: 'execution reverted: refund failed', reverted: true })
+    expect(root.calls[2].calls[0]).toMatchObject({ error: null, reverted: true, depth: 2 })
+    expect(flattenCalls(root)).toHaveLength(5)
+  })
+
+  it('only counts value transfers that were not rolled back', () => {
+    const transfers = collectValueTransfers(normalizeCallFrame(frame))
+
+    expect(transfers.map((transfer) => transfer.to)).toEqual([ROUTER, LAUNCHPAD, FEES])
+    expect(transfers[1].value).toBe('500000000000000000')
+  })
+
+  it('only treats missing debug methods as unsupported', () => {
+    const rpcError = (code: number, message: string) =>
+      new RpcRequestError({ body: {}, error: { code, message }, url: 'https://node.example' })
+
+    expect(isTraceUnsupportedError(rpcError(-32601, 'the method debug_traceTransaction does not exist'))).toBe(true)
+    expect(isTraceUnsupportedError(rpcError(-32000, 'the method debug_traceTransaction is not available'))).toBe(true)
+    expect(isTraceUnsupportedError(rpcError(-32000, 'execution timeout'))).toBe(false)
+    expect(isTraceUnsupportedError(rpcError(-32005, 'rate limit exceeded'))).toBe(false)
+    expect(isTraceUnsupportedError(new Error('fetch failed'))).toBe(false)
+  })
+})
@@ -0,0 +1,127 @@
+import { BaseError, type Hash } from "viem"
+import { rpcClient as client } from "./rpc-provider"
+import { lookupMethod } from "./method-registry"
+
+// Internal calls of a transaction from the node's callTracer (debug_traceTransaction). Only archive or debug
+// enabled nodes serve it, so callers get `supported: false` instead of an error everywhere else. Other
+// failures (timeouts, rate limits, a transaction the node hasn't seen yet) are thrown, since a retry may work.
+
+// JSON-RPC codes for "method not found" and "method not supported"
+const UNSUPPORTED_CODES = [-32601, -32004]
+
+// One frame as returned by the callTracer
+export interface CallFrame {
+  type: string
+  from: string
+  to?: string
+  value?: string
+  gas?: string
+  gasUsed?: string
+  input: string
+  output?: string
+  error?: string
+  revertReason?: string
+  calls?: CallFrame[]
+}
+
+export interface TraceCall {
+  type: string // CALL, DELEGATECALL, STATICCALL, CREATE, ...
+  from: string
+  to: string | null
+  value: string // Wei
+  methodId: string | null
+  method: string | null // Signature from the selector registry, when known
+  input: string
+  gasUsed: string
+  error: string | null // Why this frame reverted
+  reverted: boolean // Reverted itself or inside a reverted parent, so none of its effects stuck
+  depth: number
+  calls: TraceCall[]
+}
+
+export interface ValueTransfer {
+  from: string
+  to: string
+  value: string
+  type: string
+  depth: number
+}
+
+export interface CallTrace {
+  supported: boolean
+  root?: TraceCall
+  valueTransfers: ValueTransfer[]
+  revertedCalls: number
+  error?: string
+}
+
+// Trace frames report quantities as hex
+function hexToDecimal(value: string | undefined): string {
+  return value ? BigInt(value).toString() : "0"
+}
+
+export function normalizeCallFrame(frame: CallFrame, depth = 0, parentReverted = false): TraceCall {
+  const reverted = parentReverted || frame.error !== undefined
+  const methodId = frame.input && frame.input.length >= 10 ? frame.input.slice(0, 10).toLowerCase() : null
+
+  return {
+    type: frame.type,
+    from: frame.from,
+    to: frame.to ?? null,
+    value: hexToDecimal(frame.value),
+    methodId,
+    method: methodId ? (lookupMethod(methodId)?.signature ?? null) : null,
+    input: frame.input,
+    gasUsed: hexToDecimal(frame.gasUsed),
+    error: frame.error ? (frame.revertReason ? `${frame.error}: ${frame.revertReason}` : frame.error) : null,
+    reverted,
+    depth,
+    calls: (frame.calls ?? []).map((call) => normalizeCallFrame(call, depth + 1, reverted)),
+  }
+}
+
+// Every call in the tree, depth first in execution order
+export function flattenCalls(root: TraceCall): TraceCall[] {
+  return [root, ...root.calls.flatMap(flattenCalls)]
+}
+
+// AVAX that actually moved: calls with value that didn't revert
+export function collectValueTransfers(root: TraceCall): ValueTransfer[] {
+  return flattenCalls(root)
+    .filter((call) => !call.reverted && call.to !== null && BigInt(call.value) > 0n)
+    .map((call) => ({ from: call.from, to: call.to!, value: call.value, type: call.type, depth: call.depth }))
+}
+
+// Whether an error means the node doesn't serve debug_traceTransaction at all. Some nodes answer with a
+// generic code, so the message counts too.
+export function isTraceUnsupportedError(error: unknown): boolean {
+  if (error instanceof BaseError) {
+    const unsupported = error.walk((cause) => UNSUPPORTED_CODES.includes((cause as { code?: number }).code ?? 0))
+    if (unsupported) return true
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  return /method .*(not found|not supported|not available|does not exist)/i.test(message)
+}
+
+export async function traceTransaction(hash: Hash): Promise<CallTrace> {
+  try {
+    // debug_* methods aren't in viem's public RPC schema
+    const request = client.request as unknown as (args: { method: string; params: unknown[] }) => Promise<CallFrame>
+    const frame = await request({ method: "debug_traceTransaction", params: [hash, { tracer: "callTracer" }] })
+
+    const root = normalizeCallFrame(frame)
+    return {
+      supported: true,
+      root,
+      valueTransfers: collectValueTransfers(root),
+      revertedCalls: flattenCalls(root).filter((call) => call.error !== null).length,
+    }
+  } catch (error) {
+    if (!isTraceUnsupportedError(error)) throw error
+
+    const message = error instanceof Error ? error.message.split("\n")[0] : String(error)
+    console.warn(`⚠️ Could not trace ${hash}, the node doesn't support debug_traceTransaction:`, message)
+    return { supported: false, valueTransfers: [], revertedCalls: 0, error: message }
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { getChainId, getExplorerName, getExplorerUrl, getWavaxAddress, resolveChainProfile } from './chains'
+
+describe('chain profiles', () => {
+  it('resolves mainnet, Fuji and the local dev chain', () => {
+    expect(resolveChainProfile(undefined).chain.id).toBe(43114)
+    expect(resolveChainProfile('fuji').chain.id).toBe(43113)
+    expect(resolveChainProfile(' Local ')).toMatchObject({ id: 'local', explorerUrl: null })
+    expect(resolveChainProfile('local').chain.id).toBe(31337)
+  })
+
+  it('knows WAVAX on each chain', () => {
+    expect(getWavaxAddress()).toBe('0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7')
+    expect(resolveChainProfile('fuji').wavaxAddress).toBe('0xd00ae08403B9bbb9124bB305C09058E32C39A48c')
+  })
+
+  it('falls back to mainnet for unknown names', () => {
+    expect(resolveChainProfile('goerli').id).toBe('mainnet')
+  })
+
+  it('links the active chain explorer', () => {
+    expect(getChainId()).toBe(43114)
+    expect(getExplorerUrl('tx', '0xabc')).toBe('https://snowtrace.io/tx/0xabc')
+    expect(getExplorerName()).toBe('Snowtrace')
+    expect(resolveChainProfile('local').explorerName).toBeNull()
+  })
+})
@@ -0,0 +1,86 @@
+import type { Address } from "viem"
+import { anvil, avalanche, avalancheFuji, type Chain } from "viem/chains"
+
+// Chain the app indexes, picked with NEXT_PUBLIC_CHAIN. Mainnet is the default; Fuji and a local dev node
+// (anvil at localhost) let the whole pipeline run against a mock launch contract without touching mainnet.
+
+export type ChainProfileId = "mainnet" | "fuji" | "local"
+
+export interface ChainProfile {
+  id: ChainProfileId
+  label: string
+  chain: Chain
+  rpcUrls: string[] // Used when NEXT_PUBLIC_AVALANCHE_RPC_URLS is not set
+  explorerUrl: string | null // Local chains have no block explorer
+  explorerName: string | null // Shown on explorer links
+  wavaxAddress: Address // Wrapped AVAX, the quote token of graduated launches' pairs
+}
+
+const CHAIN_PROFILES: Record<ChainProfileId, ChainProfile> = {
+  mainnet: {
+    id: "mainnet",
+    label: "Avalanche C-Chain",
+    chain: avalanche,
+    rpcUrls: ["https://api.avax.network/ext/bc/C/rpc", "https://avalanche-c-chain-rpc.publicnode.com"],
+    explorerUrl: "https://snowtrace.io",
+    explorerName: "Snowtrace",
+    wavaxAddress: "0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7",
+  },
+  fuji: {
+    id: "fuji",
+    label: "Avalanche Fuji",
+    chain: avalancheFuji,
+    rpcUrls: ["https://api.avax-test.network/ext/bc/C/rpc", "https://avalanche-fuji-c-chain-rpc.publicnode.com"],
+    explorerUrl: "https://testnet.snowtrace.io",
+    explorerName: "Snowtrace Testnet",
+    wavaxAddress: "0xd00ae08403B9bbb9124bB305C09058E32C39A48c",
+  },
+  local: {
+    id: "local",
+    label: "Local dev chain",
+    // Multicall3 is there when anvil forks Avalanche; on an empty chain metadata reads just fail
+    chain: { ...anvil, contracts: { multicall3: avalanche.contracts.multicall3 } },
+    rpcUrls: ["http://127.0.0.1:8545"],
+    explorerUrl: null,
+    explorerName: null,
+    // Only deployed when anvil forks Avalanche, like Multicall3
+    wavaxAddress: "0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7",
+  },
+}
+
+// Profile for a NEXT_PUBLIC_CHAIN value, falling back to mainnet for anything unknown
+export function resolveChainProfile(name: string | undefined): ChainProfile {
+  if (!name) return CHAIN_PROFILES.mainnet
+
+  const profile = CHAIN_PROFILES[name.trim().toLowerCase() as ChainProfileId]
+  if (!profile) {
+    console.warn(`⚠️ Unknown NEXT_PUBLIC_CHAIN "${name}", using Avalanche mainnet`)
+    return CHAIN_PROFILES.mainnet
+  }
+
+  return profile
+}
+
+const activeProfile = resolveChainProfile(process.env.NEXT_PUBLIC_CHAIN)
+
+export function getChainProfile(): ChainProfile {
+  return activeProfile
+}
+
+// Chain id stored on every indexed row and cursor
+export function getChainId(): number {
+  return activeProfile.chain.id
+}
+
+export function getWavaxAddress(): Address {
+  return activeProfile.wavaxAddress
+}
+
+export function getExplorerName(): string | null {
+  return activeProfile.explorerName
+}
+
+// Block explorer link for a transaction or address, or null on chains without an explorer
+export function getExplorerUrl(kind: "tx" | "address", value: string): string | null {
+  return activeProfile.explorerUrl ? `${activeProfile.explorerUrl}/${kind}/${value}` : null
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { encodeAbiParameters, encodeEventTopics, parseAbiItem, type Log } from 'viem'
+import { ARENA_CONTRACT_ADDRESS, decodeLaunchLog, parseLaunchpadConfig } from './contracts'
+import { extractLaunchParams, TOKEN_CREATED_EVENT, TRANSFER_EVENT } from './decoder'
+import { encodeTokenCreatedData, mockAddress } from './dev-chain'
+
+const OTHER = '0x1111111111111111111111111111111111111111'
+
+describe('parseLaunchpadConfig', () => {
+  it('uses the Arena contract when nothing is configured', () => {
+    const [contract, ...rest] = parseLaunchpadConfig(undefined)
+    expect(rest).toHaveLength(0)
+    expect(contract).toMatchObject({ id: 'arena-v1', label: 'Arena', kind: 'arena', address: ARENA_CONTRACT_ADDRESS })
+  })
+
+  it('reads a configured list with labels and start blocks', () => {
+    const contracts = parseLaunchpadConfig(
+      JSON.stringify([
+        { id: 'arena-v1', label: 'Arena', address: ARENA_CONTRACT_ADDRESS, startBlock: 100 },
+        { id: 'fork', label: 'Fork', kind: 'arena', address: OTHER, startBlock: '250' },
+      ]),
+    )
+
+    expect(contracts.map((contract) => contract.id)).toEqual(['arena-v1', 'fork'])
+    expect(contracts[1].address).toBe('0x1111111111111111111111111111111111111111')
+    expect(contracts[1].startBlock).toBe(BigInt(250))
+    expect(contracts[0].creationEvent).toBe(contracts[1].creationEvent)
+  })
+
+  it('skips invalid and duplicate entries', () => {
+    const contracts = parseLaunchpadConfig(
+      JSON.stringify([
+        { id: 'bad-address', address: '0x1234' },
+        { id: 'bad-kind', kind: 'pump', address: OTHER },
+        { id: 'first', address: OTHER },
+        { id: 'duplicate', address: OTHER.toUpperCase().replace('0X', '0x') },
+      ]),
+    )
+
+    expect(contracts).toHaveLength(1)
+    expect(contracts[0]).toMatchObject({ id: 'first', label: 'first', startBlock: null })
+  })
+
+  it('falls back to the Arena contract when the config is unusable', () => {
+    expect(parseLaunchpadConfig('not json')[0].address).toBe(ARENA_CONTRACT_ADDRESS)
+    expect(parseLaunchpadConfig('{"address":"0x1111111111111111111111111111111111111111"}')[0].id).toBe('arena-v1')
+    expect(parseLaunchpadConfig('[{"address":"nope"}]')[0].id).toBe('arena-v1')
+  })
+})
+
+describe('launchpad kinds', () => {
+  const [contract] = parseLaunchpadConfig(undefined)
+  const launch = {
+    tokenId: BigInt(7),
+    tokenAddress: mockAddress('kind-token'),
+    creator: mockAddress('kind-creator'),
+    pairAddress: mockAddress('kind-pair'),
+    totalSupply: BigInt(1000),
+  }
+  const log = (topics: Log['topics'], data: Log['data']) =>
+    ({ address: ARENA_CONTRACT_ADDRESS, topics, data, blockNumber: BigInt(1), logIndex: 0 }) as unknown as Log
+
+  it('decodes its own launch event', () => {
+    const topics = encodeEventTopics({ abi: [TOKEN_CREATED_EVENT], eventName: 'TokenCreated' }) as Log['topics']
+    const decoded = contract.decodeCreation(log(topics, encodeTokenCreatedData(launch)))
+
+    expect(decoded?.args.params?.tokenContractAddress).toBe(launch.tokenAddress)
+    expect(decoded?.args.tokenSupply).toBe(BigInt(1000))
+    expect(decoded?.blockNumber).toBe(BigInt(1))
+  })
+
+  it('rejects other events', () => {
+    const topics = encodeEventTopics({ abi: [TRANSFER_EVENT], eventName: 'Transfer' }) as Log['topics']
+    expect(contract.decodeCreation(log(topics, '0x'))).toBeNull()
+  })
+})
+
+describe('generic launchpads', () => {
+  const signature = 'event Launched(address indexed token, address indexed owner, uint256 supply)'
+  const entry = {
+    id: 'other',
+    kind: 'generic',
+    address: OTHER,
+    creationEvent: signature,
+    fields: { token: 'token', creator: 'owner', supply: 'supply' },
+  }
+  const token = mockAddress('generic-token')
+  const owner = mockAddress('generic-owner')
+  const topics = encodeEventTopics({
+    abi: [parseAbiItem(signature)],
+    eventName: 'Launched',
+    args: { token, owner },
+  }) as Log['topics']
+  const data = encodeAbiParameters([{ type: 'uint256' }], [BigInt(500)])
+  const log = { address: OTHER, topics, data } as unknown as Log
+
+  it('reads the launch event named in the config', () => {
+    const [contract] = parseLaunchpadConfig(JSON.stringify([entry]))
+    const decoded = contract.decodeCreation(log)
+
+    expect(contract).toMatchObject({ id: 'other', kind: 'generic' })
+    expect(decoded?.args.params).toMatchObject({ tokenContractAddress: token, creatorAddress: owner })
+    expect(decoded?.args.tokenSupply).toBe(BigInt(500))
+    // The event has no curve params, so none are reported
+    expect(extractLaunchParams(decoded!)).toBeUndefined()
+  })
+
+  it('skips entries without an event or the token and creator inputs', () => {
+    const contracts = parseLaunchpadConfig(
+      JSON.stringify([
+        { ...entry, creationEvent: undefined },
+        { ...entry, creationEvent: 'function launch(address token)' },
+        { ...entry, fields: { token: 'token' } },
+      ]),
+    )
+    expect(contracts.map((contract) => contract.id)).toEqual(['arena-v1'])
+  })
+
+  it('only decodes launches of configured contracts', () => {
+    // Only the Arena contract is configured in tests
+    expect(decodeLaunchLog(log)).toBeNull()
+  })
+})
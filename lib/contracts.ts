@@ -0,0 +1,171 @@
+import { getAddress, parseAbiItem, type Abi, type AbiEvent, type Address, type Log } from "viem"
+import { ARENA_CONTRACT_ABI } from "./contract-abi"
+import {
+  createLaunchEventDecoder,
+  decodeTokenCreatedLog,
+  TOKEN_CREATED_EVENT,
+  type LaunchEventFields,
+  type TokenCreatedLog,
+} from "./decoder"
+import { registerAbi } from "./method-registry"
+import { getChainProfile } from "./chains"
+
+// Launchpad contracts the monitor, backfill and indexers watch. Each entry picks a kind from the registry
+// below, which brings the ABI, the launch event to ask the node for and the decoder that reads it; the
+// default is the Arena launch contract alone.
+//
+// Other contracts are configured with NEXT_PUBLIC_LAUNCHPAD_CONTRACTS, a JSON array such as
+// [{"id":"arena-v1","label":"Arena","kind":"arena","address":"0x8315…","startBlock":12345}]
+// A launchpad with another launch event uses the generic kind, which takes the event signature and the names
+// of its inputs from the entry:
+// {"kind":"generic","address":"0x…","creationEvent":"event Launched(address indexed token, address creator)",
+//  "fields":{"token":"token","creator":"creator"}}
+// `fields` may also name the `pair`, `supply` and `tokenId` inputs. Generic launches have no curve params.
+
+// Arena Launch Contract address
+export const ARENA_CONTRACT_ADDRESS = "0x8315f1eb449Dd4B779495C3A0b05e5d194446c6e" as const
+
+export type LaunchpadKind = "arena" | "generic"
+
+interface LaunchpadProfile {
+  abi: Abi
+  creationEvent: AbiEvent // Launch event of this kind of contract, used to filter logs
+  // Reads one of its launch logs into the TokenCreated shape the indexers work with (token, creator, pair,
+  // curve params and supply), or null when the log can't be read
+  decodeCreation: (log: Log) => TokenCreatedLog | null
+}
+
+const ARENA_PROFILE: LaunchpadProfile = {
+  abi: ARENA_CONTRACT_ABI as Abi,
+  creationEvent: TOKEN_CREATED_EVENT,
+  decodeCreation: decodeTokenCreatedLog,
+}
+
+// The profile a config entry gets for each kind, or null when the entry doesn't describe one
+const LAUNCHPAD_PROFILES: Record<LaunchpadKind, (entry: LaunchpadConfigEntry) => LaunchpadProfile | null> = {
+  arena: () => ARENA_PROFILE,
+  generic: (entry) => {
+    if (!entry.creationEvent || !entry.fields?.token || !entry.fields.creator) return null
+
+    try {
+      const event = parseAbiItem(entry.creationEvent)
+      if (event.type !== "event") return null
+      const fields = entry.fields as LaunchEventFields
+      return { abi: [event], creationEvent: event, decodeCreation: createLaunchEventDecoder(event, fields) }
+    } catch {
+      return null
+    }
+  },
+}
+
+export interface LaunchpadContract extends LaunchpadProfile {
+  id: string
+  label: string
+  kind: LaunchpadKind
+  address: Address
+  startBlock: bigint | null // Deployment block, looked up on-chain by the backfill when unknown
+}
+
+interface LaunchpadConfigEntry {
+  id?: string
+  label?: string
+  kind?: string
+  address?: string
+  startBlock?: number | string
+  creationEvent?: string // Generic kind: human-readable signature of the launch event
+  fields?: Partial<LaunchEventFields> // Generic kind: which event inputs hold the launch's fields
+}
+
+const DEFAULT_CONTRACTS: LaunchpadConfigEntry[] = [
+  {
+    id: "arena-v1",
+    label: "Arena",
+    kind: "arena",
+    address: ARENA_CONTRACT_ADDRESS,
+    startBlock: process.env.ARENA_CONTRACT_START_BLOCK,
+  },
+]
+
+// Parse the configured contracts. Invalid entries are skipped with a warning, and the Arena contract is
+// used when nothing valid is left.
+export function parseLaunchpadConfig(json: string | undefined): LaunchpadContract[] {
+  let entries: LaunchpadConfigEntry[] = DEFAULT_CONTRACTS
+
+  if (json) {
+    try {
+      const parsed = JSON.parse(json)
+      if (Array.isArray(parsed)) entries = parsed
+      else console.warn("⚠️ NEXT_PUBLIC_LAUNCHPAD_CONTRACTS is not a JSON array, using the Arena contract")
+    } catch (error) {
+      console.warn("⚠️ Could not parse NEXT_PUBLIC_LAUNCHPAD_CONTRACTS, using the Arena contract:", error)
+    }
+  }
+
+  const contracts: LaunchpadContract[] = []
+  for (const entry of entries) {
+    const kind = (entry.kind ?? "arena") as LaunchpadKind
+    const profile = Object.hasOwn(LAUNCHPAD_PROFILES, kind) ? LAUNCHPAD_PROFILES[kind](entry) : null
+    if (!profile || !entry.address || !/^0x[0-9a-fA-F]{40}$/.test(entry.address)) {
+      console.warn(`⚠️ Skipping invalid launchpad contract entry:`, entry)
+      continue
+    }
+
+    const address = getAddress(entry.address)
+    if (contracts.some((contract) => contract.address === address)) continue
+
+    contracts.push({
+      ...profile,
+      id: entry.id || address.toLowerCase(),
+      label: entry.label || entry.id || `${address.slice(0, 6)}...${address.slice(-4)}`,
+      kind,
+      address,
+      startBlock: entry.startBlock !== undefined && entry.startBlock !== "" ? BigInt(entry.startBlock) : null,
+    })
+  }
+
+  return contracts.length > 0 ? contracts : parseLaunchpadConfig(undefined)
+}
+
+const contracts = parseLaunchpadConfig(process.env.NEXT_PUBLIC_LAUNCHPAD_CONTRACTS)
+
+// The Arena contract only exists on mainnet; other chains index whatever was deployed there
+if (getChainProfile().id !== "mainnet" && !process.env.NEXT_PUBLIC_LAUNCHPAD_CONTRACTS) {
+  console.warn(`⚠️ NEXT_PUBLIC_LAUNCHPAD_CONTRACTS is not set for ${getChainProfile().label}`)
+}
+
+// Calls to every configured contract are classified from its ABI
+for (const contract of contracts) registerAbi(contract.abi)
+
+export function getLaunchpadContracts(): LaunchpadContract[] {
+  return contracts
+}
+
+// The live monitor's cursor is stored under the first configured contract
+export function getPrimaryContract(): LaunchpadContract {
+  return contracts[0]
+}
+
+export function getLaunchpadContract(address: string | null | undefined): LaunchpadContract | undefined {
+  if (!address) return undefined
+  return contracts.find((contract) => contract.address.toLowerCase() === address.toLowerCase())
+}
+
+export function getLaunchpadContractById(id: string): LaunchpadContract | undefined {
+  return contracts.find((contract) => contract.id === id)
+}
+
+// Read a receipt log as a launch with the decoder of the launchpad that emitted it, or null when it isn't a
+// launch of a configured launchpad
+export function decodeLaunchLog(log: Log): TokenCreatedLog | null {
+  return getLaunchpadContract(log.address)?.decodeCreation(log) ?? null
+}
+
+export function isLaunchpadContract(address: string | null | undefined): boolean {
+  return getLaunchpadContract(address) !== undefined
+}
+
+// Display label of a launchpad, or the shortened address for contracts that are no longer configured
+export function getContractLabel(address: string | null | undefined): string {
+  if (!address) return "Unknown"
+  return getLaunchpadContract(address)?.label ?? `${address.slice(0, 6)}...${address.slice(-4)}`
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { computeCreatorFees, rankCreatorsByFees, sumWei } from './creator-fees'
+
+const WEI = BigInt(10 ** 18)
+const CREATOR = '0x2222222222222222222222222222222222222222'
+const BUYER = '0x6666666666666666666666666666666666666666'
+
+// price(x) = (2x² + 3x) / 1000 AVAX per token, 1% creator fee
+const params = { curveScaler: '1000', a: 2, b: 3, salePercentage: 70, lpPercentage: 20, creatorFeeBasisPoints: 100 }
+
+const trade = (
+  trader: string,
+  side: 'BUY' | 'SELL',
+  tokens: number,
+  block: number,
+  logIndex = 0,
+  avaxAmount: string | null = null,
+) => ({
+  trader_address: trader,
+  side,
+  avax_amount: avaxAmount,
+  token_amount: (BigInt(tokens) * WEI).toString(),
+  block_number: block,
+  log_index: logIndex,
+})
+
+describe('computeCreatorFees', () => {
+  it('takes the fee from the curve value of each trade', () => {
+    const totals = computeCreatorFees(params, CREATOR, [trade(BUYER, 'BUY', 10, 1)])
+
+    // Buying the first 10 tokens costs 0.816666… AVAX
+    expect(totals.volume).toBe('816666666666666666')
+    expect(totals.feesEarned).toBe('8166666666666666')
+    expect(totals.trades).toBe(1)
+    expect(totals.complete).toBe(true)
+  })
+
+  it('takes the recorded AVAX amount over the curve price', () => {
+    const totals = computeCreatorFees(params, CREATOR, [
+      trade(BUYER, 'BUY', 10, 1, 0, '900000000000000000'),
+      trade(BUYER, 'BUY', 10, 2),
+    ])
+
+    // 0.9 AVAX paid, then tokens 10 to 20 on the curve: 5.116666… AVAX
+    expect(totals.volume).toBe('6016666666666666666')
+  })
+
+  it('flags trades that sell more than the stored history bought', () => {
+    const totals = computeCreatorFees(params, CREATOR, [trade(BUYER, 'BUY', 10, 2), trade(BUYER, 'SELL', 15, 3)])
+
+    expect(totals.complete).toBe(false)
+  })
+
+  it('prices sells on the curve as well', () => {
+    const totals = computeCreatorFees(params, CREATOR, [trade(BUYER, 'BUY', 10, 1), trade(BUYER, 'SELL', 10, 2)])
+
+    expect(totals.volume).toBe('1633333333333333332')
+    expect(totals.trades).toBe(2)
+  })
+
+  it("moves the curve with the creator's own trades without paying fees on them", () => {
+    const totals = computeCreatorFees(params, CREATOR, [
+      trade(BUYER, 'BUY', 10, 2),
+      trade(CREATOR.toUpperCase().replace('0X', '0x'), 'BUY', 10, 1),
+    ])
+
+    // The buyer pays for tokens 10 to 20: 5.116666… AVAX
+    expect(totals.volume).toBe('5116666666666666666')
+    expect(totals.trades).toBe(1)
+  })
+
+  it('replays trades in block and log order', () => {
+    const inOrder = computeCreatorFees(params, CREATOR, [trade(BUYER, 'BUY', 10, 1, 0), trade(BUYER, 'SELL', 5, 1, 1)])
+    const shuffled = computeCreatorFees(params, CREATOR, [trade(BUYER, 'SELL', 5, 1, 1), trade(BUYER, 'BUY', 10, 1, 0)])
+
+    expect(shuffled).toEqual(inOrder)
+  })
+
+  it('earns nothing without a creator fee', () => {
+    const totals = computeCreatorFees({ ...params, creatorFeeBasisPoints: 0 }, CREATOR, [trade(BUYER, 'BUY', 10, 1)])
+
+    expect(totals.feesEarned).toBe('0')
+  })
+})
+
+describe('sumWei', () => {
+  it('adds wei amounts without losing precision', () => {
+    expect(sumWei(['900000000000000000001', null, '99999999999999999999'])).toBe('1000000000000000000000')
+  })
+})
+
+describe('rankCreatorsByFees', () => {
+  it('orders creators by fees earned and leaves out those without any', () => {
+    const creators = [
+      { wallet_address: 'a', fees_earned: '5' },
+      { wallet_address: 'b', fees_earned: '0' },
+      { wallet_address: 'c', fees_earned: '100000000000000000000' },
+      { wallet_address: 'd', fees_earned: null },
+    ]
+
+    expect(rankCreatorsByFees(creators).map((creator) => creator.wallet_address)).toEqual(['c', 'a'])
+    expect(rankCreatorsByFees(creators, 1)).toHaveLength(1)
+  })
+})
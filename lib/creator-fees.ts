@@ -0,0 +1,181 @@
+import { getBuyCost, getSellProceeds, type CurveParams } from "./bonding-curve"
+import type { TokenLaunchParams } from "./blockchain"
+import {
+  getCreatorTokenFees,
+  getTokensByAddress,
+  getTradedTokensInRange,
+  getTradesForToken,
+  saveTokenCreatorFees,
+  tokenRowToLaunchParams,
+  type TradeRow,
+} from "./database"
+import { getChainId } from "./chains"
+import { supabase } from "./supabase"
+
+// What creators earn from their launches: every curve trade pays the creator `creatorFeeBasisPoints` of its
+// value. Trades take the AVAX amount recorded by the trade indexer where there is one; the rest are priced on
+// the bonding curve by replaying the launch's trades from zero sold supply, which only holds when the stored
+// trades go back to the launch. Totals are recomputed from all stored trades of a launch, so running the
+// indexer over a range again doesn't count anything twice.
+
+export type FeeParams = CurveParams & Pick<TokenLaunchParams, "creatorFeeBasisPoints">
+
+export interface CreatorFeeTotals {
+  feeBasisPoints: number
+  volume: string // Value of the trades the fee was taken from (wei)
+  feesEarned: string // Wei
+  trades: number
+  complete: boolean // False when a sell takes more than the stored trades sold, so earlier trades are missing
+}
+
+type FeeTrade = Pick<
+  TradeRow,
+  "side" | "trader_address" | "avax_amount" | "token_amount" | "block_number" | "log_index"
+>
+
+// Fees on a launch's curve trades. The creator's own trades move the curve but pay the creator nothing.
+export function computeCreatorFees(params: FeeParams, creatorAddress: string, trades: FeeTrade[]): CreatorFeeTotals {
+  const ordered = [...trades].sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index)
+
+  let soldSupply = 0n
+  let volume = 0n
+  let counted = 0
+  let complete = true
+
+  for (const trade of ordered) {
+    const amount = BigInt(trade.token_amount)
+    const isCreator = trade.trader_address.toLowerCase() === creatorAddress.toLowerCase()
+
+    if (!isCreator) {
+      if (trade.avax_amount !== null) volume += BigInt(trade.avax_amount)
+      else if (trade.side === "BUY") volume += getBuyCost(params, soldSupply, amount)
+      else volume += getSellProceeds(params, soldSupply, amount)
+      counted++
+    }
+
+    if (trade.side === "BUY") {
+      soldSupply += amount
+    } else if (amount > soldSupply) {
+      complete = false
+      soldSupply = 0n
+    } else {
+      soldSupply -= amount
+    }
+  }
+
+  return {
+    feeBasisPoints: params.creatorFeeBasisPoints,
+    volume: volume.toString(),
+    feesEarned: ((volume * BigInt(params.creatorFeeBasisPoints)) / 10000n).toString(),
+    trades: counted,
+    complete,
+  }
+}
+
+export function sumWei(values: (string | null | undefined)[]): string {
+  return values.reduce((sum, value) => sum + BigInt(value || 0), 0n).toString()
+}
+
+// Creators ordered by fees earned, for the leaderboard
+export function rankCreatorsByFees<T extends { fees_earned?: string | null }>(creators: T[], limit = 10): T[] {
+  return creators
+    .filter((creator) => BigInt(creator.fees_earned || 0) > 0n)
+    .sort((a, b) => {
+      const difference = BigInt(b.fees_earned || 0) - BigInt(a.fees_earned || 0)
+      return difference > 0n ? 1 : difference < 0n ? -1 : 0
+    })
+    .slice(0, limit)
+}
+
+// Recompute the creator's running total from the fees stored on its launches
+export async function updateCreatorFees(creatorAddress: string): Promise<string | null> {
+  try {
+    const tokenFees = await getCreatorTokenFees(creatorAddress)
+    if (!tokenFees) return null
+
+    const total = sumWei(tokenFees)
+    const { error } = await supabase
+      .from("creators")
+      .update({ fees_earned: total })
+      .eq("chain_id", getChainId())
+      .ilike("wallet_address", creatorAddress)
+
+    if (error) {
+      console.error("❌ Error updating creator fees:", error)
+      return null
+    }
+
+    return total
+  } catch (error) {
+    console.error("❌ Error in updateCreatorFees:", error)
+    return null
+  }
+}
+
+// Recompute the fees of a set of launches from their stored trades, then the totals of their creators. Throws
+// when launches or trades can't be read or fees can't be saved.
+export async function updateTokenCreatorFees(tokenAddresses: string[]): Promise<number> {
+  if (tokenAddresses.length === 0) return 0
+
+  const creators = new Set<string>()
+  let updated = 0
+
+  const tokens = await getTokensByAddress(tokenAddresses)
+  if (!tokens) throw new Error(`Failed to read ${tokenAddresses.length} launches`)
+
+  for (const token of tokens) {
+    // Launches without stored params (seen before the params were indexed) have no known fee
+    const params = tokenRowToLaunchParams(token)
+    if (!params) continue
+
+    const trades = await getTradesForToken(token.address)
+    if (!trades) throw new Error(`Failed to read trades of ${token.address}`)
+
+    // Without the launch's early trades both the curve replay and the total are off, so such launches are
+    // left out of the creator's total instead
+    const totals = computeCreatorFees(params, token.creator_address, trades)
+    if (!totals.complete) {
+      console.warn(`⚠️ Stored trades of ${token.address} don't reach back to its launch, leaving its fees out`)
+    }
+    const fees = totals.complete ? totals : { feesEarned: null, volume: null }
+    if (!(await saveTokenCreatorFees(token.address, fees))) {
+      throw new Error(`Failed to save creator fees of ${token.address}`)
+    }
+
+    creators.add(token.creator_address.toLowerCase())
+    updated++
+  }
+
+  for (const creator of creators) {
+    await updateCreatorFees(creator)
+  }
+
+  return updated
+}
+
+// Recompute the fees of every launch traded in a block range. Runs after the trade indexer, since it reads
+// the trades it stored, and throws on failure so callers can retry the range.
+export async function indexCreatorFeesInRange(fromBlock: bigint, toBlock: bigint): Promise<number> {
+  const tokenAddresses = await getTradedTokensInRange(fromBlock, toBlock)
+  if (!tokenAddresses) throw new Error(`Failed to read traded tokens for blocks ${fromBlock}-${toBlock}`)
+
+  const updated = await updateTokenCreatorFees(tokenAddresses)
+  if (updated > 0) console.log(`💸 Updated creator fees of ${updated} launch(es) in blocks ${fromBlock}-${toBlock}`)
+  return updated
+}
+
+// Launches traded above a block, read before a rollback deletes their trades so their fees can be
+// recomputed after it
+export async function getCreatorFeesToRollback(blockNumber: bigint, latestBlock: bigint): Promise<string[]> {
+  if (latestBlock <= blockNumber) return []
+  return (await getTradedTokensInRange(blockNumber + 1n, latestBlock)) ?? []
+}
+
+export async function rollbackCreatorFees(tokenAddresses: string[]): Promise<void> {
+  try {
+    const updated = await updateTokenCreatorFees(tokenAddresses)
+    if (updated > 0) console.log(`⏪ Recomputed creator fees of ${updated} launch(es) after the rollback`)
+  } catch (error) {
+    console.error("❌ Error recomputing creator fees after the rollback:", error)
+  }
+}
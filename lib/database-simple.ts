@@ -1,16 +1,31 @@
 import { supabase } from "./supabase"
 import type { ContractTransaction } from "./blockchain"
+import { ARENA_CONTRACT_ADDRESS } from "./contracts"
 import { fetchArenaUserProfile, postToArenaTimeline } from "./arena-socials"
 import { postToDiscordWithRetry } from "./discord-socials"
-import { saveContractTransaction } from "./database"
+import { getSerialCreatorCount, type FundingHop } from "./funding"
+import { saveCompleteTokenCreation } from "./database"
+import { getChainId } from "./chains"
+import { CURVE_FORMULA_VERIFIED, getLiveCurveQuote, type CurveQuote } from "./bonding-curve"
+import { getLatestHolderStats } from "./holders"
+import { getTokenSniperStats } from "./snipers"
+import type { RugHistory } from "./rug-detector"
 
 export interface Creator {
   id: string
   wallet_address: string
+  chain_id: number
   contracts_created: number
   contract_tickers: ContractTicker[]
   first_seen_at: string
   last_contract_at: string | null
+  funding_source: string | null // Wallet that first sent it AVAX
+  funding_path: FundingHop[] | null
+  funding_funders: string[] | null // Funders within the traced hops, minus exchanges and other hubs
+  funding_traced_at: string | null
+  cluster_id: string | null // Shared by creators funded from the same source
+  rug_history: RugHistory | Record<string, never> // Empty until the creator sells, moves or pulls liquidity
+  fees_earned: string // Creator fees over all launches (wei)
   created_at: string
   updated_at: string
 }
@@ -92,12 +107,14 @@ export async function addCreatorContract(
   name?: string,
   address?: string,
   transactionHash?: string,
+  createdAt = new Date().toISOString(),
 ): Promise<string | null> {
   try {
     // Check if creator exists
     const { data: creator, error: creatorError } = await supabase
       .from("creators")
       .select("*")
+      .eq("chain_id", getChainId())
       .eq("wallet_address", walletAddress)
       .single()
 
@@ -113,12 +130,11 @@ export async function addCreatorContract(
         .insert([
           {
             wallet_address: walletAddress,
+            chain_id: getChainId(),
             contracts_created: 1,
-            contract_tickers: [
-              { symbol, name, address, transaction_hash: transactionHash, created_at: new Date().toISOString() },
-            ],
-            first_seen_at: new Date().toISOString(),
-            last_contract_at: new Date().toISOString(),
+            contract_tickers: [{ symbol, name, address, transaction_hash: transactionHash, created_at: createdAt }],
+            first_seen_at: createdAt,
+            last_contract_at: createdAt,
           },
         ])
         .select()
@@ -133,8 +149,16 @@ export async function addCreatorContract(
       return data.id
     } else {
       // Update existing creator
-      const existingTickers = creator.contract_tickers || []
-      const tickerExists = existingTickers.some((ticker) => ticker.symbol === symbol)
+      const existingTickers: ContractTicker[] = creator.contract_tickers || []
+
+      // The same transaction may be processed more than once (live monitor, backfill, retries)
+      if (transactionHash && existingTickers.some((ticker) => ticker.transaction_hash === transactionHash)) {
+        console.log(`ℹ️ Contract ${transactionHash} already recorded for creator ${walletAddress}`)
+        return creator.id
+      }
+
+      // Each transaction is a separate contract; only fall back to the symbol when the hash is unknown
+      const tickerExists = !transactionHash && existingTickers.some((ticker) => ticker.symbol === symbol)
 
       if (!tickerExists) {
         existingTickers.push({
@@ -142,7 +166,7 @@ export async function addCreatorContract(
           name,
           address,
           transaction_hash: transactionHash,
-          created_at: new Date().toISOString(),
+          created_at: createdAt,
         })
       }
 
@@ -151,8 +175,15 @@ export async function addCreatorContract(
         .update({
           contracts_created: creator.contracts_created + 1,
           contract_tickers: existingTickers,
-          last_contract_at: new Date().toISOString(),
+          // Backfilled contracts can be older than what we already stored
+          first_seen_at:
+            new Date(createdAt) < new Date(creator.first_seen_at) ? createdAt : creator.first_seen_at,
+          last_contract_at:
+            !creator.last_contract_at || new Date(createdAt) > new Date(creator.last_contract_at)
+              ? createdAt
+              : creator.last_contract_at,
         })
+        .eq("chain_id", getChainId())
         .eq("wallet_address", walletAddress)
         .select()
         .single()
@@ -171,9 +202,71 @@ export async function addCreatorContract(
   }
 }
 
+// Undo addCreatorContract for a transaction whose block was orphaned by a chain reorganization
+export async function removeCreatorContract(walletAddress: string, transactionHash: string): Promise<boolean> {
+  try {
+    const creator = await getCreator(walletAddress)
+    if (!creator) return false
+
+    const existingTickers: ContractTicker[] = creator.contract_tickers || []
+    const remainingTickers = existingTickers.filter((ticker) => ticker.transaction_hash !== transactionHash)
+
+    if (remainingTickers.length === existingTickers.length) {
+      return false
+    }
+
+    if (remainingTickers.length === 0) {
+      const { error } = await supabase
+        .from("creators")
+        .delete()
+        .eq("chain_id", getChainId())
+        .eq("wallet_address", walletAddress)
+
+      if (error) {
+        console.error("❌ Error deleting creator:", error)
+        return false
+      }
+
+      console.log(`⏪ Creator removed after reorg: ${walletAddress}`)
+      return true
+    }
+
+    const lastContractAt = remainingTickers.reduce(
+      (latest, ticker) => (new Date(ticker.created_at) > new Date(latest) ? ticker.created_at : latest),
+      remainingTickers[0].created_at,
+    )
+
+    const { error } = await supabase
+      .from("creators")
+      .update({
+        contracts_created: Math.max(creator.contracts_created - 1, 0),
+        contract_tickers: remainingTickers,
+        last_contract_at: lastContractAt,
+      })
+      .eq("chain_id", getChainId())
+      .eq("wallet_address", walletAddress)
+
+    if (error) {
+      console.error("❌ Error updating creator after reorg:", error)
+      return false
+    }
+
+    console.log(`⏪ Contract ${transactionHash} removed from creator ${walletAddress}`)
+    return true
+  } catch (error) {
+    console.error("❌ Error in removeCreatorContract:", error)
+    return false
+  }
+}
+
 export async function getCreator(walletAddress: string): Promise<Creator | null> {
   try {
-    const { data, error } = await supabase.from("creators").select("*").eq("wallet_address", walletAddress).single()
+    const { data, error } = await supabase
+      .from("creators")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .eq("wallet_address", walletAddress)
+      .single()
 
     if (error) {
       // Check if the error is a "not found" error
@@ -194,7 +287,25 @@ export async function getCreator(walletAddress: string): Promise<Creator | null>
 }
 
 // Process a contract transaction and update creator data
-export async function processTokenCreation(transaction: ContractTransaction): Promise<string | null> {
+// Live bonding-curve quote for a launch whose params and supply are known, for its alerts. None while the
+// curve formula is unverified, so a wrong price is never published.
+async function getLaunchPriceQuote(transaction: ContractTransaction): Promise<CurveQuote | null> {
+  if (!CURVE_FORMULA_VERIFIED) return null
+
+  const tokenAddress = transaction.tokenMetadata?.tokenAddress || transaction.tokenAddress
+  const totalSupply = transaction.tokenMetadata?.totalSupply
+
+  if (!transaction.launchParams || !tokenAddress || !totalSupply) return null
+
+  const curveAddress = transaction.contractAddress ?? ARENA_CONTRACT_ADDRESS
+  return getLiveCurveQuote(tokenAddress, curveAddress, transaction.launchParams, BigInt(totalSupply))
+}
+
+// With postAlerts false the launch is stored but Arena/Discord posts are held (e.g. until it is confirmed)
+export async function processTokenCreation(
+  transaction: ContractTransaction,
+  options: { postAlerts?: boolean } = {},
+): Promise<string | null> {
   try {
     if (!transaction.isTokenCreation || !transaction.tokenMetadata) {
       console.log("❌ Not a token creation transaction")
@@ -221,6 +332,7 @@ export async function processTokenCreation(transaction: ContractTransaction): Pr
     const { data: txData, error: txError } = await supabase
       .from("contract_transactions")
       .select("id, posted_to_arena, posted_to_discord")
+      .eq("chain_id", getChainId())
       .eq("hash", transaction.hash)
       .single()
 
@@ -236,7 +348,9 @@ export async function processTokenCreation(transaction: ContractTransaction): Pr
       if (arenaAlreadySent) markArenaPostAsSent(arenaPostKey, "db")
       if (discordAlreadySent) markDiscordPostAsSent(discordPostKey, "db")
     } else {
-      transactionId = await saveContractTransaction(transaction)
+      // Save token, profile and transaction together so a headless run leaves a complete record
+      const saved = await saveCompleteTokenCreation(transaction, transaction.creatorProfile?.arenaProfile)
+      transactionId = saved.transactionId
     }
 
     if (arenaAlreadySent && discordAlreadySent) {
@@ -260,16 +374,23 @@ export async function processTokenCreation(transaction: ContractTransaction): Pr
       transaction.hash,
     )
 
+    if (creatorId && options.postAlerts === false) {
+      console.log(`⏳ Token creation stored, holding posts until confirmed: ${symbol}`)
+      return creatorId
+    }
+
     if (creatorId) {
       console.log(`✅ Token creation processed successfully: ${symbol}`)
 
       // Get updated creator data to check contract count
       const creatorData = await getCreator(transaction.from)
+      // Wallets funded from the same source count as one serial creator
+      const serialCount = creatorData
+        ? await getSerialCreatorCount(transaction.from, creatorData.contracts_created)
+        : 0
 
-      if (creatorData && creatorData.contracts_created > 1) {
-        console.log(
-          `🎯 Creator ${transaction.from} has ${creatorData.contracts_created} tokens - checking Arena profile`,
-        )
+      if (creatorData && serialCount > 1) {
+        console.log(`🎯 Creator ${transaction.from} has ${serialCount} tokens - checking Arena profile`)
 
         // Get Arena profile for this creator
         const arenaProfile = await fetchArenaUserProfile(transaction.from)
@@ -277,7 +398,7 @@ export async function processTokenCreation(transaction: ContractTransaction): Pr
         if (arenaProfile && arenaProfile.username) {
           // Enhanced logging for detection
           console.log(`🏆 Creator ${transaction.from} analysis:`)
-          console.log(`   - Contracts created: ${creatorData.contracts_created}`)
+          console.log(`   - Contracts created: ${creatorData.contracts_created} (${serialCount} with its cluster)`)
           console.log(`   - Has Arena profile: ${!!arenaProfile}`)
           console.log(`   - Is Champion: ${arenaProfile.isArenaChampion}`)
           console.log(`   - Username: ${arenaProfile.username}`)
@@ -300,6 +421,11 @@ export async function processTokenCreation(transaction: ContractTransaction): Pr
           }
 
           console.log(`📝 Post type determined: ${postType}`)
+
+          const priceQuote = await getLaunchPriceQuote(transaction)
+          const launchedToken = tokenAddress || transaction.tokenAddress
+          const holderStats = launchedToken ? await getLatestHolderStats(launchedToken) : null
+          const sniperStats = launchedToken ? await getTokenSniperStats(launchedToken) : null
           console.log(`📝 Cache key: ${arenaPostKey}`)
 
           // Only post to Arena for champions and heavy hitters (and only if not already sent)
@@ -309,9 +435,11 @@ export async function processTokenCreation(transaction: ContractTransaction): Pr
               arenaProfile.username,
               symbol,
               name,
-              creatorData.contracts_created,
+              serialCount,
               arenaProfile.isArenaChampion || false,
               arenaProfile,
+              priceQuote,
+              holderStats,
             )
 
             if (posted) {
@@ -343,10 +471,13 @@ export async function processTokenCreation(transaction: ContractTransaction): Pr
               arenaProfile.username,
               symbol,
               name,
-              creatorData.contracts_created,
+              serialCount,
               arenaProfile.isArenaChampion || false,
               arenaProfile,
               tokenAddress || transaction.tokenAddress || undefined,
+              priceQuote,
+              holderStats,
+              sniperStats,
             )
 
             if (discordPosted) {
@@ -369,7 +500,7 @@ export async function processTokenCreation(transaction: ContractTransaction): Pr
         }
       } else {
         console.log(
-          `ℹ️ Creator ${transaction.from} has only ${creatorData?.contracts_created || 0} token(s) - skipping Arena post`,
+          `ℹ️ Creator ${transaction.from} has only ${serialCount} token(s) - skipping Arena post`,
         )
       }
     }
@@ -387,6 +518,7 @@ export async function getCreators(limit = 50): Promise<Creator[]> {
     const { data, error } = await supabase
       .from("creators")
       .select("*")
+      .eq("chain_id", getChainId())
       .order("contracts_created", { ascending: false })
       .limit(limit)
 
@@ -408,6 +540,7 @@ export async function getTopCreators(limit = 10): Promise<Creator[]> {
     const { data, error } = await supabase
       .from("creators")
       .select("*")
+      .eq("chain_id", getChainId())
       .order("contracts_created", { ascending: false })
       .limit(limit)
 
@@ -436,10 +569,16 @@ export async function getCreatorStats(): Promise<{
     const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000)
 
     // Get total creators
-    const { count: totalCreators } = await supabase.from("creators").select("*", { count: "exact", head: true })
+    const { count: totalCreators } = await supabase
+      .from("creators")
+      .select("*", { count: "exact", head: true })
+      .eq("chain_id", getChainId())
 
     // Get total contracts (sum of all contracts_created)
-    const { data: contractsData } = await supabase.from("creators").select("contracts_created")
+    const { data: contractsData } = await supabase
+      .from("creators")
+      .select("contracts_created")
+      .eq("chain_id", getChainId())
 
     const totalContracts = contractsData?.reduce((sum, creator) => sum + creator.contracts_created, 0) || 0
     const avgContractsPerCreator = totalCreators ? Math.round((totalContracts / totalCreators) * 100) / 100 : 0
@@ -448,12 +587,14 @@ export async function getCreatorStats(): Promise<{
     const { count: newCreatorsLast24h } = await supabase
       .from("creators")
       .select("*", { count: "exact", head: true })
+      .eq("chain_id", getChainId())
       .gte("first_seen_at", oneDayAgo.toISOString())
 
     // Get new contracts in last 24h
     const { count: newContractsLast24h } = await supabase
       .from("creators")
       .select("*", { count: "exact", head: true })
+      .eq("chain_id", getChainId())
       .gte("last_contract_at", oneDayAgo.toISOString())
 
     return {
@@ -1,13 +1,41 @@
 import { supabase, type Database } from "./supabase"
-import type { ContractTransaction, TokenData } from "./blockchain"
+import type { ContractTransaction, TokenData, TokenLaunchParams, TokenLifecycle, TransactionType } from "./blockchain"
 import type { ArenaUserProfile } from "./arena-socials"
+import { getChainId } from "./chains"
 
 type TokenRow = Database["public"]["Tables"]["tokens"]["Row"]
 type TokenInsert = Database["public"]["Tables"]["tokens"]["Insert"]
+type TokenUpdate = Database["public"]["Tables"]["tokens"]["Update"]
 type CreatorProfileRow = Database["public"]["Tables"]["creator_profiles"]["Row"]
 type CreatorProfileInsert = Database["public"]["Tables"]["creator_profiles"]["Insert"]
 type ContractTransactionRow = Database["public"]["Tables"]["contract_transactions"]["Row"]
 type ContractTransactionInsert = Database["public"]["Tables"]["contract_transactions"]["Insert"]
+type IndexerCursorRow = Database["public"]["Tables"]["indexer_cursors"]["Row"]
+type IndexerCursorInsert = Database["public"]["Tables"]["indexer_cursors"]["Insert"]
+type TokenTransferInsert = Database["public"]["Tables"]["token_transfers"]["Insert"]
+export type TokenTransferRow = Database["public"]["Tables"]["token_transfers"]["Row"]
+type TokenHolderRow = Database["public"]["Tables"]["token_holders"]["Row"]
+export type HolderSnapshotRow = Database["public"]["Tables"]["holder_snapshots"]["Row"]
+type HolderSnapshotInsert = Database["public"]["Tables"]["holder_snapshots"]["Insert"]
+export type TradeRow = Database["public"]["Tables"]["trades"]["Row"]
+export type TradeInsert = Database["public"]["Tables"]["trades"]["Insert"]
+export type PoolSnapshotRow = Database["public"]["Tables"]["pool_snapshots"]["Row"]
+export type PoolSnapshotInsert = Database["public"]["Tables"]["pool_snapshots"]["Insert"]
+export type LiquidityRemovalRow = Database["public"]["Tables"]["liquidity_removals"]["Row"]
+export type LiquidityRemovalInsert = Database["public"]["Tables"]["liquidity_removals"]["Insert"]
+export type CreatorEventRow = Database["public"]["Tables"]["creator_events"]["Row"]
+export type CreatorEventInsert = Database["public"]["Tables"]["creator_events"]["Insert"]
+export type TokenSniperRow = Database["public"]["Tables"]["token_snipers"]["Row"]
+export type TokenSniperInsert = Database["public"]["Tables"]["token_snipers"]["Insert"]
+// Addresses per IN filter, so the request URL stays short
+const ADDRESS_FILTER_CHUNK = 100
+// Rows per page when reading a whole table; PostgREST caps a response at 1000 rows
+const TOKEN_PAGE_SIZE = 1000
+
+type StoredTokenCreationRow = ContractTransactionRow & {
+  tokens: TokenRow | null
+  creator_profiles: CreatorProfileRow | null
+}
 
 // Token database operations
 export async function saveToken(tokenData: TokenData): Promise<string | null> {
@@ -25,6 +53,36 @@ export async function saveToken(tokenData: TokenData): Promise<string | null> {
       timestamp: new Date(tokenData.timestamp!).toISOString(),
       method_id: null, // We can add this later if needed
       method_name: null,
+      arena_token_id: tokenData.tokenId || null,
+      curve_scaler: tokenData.launchParams?.curveScaler ?? null,
+      curve_a: tokenData.launchParams?.a ?? null,
+      curve_b: tokenData.launchParams?.b ?? null,
+      lp_deployed: tokenData.launchParams?.lpDeployed ?? null,
+      lp_percentage: tokenData.launchParams?.lpPercentage ?? null,
+      sale_percentage: tokenData.launchParams?.salePercentage ?? null,
+      creator_fee_basis_points: tokenData.launchParams?.creatorFeeBasisPoints ?? null,
+      pair_address: tokenData.launchParams?.pairAddress?.toLowerCase() ?? null,
+      chain_id: getChainId(),
+    }
+
+    // Leave decimals alone when they weren't read, so re-saving doesn't drop enriched metadata
+    if (tokenData.decimals !== undefined) {
+      tokenInsert.decimals = tokenData.decimals
+    }
+
+    // Same for the launchpad, which routes that don't see the log can't tell
+    if (tokenData.contractAddress) {
+      tokenInsert.contract_address = tokenData.contractAddress.toLowerCase()
+    }
+
+    // Only set the lifecycle when the pool already exists at launch, so re-saving never undoes a graduation
+    if (tokenData.launchParams?.lpDeployed) {
+      tokenInsert.lifecycle_state = "graduated"
+      tokenInsert.graduated_at = tokenInsert.timestamp
+      tokenInsert.graduation_block = tokenInsert.block_number
+      tokenInsert.graduation_tx_hash = tokenInsert.transaction_hash
+      tokenInsert.time_to_graduate_seconds = 0
+      tokenInsert.graduation_alert_sent = true
     }
 
     const { data, error } = await supabase
@@ -126,8 +184,13 @@ export async function saveContractTransaction(
       token_id: tokenId || null,
       creator_profile_id: creatorProfileId || null,
       raw_input: transaction.rawInput || null,
-      posted_to_arena: false,
-      posted_to_discord: false,
+      block_hash: transaction.blockHash || null,
+      chain_id: getChainId(),
+      // posted_to_arena / posted_to_discord are left to their defaults so re-saving never resets them
+    }
+
+    if (transaction.contractAddress) {
+      transactionInsert.contract_address = transaction.contractAddress.toLowerCase()
     }
 
     const { data, error } = await supabase
@@ -158,6 +221,7 @@ export async function getTokens(limit = 50): Promise<TokenRow[]> {
     const { data, error } = await supabase
       .from("tokens")
       .select("*")
+      .eq("chain_id", getChainId())
       .order("timestamp", { ascending: false })
       .limit(limit)
 
@@ -199,7 +263,12 @@ export async function getCreatorProfile(walletAddress: string): Promise<CreatorP
 
 export async function getContractTransactions(limit = 50, transactionType?: string): Promise<ContractTransactionRow[]> {
   try {
-    let query = supabase.from("contract_transactions").select("*").order("timestamp", { ascending: false }).limit(limit)
+    let query = supabase
+      .from("contract_transactions")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .order("timestamp", { ascending: false })
+      .limit(limit)
 
     if (transactionType) {
       query = query.eq("transaction_type", transactionType)
@@ -219,35 +288,1155 @@ export async function getContractTransactions(limit = 50, transactionType?: stri
   }
 }
 
-// Analytics functions
-export async function getTokenStats(): Promise<{
-  total: number
-  last24h: number
-  last7d: number
-  avgSupply: number
-}> {
+// Map a stored transaction (with joined token and profile) back to the shape the live monitor produces
+function storedRowToContractTransaction(row: StoredTokenCreationRow): ContractTransaction {
+  const token = row.tokens
+  const profile = row.creator_profiles
+
+  return {
+    hash: row.hash,
+    from: row.from_address,
+    to: row.to_address,
+    value: String(row.value_wei ?? 0),
+    blockNumber: BigInt(row.block_number),
+    blockHash: row.block_hash || undefined,
+    timestamp: new Date(row.timestamp).getTime(),
+    method: row.method_name || undefined,
+    methodId: row.method_id || undefined,
+    transactionType: row.transaction_type as TransactionType,
+    isTokenCreation: row.transaction_type === "TOKEN_CREATION",
+    description: row.description || "",
+    tokenMetadata: token
+      ? {
+          name: token.name || undefined,
+          symbol: token.symbol || undefined,
+          totalSupply: token.total_supply?.toString(),
+          creator: token.creator_address,
+          tokenAddress: token.address,
+        }
+      : undefined,
+    creatorProfile: {
+      address: row.from_address,
+      arenaProfile: profile
+        ? {
+            username: profile.username || undefined,
+            displayName: profile.display_name || undefined,
+            bio: profile.bio || undefined,
+            avatar: profile.avatar_url || undefined,
+            twitter: profile.twitter_handle || undefined,
+            telegram: profile.telegram_handle || undefined,
+            website: profile.website_url || undefined,
+            verified: profile.verified,
+            followerCount: profile.follower_count,
+            followingCount: profile.following_count,
+            tokenCount: profile.token_count,
+            keyPrice: profile.key_price ? profile.key_price.toString() : undefined,
+            totalHolders: profile.total_holders.toString(),
+            volume: profile.volume.toString(),
+            supply: profile.supply,
+            joinedAt: profile.joined_at || undefined,
+          }
+        : null,
+      isLoading: false,
+    },
+    rawInput: row.raw_input || undefined,
+    tokenAddress: token?.address,
+    tokenId: token?.arena_token_id || undefined,
+    contractAddress: row.contract_address || undefined,
+    launchParams: token ? tokenRowToLaunchParams(token) : undefined,
+    lifecycle: token ? tokenRowToLifecycle(token) : undefined,
+  }
+}
+
+// Rows from before the lifecycle columns existed have no state and are left undefined
+function tokenRowToLifecycle(token: TokenRow): TokenLifecycle | undefined {
+  if (!token.lifecycle_state) return undefined
+
+  return {
+    state: token.lifecycle_state,
+    graduatedAt: token.graduated_at ? new Date(token.graduated_at).getTime() : undefined,
+    graduationTxHash: token.graduation_tx_hash || undefined,
+    timeToGraduateSeconds: token.time_to_graduate_seconds ?? undefined,
+  }
+}
+
+// Launch params are only stored for tokens seen through a TokenCreated log
+export function tokenRowToLaunchParams(token: TokenRow): TokenLaunchParams | undefined {
+  if (token.curve_scaler === null || token.sale_percentage === null) return undefined
+
+  return {
+    curveScaler: token.curve_scaler,
+    a: token.curve_a ?? 0,
+    b: token.curve_b ?? 0,
+    lpDeployed: token.lp_deployed ?? false,
+    lpPercentage: token.lp_percentage ?? 0,
+    salePercentage: token.sale_percentage,
+    creatorFeeBasisPoints: token.creator_fee_basis_points ?? 0,
+    pairAddress: token.pair_address ?? "",
+  }
+}
+
+// Token creations stored by the headless indexer, newest first, optionally from one launchpad contract
+export async function getStoredTokenCreations(limit = 50, contractAddress?: string): Promise<ContractTransaction[]> {
   try {
-    const now = new Date()
-    const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000)
-    const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+    let query = supabase
+      .from("contract_transactions")
+      .select("*, tokens(*), creator_profiles(*)")
+      .eq("transaction_type", "TOKEN_CREATION")
+      .eq("chain_id", getChainId())
+      .order("block_number", { ascending: false })
+      .limit(limit)
 
-    // Get total count
-    const { count: total } = await supabase.from("tokens").select("*", { count: "exact", head: true })
+    if (contractAddress) {
+      query = query.eq("contract_address", contractAddress.toLowerCase())
+    }
 
-    // Get 24h count
-    const { count: last24h } = await supabase
+    const { data, error } = await query
+
+    if (error) {
+      console.error("❌ Error fetching stored token creations:", error)
+      return []
+    }
+
+    return ((data || []) as StoredTokenCreationRow[]).map(storedRowToContractTransaction)
+  } catch (error) {
+    console.error("❌ Error in getStoredTokenCreations:", error)
+    return []
+  }
+}
+
+// Indexer cursor operations
+export async function getIndexerCursor(
+  chainId: number,
+  contractAddress: string,
+  cursorType = "live",
+): Promise<IndexerCursorRow | null> {
+  try {
+    const { data, error } = await supabase
+      .from("indexer_cursors")
+      .select("*")
+      .eq("chain_id", chainId)
+      .eq("contract_address", contractAddress.toLowerCase())
+      .eq("cursor_type", cursorType)
+      .single()
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        // No cursor stored yet
+        return null
+      }
+      console.error("❌ Error fetching indexer cursor:", error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error("❌ Error in getIndexerCursor:", error)
+    return null
+  }
+}
+
+export async function saveIndexerCursor(cursor: IndexerCursorInsert): Promise<boolean> {
+  try {
+    const { error } = await supabase.from("indexer_cursors").upsert(
+      {
+        ...cursor,
+        contract_address: cursor.contract_address.toLowerCase(),
+        cursor_type: cursor.cursor_type || "live",
+        updated_at: new Date().toISOString(),
+      },
+      {
+        onConflict: "chain_id,contract_address,cursor_type",
+        ignoreDuplicates: false,
+      },
+    )
+
+    if (error) {
+      console.error("❌ Error saving indexer cursor:", error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in saveIndexerCursor:", error)
+    return false
+  }
+}
+
+// Chain reorganization rollback: delete everything stored from blocks above the fork point on the active chain
+// Returns the removed transactions so callers can undo derived data (creator tickers)
+export async function rollbackBlocksAfter(blockNumber: bigint): Promise<ContractTransactionRow[]> {
+  try {
+    const { data: orphaned, error: fetchError } = await supabase
+      .from("contract_transactions")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .gt("block_number", Number(blockNumber))
+
+    if (fetchError) {
+      console.error("❌ Error fetching orphaned transactions:", fetchError)
+      return []
+    }
+
+    // Transactions reference tokens, so they go first
+    const { error: txError } = await supabase
+      .from("contract_transactions")
+      .delete()
+      .eq("chain_id", getChainId())
+      .gt("block_number", Number(blockNumber))
+
+    if (txError) {
+      console.error("❌ Error deleting orphaned transactions:", txError)
+      return []
+    }
+
+    const { error: tokenError } = await supabase
       .from("tokens")
-      .select("*", { count: "exact", head: true })
-      .gte("timestamp", oneDayAgo.toISOString())
+      .delete()
+      .eq("chain_id", getChainId())
+      .gt("block_number", Number(blockNumber))
 
-    // Get 7d count
-    const { count: last7d } = await supabase
+    if (tokenError) {
+      console.error("❌ Error deleting orphaned tokens:", tokenError)
+    }
+
+    const { error: tradeError } = await supabase
+      .from("trades")
+      .delete()
+      .eq("chain_id", getChainId())
+      .gt("block_number", Number(blockNumber))
+
+    if (tradeError) {
+      console.error("❌ Error deleting orphaned trades:", tradeError)
+    }
+
+    for (const table of ["pool_snapshots", "liquidity_removals", "holder_snapshots", "token_snipers"] as const) {
+      const { error: poolError } = await supabase
+        .from(table)
+        .delete()
+        .eq("chain_id", getChainId())
+        .gt("block_number", Number(blockNumber))
+
+      if (poolError) {
+        console.error(`❌ Error deleting orphaned ${table}:`, poolError)
+      }
+    }
+
+    // Launches from before the fork stay, but a graduation in an orphaned block didn't happen
+    const { error: graduationError } = await supabase
       .from("tokens")
-      .select("*", { count: "exact", head: true })
-      .gte("timestamp", oneWeekAgo.toISOString())
+      .update({
+        lifecycle_state: "bonding",
+        graduated_at: null,
+        graduation_block: null,
+        graduation_tx_hash: null,
+        time_to_graduate_seconds: null,
+        graduation_alert_sent: false,
+      })
+      .eq("chain_id", getChainId())
+      .gt("graduation_block", Number(blockNumber))
 
-    // Get average supply
-    const { data: avgData } = await supabase.from("tokens").select("total_supply").not("total_supply", "is", null)
+    if (graduationError) {
+      console.error("❌ Error resetting orphaned graduations:", graduationError)
+    }
+
+    console.log(`⏪ Rolled back ${orphaned?.length || 0} transactions above block ${blockNumber}`)
+    return orphaned || []
+  } catch (error) {
+    console.error("❌ Error in rollbackBlocksAfter:", error)
+    return []
+  }
+}
+
+// Stored tokens for a set of contract addresses, matched regardless of checksum casing, or null when they
+// can't be read
+export async function getTokensByAddress(addresses: string[]): Promise<TokenRow[] | null> {
+  if (addresses.length === 0) return []
+
+  try {
+    const variants = [...new Set(addresses.flatMap((address) => [address, address.toLowerCase()]))]
+    const tokens: TokenRow[] = []
+
+    // Keep the IN filter short enough for the request URL
+    for (let i = 0; i < variants.length; i += ADDRESS_FILTER_CHUNK) {
+      const { data, error } = await supabase
+        .from("tokens")
+        .select("*")
+        .eq("chain_id", getChainId())
+        .in("address", variants.slice(i, i + ADDRESS_FILTER_CHUNK))
+
+      if (error) {
+        console.error("❌ Error fetching tokens by address:", error)
+        return null
+      }
+
+      tokens.push(...(data || []))
+    }
+
+    return tokens
+  } catch (error) {
+    console.error("❌ Error in getTokensByAddress:", error)
+    return null
+  }
+}
+
+// Stored tokens whose name, symbol or decimals are still unknown, newest first
+export async function getTokensMissingMetadata(limit = 500, offset = 0): Promise<TokenRow[]> {
+  try {
+    const { data, error } = await supabase
+      .from("tokens")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .or("name.is.null,symbol.is.null,decimals.is.null")
+      .order("block_number", { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error("❌ Error fetching tokens missing metadata:", error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in getTokensMissingMetadata:", error)
+    return []
+  }
+}
+
+export async function updateTokenMetadata(
+  address: string,
+  metadata: Pick<TokenUpdate, "name" | "symbol" | "decimals" | "total_supply">,
+): Promise<boolean> {
+  try {
+    const { error } = await supabase.from("tokens").update(metadata).eq("chain_id", getChainId()).eq("address", address)
+
+    if (error) {
+      console.error(`❌ Error updating metadata of token ${address}:`, error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in updateTokenMetadata:", error)
+    return false
+  }
+}
+
+// Trades are unique per log, so re-indexing a range only adds what is missing
+export async function saveTrades(trades: TradeInsert[]): Promise<boolean> {
+  if (trades.length === 0) return true
+
+  try {
+    const rows = trades.map((trade) => ({ ...trade, chain_id: getChainId() }))
+    const { error } = await supabase.from("trades").upsert(rows, {
+      onConflict: "transaction_hash,log_index",
+      ignoreDuplicates: true,
+    })
+
+    if (error) {
+      console.error("❌ Error saving trades:", error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in saveTrades:", error)
+    return false
+  }
+}
+
+export async function getTradesForToken(tokenAddress: string): Promise<TradeRow[] | null> {
+  try {
+    const trades: TradeRow[] = []
+
+    // Paged, so launches with more trades than one response holds aren't cut short
+    for (let offset = 0; ; offset += TOKEN_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("trades")
+        .select("*")
+        .eq("chain_id", getChainId())
+        .in("token_address", [tokenAddress, tokenAddress.toLowerCase()])
+        .order("block_number", { ascending: true })
+        .order("log_index", { ascending: true })
+        .range(offset, offset + TOKEN_PAGE_SIZE - 1)
+
+      if (error) {
+        console.error("❌ Error fetching trades:", error)
+        return null
+      }
+
+      trades.push(...(data || []))
+      if (!data || data.length < TOKEN_PAGE_SIZE) return trades
+    }
+  } catch (error) {
+    console.error("❌ Error in getTradesForToken:", error)
+    return null
+  }
+}
+
+// Move a launch from bonding to graduated. Returns the updated row, or null when it was already
+// graduated, isn't stored, or the update failed.
+export async function markTokenGraduated(graduation: {
+  tokenAddress: string
+  transactionHash: string
+  blockNumber: bigint
+  timestamp: number
+  alertSent: boolean
+}): Promise<TokenRow | null> {
+  try {
+    const [token] = (await getTokensByAddress([graduation.tokenAddress])) ?? []
+    if (!token || token.lifecycle_state === "graduated") return null
+
+    const launchedAt = new Date(token.timestamp).getTime()
+
+    const { data, error } = await supabase
+      .from("tokens")
+      .update({
+        lifecycle_state: "graduated",
+        graduated_at: new Date(graduation.timestamp).toISOString(),
+        graduation_block: Number(graduation.blockNumber),
+        graduation_tx_hash: graduation.transactionHash,
+        time_to_graduate_seconds: Math.max(Math.round((graduation.timestamp - launchedAt) / 1000), 0),
+        graduation_alert_sent: graduation.alertSent,
+      })
+      .eq("id", token.id)
+      .eq("lifecycle_state", "bonding")
+      .select("*")
+      .maybeSingle()
+
+    if (error) {
+      console.error("❌ Error marking token as graduated:", error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error("❌ Error in markTokenGraduated:", error)
+    return null
+  }
+}
+
+// Graduations that still need an alert, up to the given (confirmed) block
+export async function getPendingGraduationAlerts(maxBlock: bigint): Promise<TokenRow[]> {
+  try {
+    const { data, error } = await supabase
+      .from("tokens")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .eq("lifecycle_state", "graduated")
+      .eq("graduation_alert_sent", false)
+      .lte("graduation_block", Number(maxBlock))
+      .order("graduation_block", { ascending: true })
+
+    if (error) {
+      console.error("❌ Error fetching pending graduation alerts:", error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in getPendingGraduationAlerts:", error)
+    return []
+  }
+}
+
+export async function markGraduationAlertSent(tokenId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase.from("tokens").update({ graduation_alert_sent: true }).eq("id", tokenId)
+
+    if (error) {
+      console.error("❌ Error marking graduation alert as sent:", error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in markGraduationAlertSent:", error)
+    return false
+  }
+}
+
+// Pairs of graduated launches, for the pool watcher, or null when they can't be read
+export async function getGraduatedPairs(): Promise<{ tokenAddress: string; pairAddress: string }[] | null> {
+  try {
+    const pairs: { tokenAddress: string; pairAddress: string }[] = []
+
+    for (let offset = 0; ; offset += TOKEN_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("tokens")
+        .select("address, pair_address")
+        .eq("chain_id", getChainId())
+        .eq("lifecycle_state", "graduated")
+        .not("pair_address", "is", null)
+        .order("block_number", { ascending: true })
+        .range(offset, offset + TOKEN_PAGE_SIZE - 1)
+
+      if (error) {
+        console.error("❌ Error fetching graduated pairs:", error)
+        return null
+      }
+
+      pairs.push(...(data || []).map((row) => ({ tokenAddress: row.address, pairAddress: row.pair_address! })))
+      if (!data || data.length < TOKEN_PAGE_SIZE) return pairs
+    }
+  } catch (error) {
+    console.error("❌ Error in getGraduatedPairs:", error)
+    return null
+  }
+}
+
+// Snapshots and removals are unique per pair block and per log, so re-indexing a range is safe
+export async function savePoolSnapshots(snapshots: PoolSnapshotInsert[]): Promise<boolean> {
+  if (snapshots.length === 0) return true
+
+  try {
+    const rows = snapshots.map((snapshot) => ({ ...snapshot, chain_id: getChainId() }))
+    const { error } = await supabase.from("pool_snapshots").upsert(rows, {
+      onConflict: "pair_address,block_number",
+      ignoreDuplicates: true,
+    })
+
+    if (error) {
+      console.error("❌ Error saving pool snapshots:", error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in savePoolSnapshots:", error)
+    return false
+  }
+}
+
+export async function saveLiquidityRemovals(removals: LiquidityRemovalInsert[]): Promise<boolean> {
+  if (removals.length === 0) return true
+
+  try {
+    const rows = removals.map((removal) => ({ ...removal, chain_id: getChainId() }))
+    const { error } = await supabase.from("liquidity_removals").upsert(rows, {
+      onConflict: "transaction_hash,log_index",
+      ignoreDuplicates: true,
+    })
+
+    if (error) {
+      console.error("❌ Error saving liquidity removals:", error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in saveLiquidityRemovals:", error)
+    return false
+  }
+}
+
+// Price and liquidity time series of one token, newest first
+export async function getPoolSnapshots(tokenAddress: string, limit = 100): Promise<PoolSnapshotRow[]> {
+  try {
+    const { data, error } = await supabase
+      .from("pool_snapshots")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .in("token_address", [tokenAddress, tokenAddress.toLowerCase()])
+      .order("block_number", { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error("❌ Error fetching pool snapshots:", error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in getPoolSnapshots:", error)
+    return []
+  }
+}
+
+export async function getLiquidityRemovals(tokenAddress: string): Promise<LiquidityRemovalRow[]> {
+  try {
+    const { data, error } = await supabase
+      .from("liquidity_removals")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .in("token_address", [tokenAddress, tokenAddress.toLowerCase()])
+      .order("block_number", { ascending: false })
+
+    if (error) {
+      console.error("❌ Error fetching liquidity removals:", error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in getLiquidityRemovals:", error)
+    return []
+  }
+}
+
+// Holder indexing. Addresses in the holder tables are stored lowercase.
+
+// Addresses of every stored launch on the active chain, or null when they can't be read
+export async function getStoredTokenAddresses(): Promise<string[] | null> {
+  try {
+    const addresses: string[] = []
+
+    for (let offset = 0; ; offset += TOKEN_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("tokens")
+        .select("address")
+        .eq("chain_id", getChainId())
+        .order("block_number", { ascending: true })
+        .range(offset, offset + TOKEN_PAGE_SIZE - 1)
+
+      if (error) {
+        console.error("❌ Error fetching token addresses:", error)
+        return null
+      }
+
+      addresses.push(...(data || []).map((row) => row.address))
+      if (!data || data.length < TOKEN_PAGE_SIZE) return addresses
+    }
+  } catch (error) {
+    console.error("❌ Error in getStoredTokenAddresses:", error)
+    return null
+  }
+}
+
+// Insert transfers and add the balance changes of the ones that weren't stored yet, in one transaction
+// (apply_token_transfers in scripts/create-holder-functions.sql). A failed call changes nothing, and a range
+// indexed twice or by two processes at once never counts a transfer twice. Returns how many transfers were
+// new, or null when the call failed.
+export async function saveTokenTransfers(
+  transfers: TokenTransferInsert[],
+  blockNumber: bigint,
+): Promise<number | null> {
+  if (transfers.length === 0) return 0
+
+  try {
+    const { data, error } = await supabase.rpc("apply_token_transfers", {
+      transfers,
+      chain: getChainId(),
+      at_block: Number(blockNumber),
+    })
+
+    if (error) {
+      console.error("❌ Error saving token transfers:", error)
+      return null
+    }
+
+    return Number(data ?? 0)
+  } catch (error) {
+    console.error("❌ Error in saveTokenTransfers:", error)
+    return null
+  }
+}
+
+// Delete transfers above a block and revert their balance changes, in one transaction. Returns the number of
+// transfers reverted, or null when the call failed.
+export async function revertTokenTransfersAfter(blockNumber: bigint): Promise<number | null> {
+  try {
+    const { data, error } = await supabase.rpc("revert_token_transfers_after", {
+      chain: getChainId(),
+      after_block: Number(blockNumber),
+    })
+
+    if (error) {
+      console.error("❌ Error reverting orphaned token transfers:", error)
+      return null
+    }
+
+    return Number(data ?? 0)
+  } catch (error) {
+    console.error("❌ Error in revertTokenTransfersAfter:", error)
+    return null
+  }
+}
+
+// Largest holders of a token, leaving out contracts that aren't real holders (launch contract, pair)
+export async function getTopHolders(
+  tokenAddress: string,
+  limit = 10,
+  excluded: string[] = [],
+): Promise<{ holder: string; balance: string }[]> {
+  try {
+    let query = supabase
+      .from("token_holders")
+      .select("holder_address, balance::text")
+      .eq("chain_id", getChainId())
+      .eq("token_address", tokenAddress.toLowerCase())
+      .gt("balance", 0)
+
+    if (excluded.length > 0) {
+      query = query.not("holder_address", "in", `(${excluded.map((address) => address.toLowerCase()).join(",")})`)
+    }
+
+    const { data, error } = await query.order("balance", { ascending: false }).limit(limit)
+
+    if (error) {
+      console.error("❌ Error fetching top holders:", error)
+      return []
+    }
+
+    return ((data || []) as Pick<TokenHolderRow, "holder_address" | "balance">[]).map((row) => ({
+      holder: row.holder_address,
+      balance: row.balance,
+    }))
+  } catch (error) {
+    console.error("❌ Error in getTopHolders:", error)
+    return []
+  }
+}
+
+export async function getHolderCount(tokenAddress: string, excluded: string[] = []): Promise<number> {
+  try {
+    let query = supabase
+      .from("token_holders")
+      .select("*", { count: "exact", head: true })
+      .eq("chain_id", getChainId())
+      .eq("token_address", tokenAddress.toLowerCase())
+      .gt("balance", 0)
+
+    if (excluded.length > 0) {
+      query = query.not("holder_address", "in", `(${excluded.map((address) => address.toLowerCase()).join(",")})`)
+    }
+
+    const { count, error } = await query
+
+    if (error) {
+      console.error("❌ Error counting holders:", error)
+      return 0
+    }
+
+    return count || 0
+  } catch (error) {
+    console.error("❌ Error in getHolderCount:", error)
+    return 0
+  }
+}
+
+// Stored balance of a holder, or null when it's unknown: not stored (the wallet's first tokens arrived
+// before holder indexing started) or not readable
+export async function getHolderBalance(tokenAddress: string, holderAddress: string): Promise<bigint | null> {
+  try {
+    const { data, error } = await supabase
+      .from("token_holders")
+      .select("balance::text")
+      .eq("chain_id", getChainId())
+      .eq("token_address", tokenAddress.toLowerCase())
+      .eq("holder_address", holderAddress.toLowerCase())
+      .maybeSingle()
+
+    if (error) {
+      console.error("❌ Error fetching holder balance:", error)
+      return null
+    }
+
+    return data ? BigInt((data as Pick<TokenHolderRow, "balance">).balance) : null
+  } catch (error) {
+    console.error("❌ Error in getHolderBalance:", error)
+    return null
+  }
+}
+
+export async function saveHolderSnapshots(snapshots: HolderSnapshotInsert[]): Promise<boolean> {
+  if (snapshots.length === 0) return true
+
+  try {
+    const rows = snapshots.map((snapshot) => ({ ...snapshot, chain_id: getChainId() }))
+    const { error } = await supabase
+      .from("holder_snapshots")
+      .upsert(rows, { onConflict: "token_address,block_number" })
+
+    if (error) {
+      console.error("❌ Error saving holder snapshots:", error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in saveHolderSnapshots:", error)
+    return false
+  }
+}
+
+// Holder count and concentration over time, newest first
+export async function getHolderSnapshots(tokenAddress: string, limit = 100): Promise<HolderSnapshotRow[]> {
+  try {
+    const { data, error } = await supabase
+      .from("holder_snapshots")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .eq("token_address", tokenAddress.toLowerCase())
+      .order("block_number", { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error("❌ Error fetching holder snapshots:", error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in getHolderSnapshots:", error)
+    return []
+  }
+}
+
+// Sniper detection. Addresses in token_snipers are stored lowercase.
+
+// Store the snipers of a launch and their summary on the token; rows are unique per token and wallet,
+// so recomputing a launch only updates them
+export async function saveTokenSnipers(
+  tokenAddress: string,
+  snipers: TokenSniperInsert[],
+  summary: { sniperCount: number; snipedPercentage: number },
+): Promise<boolean> {
+  try {
+    if (snipers.length > 0) {
+      const rows = snipers.map((sniper) => ({ ...sniper, chain_id: getChainId() }))
+      const { error } = await supabase
+        .from("token_snipers")
+        .upsert(rows, { onConflict: "token_address,wallet_address" })
+
+      if (error) {
+        console.error("❌ Error saving token snipers:", error)
+        return false
+      }
+    }
+
+    const { error: tokenError } = await supabase
+      .from("tokens")
+      .update({ sniper_count: summary.sniperCount, sniped_percentage: summary.snipedPercentage })
+      .eq("chain_id", getChainId())
+      .in("address", [tokenAddress, tokenAddress.toLowerCase()])
+
+    if (tokenError) {
+      console.error("❌ Error saving sniper summary:", tokenError)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in saveTokenSnipers:", error)
+    return false
+  }
+}
+
+// Snipers of one launch, largest share first
+export async function getTokenSnipers(tokenAddress: string): Promise<TokenSniperRow[]> {
+  try {
+    const { data, error } = await supabase
+      .from("token_snipers")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .eq("token_address", tokenAddress.toLowerCase())
+      .order("percentage", { ascending: false })
+
+    if (error) {
+      console.error("❌ Error fetching token snipers:", error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in getTokenSnipers:", error)
+    return []
+  }
+}
+
+// How many launches each wallet sniped, from the sniper_wallets view
+export async function getSniperLaunchCounts(wallets: string[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>()
+  if (wallets.length === 0) return counts
+
+  try {
+    const addresses = [...new Set(wallets.map((wallet) => wallet.toLowerCase()))]
+    for (let i = 0; i < addresses.length; i += ADDRESS_FILTER_CHUNK) {
+      const { data, error } = await supabase
+        .from("sniper_wallets")
+        .select("wallet_address, launches_sniped")
+        .eq("chain_id", getChainId())
+        .in("wallet_address", addresses.slice(i, i + ADDRESS_FILTER_CHUNK))
+
+      if (error) {
+        console.error("❌ Error fetching sniper wallets:", error)
+        return counts
+      }
+
+      for (const row of (data || []) as { wallet_address: string; launches_sniped: number }[]) {
+        counts.set(row.wallet_address, row.launches_sniped)
+      }
+    }
+
+    return counts
+  } catch (error) {
+    console.error("❌ Error in getSniperLaunchCounts:", error)
+    return counts
+  }
+}
+
+// Creator fee earnings
+
+// Tokens with curve trades stored inside a block range, or null when they can't be read
+export async function getTradedTokensInRange(fromBlock: bigint, toBlock: bigint): Promise<string[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from("trades")
+      .select("token_address")
+      .eq("chain_id", getChainId())
+      .gte("block_number", Number(fromBlock))
+      .lte("block_number", Number(toBlock))
+
+    if (error) {
+      console.error("❌ Error fetching traded tokens:", error)
+      return null
+    }
+
+    return [...new Set((data || []).map((row) => row.token_address))]
+  } catch (error) {
+    console.error("❌ Error in getTradedTokensInRange:", error)
+    return null
+  }
+}
+
+export async function saveTokenCreatorFees(
+  tokenAddress: string,
+  fees: { feesEarned: string | null; volume: string | null },
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("tokens")
+      .update({ creator_fees_earned: fees.feesEarned, creator_fee_volume: fees.volume })
+      .eq("chain_id", getChainId())
+      .in("address", [tokenAddress, tokenAddress.toLowerCase()])
+
+    if (error) {
+      console.error("❌ Error saving creator fees:", error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in saveTokenCreatorFees:", error)
+    return false
+  }
+}
+
+// Fees earned on each of a creator's launches, or null when they can't be read
+export async function getCreatorTokenFees(creatorAddress: string): Promise<string[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from("tokens")
+      .select("creator_fees_earned")
+      .eq("chain_id", getChainId())
+      .ilike("creator_address", creatorAddress)
+      .not("creator_fees_earned", "is", null)
+
+    if (error) {
+      console.error("❌ Error fetching creator token fees:", error)
+      return null
+    }
+
+    return (data || []).map((row) => row.creator_fees_earned as string)
+  } catch (error) {
+    console.error("❌ Error in getCreatorTokenFees:", error)
+    return null
+  }
+}
+
+// Creator activity after launch (sells, transfers out, LP removals). Addresses are stored lowercase.
+
+// Transfers and large liquidity burns the indexers stored for a block range, for the creator activity detector
+export async function getTokenTransfersInRange(fromBlock: bigint, toBlock: bigint): Promise<TokenTransferRow[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from("token_transfers")
+      .select("id, token_address, transaction_hash, log_index, from_address, to_address, value::text, block_number")
+      .eq("chain_id", getChainId())
+      .gte("block_number", Number(fromBlock))
+      .lte("block_number", Number(toBlock))
+      .order("block_number", { ascending: true })
+
+    if (error) {
+      console.error("❌ Error fetching token transfers:", error)
+      return null
+    }
+
+    return (data || []) as unknown as TokenTransferRow[]
+  } catch (error) {
+    console.error("❌ Error in getTokenTransfersInRange:", error)
+    return null
+  }
+}
+
+export async function getLiquidityRemovalsInRange(
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<LiquidityRemovalRow[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from("liquidity_removals")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .gte("block_number", Number(fromBlock))
+      .lte("block_number", Number(toBlock))
+
+    if (error) {
+      console.error("❌ Error fetching liquidity removals:", error)
+      return null
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in getLiquidityRemovalsInRange:", error)
+    return null
+  }
+}
+
+// Insert events and return only the ones that were not stored yet, or null when the insert failed
+export async function saveCreatorEvents(events: CreatorEventInsert[]): Promise<CreatorEventRow[] | null> {
+  if (events.length === 0) return []
+
+  try {
+    const rows = events.map((event) => ({ ...event, chain_id: getChainId() }))
+    const { data, error } = await supabase
+      .from("creator_events")
+      .upsert(rows, { onConflict: "transaction_hash,log_index", ignoreDuplicates: true })
+      .select("*")
+
+    if (error) {
+      console.error("❌ Error saving creator events:", error)
+      return null
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in saveCreatorEvents:", error)
+    return null
+  }
+}
+
+export async function getCreatorEvents(creatorAddress: string): Promise<CreatorEventRow[]> {
+  try {
+    const { data, error } = await supabase
+      .from("creator_events")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .eq("creator_address", creatorAddress.toLowerCase())
+      .order("block_number", { ascending: false })
+
+    if (error) {
+      console.error("❌ Error fetching creator events:", error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in getCreatorEvents:", error)
+    return []
+  }
+}
+
+// Creator events that still need an alert, up to the given (confirmed) block
+export async function getPendingCreatorEventAlerts(maxBlock: bigint): Promise<CreatorEventRow[]> {
+  try {
+    const { data, error } = await supabase
+      .from("creator_events")
+      .select("*")
+      .eq("chain_id", getChainId())
+      .eq("alert_sent", false)
+      .lte("block_number", Number(maxBlock))
+      .order("block_number", { ascending: true })
+
+    if (error) {
+      console.error("❌ Error fetching pending creator event alerts:", error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in getPendingCreatorEventAlerts:", error)
+    return []
+  }
+}
+
+export async function markCreatorEventAlertSent(eventId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase.from("creator_events").update({ alert_sent: true }).eq("id", eventId)
+
+    if (error) {
+      console.error("❌ Error marking creator event alert as sent:", error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error("❌ Error in markCreatorEventAlertSent:", error)
+    return false
+  }
+}
+
+// Delete events above a block and return them, so the rug history of their creators can be recomputed
+export async function deleteCreatorEventsAfter(blockNumber: bigint): Promise<CreatorEventRow[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from("creator_events")
+      .delete()
+      .eq("chain_id", getChainId())
+      .gt("block_number", Number(blockNumber))
+      .select("*")
+
+    if (error) {
+      console.error("❌ Error deleting orphaned creator events:", error)
+      return null
+    }
+
+    return data || []
+  } catch (error) {
+    console.error("❌ Error in deleteCreatorEventsAfter:", error)
+    return null
+  }
+}
+
+// Analytics functions
+export async function getTokenStats(): Promise<{
+  total: number
+  last24h: number
+  last7d: number
+  avgSupply: number
+}> {
+  try {
+    const now = new Date()
+    const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000)
+    const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+
+    // Get total count
+    const { count: total } = await supabase
+      .from("tokens")
+      .select("*", { count: "exact", head: true })
+      .eq("chain_id", getChainId())
+
+    // Get 24h count
+    const { count: last24h } = await supabase
+      .from("tokens")
+      .select("*", { count: "exact", head: true })
+      .eq("chain_id", getChainId())
+      .gte("timestamp", oneDayAgo.toISOString())
+
+    // Get 7d count
+    const { count: last7d } = await supabase
+      .from("tokens")
+      .select("*", { count: "exact", head: true })
+      .eq("chain_id", getChainId())
+      .gte("timestamp", oneWeekAgo.toISOString())
+
+    // Get average supply
+    const { data: avgData } = await supabase
+      .from("tokens")
+      .select("total_supply")
+      .eq("chain_id", getChainId())
+      .not("total_supply", "is", null)
 
     const avgSupply =
       avgData && avgData.length > 0
@@ -286,10 +1475,14 @@ export async function saveCompleteTokenCreation(
         name: transaction.tokenMetadata.name,
         symbol: transaction.tokenMetadata.symbol,
         totalSupply: transaction.tokenMetadata.totalSupply,
+        decimals: transaction.tokenMetadata.decimals,
         timestamp: transaction.timestamp,
         blockNumber: transaction.blockNumber,
         hash: transaction.hash,
         isPending: false,
+        tokenId: transaction.tokenId,
+        contractAddress: transaction.contractAddress,
+        launchParams: transaction.launchParams,
       }
 
       if (tokenData.address) {
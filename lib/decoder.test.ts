@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { decodeArenaEvent, decodeTokenCreationData, TOKEN_CREATED_EVENT, TRANSFER_EVENT } from './decoder'
+import { encodeAbiParameters, encodeEventTopics } from 'viem'
+
+// Helper to build transaction input
+function buildInput(methodId: string, params: any[], types: {name:string,type:string}[]) {
+  const encoded = encodeAbiParameters(types, params)
+  return methodId + encoded.slice(2)
+}
+
+describe('decodeTokenCreationData', () => {
+  it('decodes original token creation format', () => {
+    const methodId = '0x0b8c6fec'
+    const types = [
+      { name: 'name', type: 'string' },
+      { name: 'symbol', type: 'string' },
+      { name: 'totalSupply', type: 'uint256' },
+      { name: 'taxPercentage', type: 'uint256' },
+    ]
+    const params = ['My Token', 'MYT', 1000n, 10n]
+    const input = buildInput(methodId, params, types)
+    const result = decodeTokenCreationData(methodId, input)
+    expect(result).toEqual({ name: 'My Token', symbol: 'MYT', totalSupply: '1000' })
+  })
+
+  it('decodes new token creation format', () => {
+    const methodId = '0x30f51a46'
+    const types = [
+      { name: 'param1', type: 'uint16' },
+      { name: 'param2', type: 'uint8' },
+      { name: 'param3', type: 'uint128' },
+      { name: 'param4', type: 'uint8' },
+      { name: 'creator', type: 'address' },
+      { name: 'param6', type: 'uint256' },
+      { name: 'name', type: 'string' },
+      { name: 'symbol', type: 'string' },
+      { name: 'totalSupply', type: 'uint256' },
+    ]
+    const params = [1n, 2n, 3n, 4n, '0x1111111111111111111111111111111111111111', 5n, 'New Token', 'NTK', 5000n]
+    const input = buildInput(methodId, params, types)
+    const result = decodeTokenCreationData(methodId, input)
+    expect(result).toEqual({ name: 'New Token', symbol: 'NTK', totalSupply: '5000', creator: '0x1111111111111111111111111111111111111111' })
+  })
+
+  it('returns null for unknown method', () => {
+    const result = decodeTokenCreationData('0xdeadbeef', '0x')
+    expect(result).toBeNull()
+  })
+})
+
+
+describe('decodeArenaEvent', () => {
+  const TOKEN = '0x2222222222222222222222222222222222222222' as const
+  const CREATOR = '0x1111111111111111111111111111111111111111' as const
+  const PAIR = '0x3333333333333333333333333333333333333333' as const
+
+  it('decodes the TokenCreated event the Arena contract emits', () => {
+    const params = {
+      curveScaler: 41000000000n,
+      a: 677,
+      b: 0,
+      lpDeployed: false,
+      lpPercentage: 27,
+      salePercentage: 73,
+      creatorFeeBasisPoints: 0,
+      creatorAddress: CREATOR,
+      pairAddress: PAIR,
+      tokenContractAddress: TOKEN,
+    }
+    const log = {
+      topics: encodeEventTopics({ abi: [TOKEN_CREATED_EVENT] }) as [`0x${string}`],
+      data: encodeAbiParameters(TOKEN_CREATED_EVENT.inputs, [7n, params, 10000n]),
+    }
+
+    expect(decodeArenaEvent(log)).toEqual({
+      eventName: 'TokenCreated',
+      args: {
+        tokenId: '7',
+        tokenAddress: TOKEN,
+        creator: CREATOR,
+        totalSupply: '10000',
+        launchParams: {
+          curveScaler: '41000000000',
+          a: 677,
+          b: 0,
+          lpDeployed: false,
+          lpPercentage: 27,
+          salePercentage: 73,
+          creatorFeeBasisPoints: 0,
+          pairAddress: PAIR,
+        },
+      },
+    })
+  })
+
+  it('decodes ERC-20 transfers', () => {
+    const log = {
+      topics: encodeEventTopics({ abi: [TRANSFER_EVENT], args: { from: CREATOR, to: TOKEN } }) as [`0x${string}`],
+      data: encodeAbiParameters([{ type: 'uint256' }], [25n]),
+    }
+
+    expect(decodeArenaEvent(log)).toEqual({ eventName: 'Transfer', args: { from: CREATOR, to: TOKEN, value: '25' } })
+  })
+
+  it('returns null for other events', () => {
+    const log = { topics: ['0x' + 'ab'.repeat(32)] as [`0x${string}`], data: '0x' as const }
+    expect(decodeArenaEvent(log)).toBeNull()
+  })
+})
@@ -0,0 +1,183 @@
+import {
+  decodeEventLog,
+  parseAbiItem,
+  zeroAddress,
+  type AbiEvent,
+  type Address,
+  type GetLogsReturnType,
+  type Hex,
+  type Log,
+} from "viem"
+import type { TokenLaunchParams, TokenMetadata } from "./blockchain"
+import { decodeMethodCall, lookupMethod } from "./method-registry"
+
+// Calldata and event decoding shared by the live monitor, the indexers and the Transaction Analyzer, so they
+// all agree on what a launch looks like.
+
+// ABI for the TokenCreated event - Updated structure
+export const TOKEN_CREATED_EVENT = parseAbiItem(
+  "event TokenCreated(uint256 tokenId, (uint128 curveScaler, uint16 a, uint8 b, bool lpDeployed, uint8 lpPercentage, uint8 salePercentage, uint8 creatorFeeBasisPoints, address creatorAddress, address pairAddress, address tokenContractAddress) params, uint256 tokenSupply)",
+)
+
+export const TRANSFER_EVENT = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)")
+
+export type TokenCreatedLog = GetLogsReturnType<typeof TOKEN_CREATED_EVENT>[number]
+
+type TokenCreatedParams = NonNullable<TokenCreatedLog["args"]["params"]>
+
+// What a TokenCreated event says about a launch
+export interface TokenCreation {
+  tokenId: string
+  tokenAddress: string
+  creator: string
+  totalSupply: string
+  launchParams?: TokenLaunchParams // Missing for launchpads whose event carries no curve params
+}
+
+export type DecodedEvent =
+  | { eventName: "TokenCreated"; args: TokenCreation }
+  | { eventName: "Transfer"; args: { from: string; to: string; value: string } }
+
+// Read a raw Arena launch log as a TokenCreated log, or null when it's something else. This is the arena
+// kind's decoder in the launchpad registry (lib/contracts.ts).
+export function decodeTokenCreatedLog(log: Log): TokenCreatedLog | null {
+  try {
+    const { args } = decodeEventLog({
+      abi: [TOKEN_CREATED_EVENT],
+      eventName: "TokenCreated",
+      data: log.data,
+      topics: log.topics,
+    })
+    return { ...log, eventName: "TokenCreated", args } as TokenCreatedLog
+  } catch {
+    return null
+  }
+}
+
+// Input names of a launch event given in config (the generic launchpad kind) that carry the launch's fields
+export interface LaunchEventFields {
+  token: string
+  creator: string
+  pair?: string
+  supply?: string
+  tokenId?: string
+}
+
+// Decoder for a launch event given in config, reading it into the TokenCreated shape. Such events carry no
+// curve params, so those are left zero; a zero curve scaler marks them unknown (see extractLaunchParams).
+export function createLaunchEventDecoder(event: AbiEvent, fields: LaunchEventFields) {
+  return (log: Log): TokenCreatedLog | null => {
+    try {
+      const { args } = decodeEventLog({ abi: [event], data: log.data, topics: log.topics })
+      const values = (args ?? {}) as Record<string, unknown>
+      const read = (name: string | undefined, type: "string" | "bigint") =>
+        name !== undefined && typeof values[name] === type ? values[name] : undefined
+      const address = (name?: string) => read(name, "string") as Address | undefined
+      const amount = (name?: string) => read(name, "bigint") as bigint | undefined
+
+      const token = address(fields.token)
+      const creator = address(fields.creator)
+      if (!token || !creator) return null
+
+      const params: TokenCreatedParams = {
+        curveScaler: BigInt(0),
+        a: 0,
+        b: 0,
+        lpDeployed: false,
+        lpPercentage: 0,
+        salePercentage: 0,
+        creatorFeeBasisPoints: 0,
+        creatorAddress: creator,
+        pairAddress: address(fields.pair) ?? zeroAddress,
+        tokenContractAddress: token,
+      }
+      const tokenCreated = { tokenId: amount(fields.tokenId) ?? BigInt(0), params, tokenSupply: amount(fields.supply) }
+      return { ...log, eventName: "TokenCreated", args: tokenCreated } as TokenCreatedLog
+    } catch {
+      return null
+    }
+  }
+}
+
+// Read the full params tuple from a TokenCreated log
+export function launchParamsFromTuple(params: TokenCreatedParams): TokenLaunchParams {
+  return {
+    curveScaler: params.curveScaler.toString(),
+    a: params.a,
+    b: params.b,
+    lpDeployed: params.lpDeployed,
+    lpPercentage: params.lpPercentage,
+    salePercentage: params.salePercentage,
+    creatorFeeBasisPoints: params.creatorFeeBasisPoints,
+    pairAddress: params.pairAddress,
+  }
+}
+
+export function extractLaunchParams(log: TokenCreatedLog): TokenLaunchParams | undefined {
+  const params = log.args.params
+  if (!params || params.curveScaler === BigInt(0)) return undefined
+
+  return launchParamsFromTuple(params)
+}
+
+// Decode token creation data from transaction input. Works for every create method in the selector registry;
+// the creator is only returned by the formats that take it as an argument.
+export function decodeTokenCreationData(methodId: string, input: string): TokenMetadata | null {
+  if (lookupMethod(methodId)?.type !== "TOKEN_CREATION") return null
+
+  const decoded = decodeMethodCall(input)
+  if (!decoded) return null
+
+  const { name, symbol, totalSupply, creator } = decoded.args
+  if (typeof name !== "string" || typeof symbol !== "string" || typeof totalSupply !== "bigint") return null
+
+  return {
+    name,
+    symbol,
+    totalSupply: totalSupply.toString(),
+    ...(typeof creator === "string" && { creator }),
+  }
+}
+
+// What a launch log says about the launch, whichever launchpad kind decoded it
+export function tokenCreationFromLog(log: TokenCreatedLog): TokenCreation | null {
+  const params = log.args.params
+  if (!params) return null
+
+  return {
+    tokenId: (log.args.tokenId ?? BigInt(0)).toString(),
+    tokenAddress: params.tokenContractAddress,
+    creator: params.creatorAddress,
+    totalSupply: (log.args.tokenSupply ?? BigInt(0)).toString(),
+    launchParams: extractLaunchParams(log),
+  }
+}
+
+// Decode a receipt log as one of the events we know, or null for anything else
+export function decodeArenaEvent(log: { data: Hex; topics: [Hex, ...Hex[]] | [] }): DecodedEvent | null {
+  try {
+    const decoded = decodeEventLog({ abi: [TOKEN_CREATED_EVENT, TRANSFER_EVENT], data: log.data, topics: log.topics })
+
+    if (decoded.eventName === "TokenCreated") {
+      const { tokenId, params, tokenSupply } = decoded.args
+      return {
+        eventName: "TokenCreated",
+        args: {
+          tokenId: tokenId.toString(),
+          tokenAddress: params.tokenContractAddress,
+          creator: params.creatorAddress,
+          totalSupply: tokenSupply.toString(),
+          launchParams: launchParamsFromTuple(params),
+        },
+      }
+    }
+
+    return {
+      eventName: "Transfer",
+      args: { from: decoded.args.from, to: decoded.args.to, value: decoded.args.value.toString() },
+    }
+  } catch {
+    // Not an event we know
+    return null
+  }
+}
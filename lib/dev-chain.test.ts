@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { toEventSelector, type Hex } from 'viem'
+import { TOKEN_CREATED_EVENT, decodeArenaEvent } from './decoder'
+import { encodeTokenCreatedData, getMockLaunchpadBytecode, mockAddress } from './dev-chain'
+
+describe('mock launchpad', () => {
+  it('logs the TokenCreated topic from a 44 byte runtime', () => {
+    const bytecode = getMockLaunchpadBytecode()
+    const runtime = bytecode.slice(2 + 11 * 2)
+
+    expect(runtime.length / 2).toBe(0x2c)
+    expect(runtime).toContain(toEventSelector(TOKEN_CREATED_EVENT).slice(2))
+  })
+
+  it('encodes launches the shared decoder reads back', () => {
+    const creator = mockAddress('creator')
+    const data = encodeTokenCreatedData({
+      tokenId: BigInt(3),
+      tokenAddress: mockAddress('token-3'),
+      creator,
+      pairAddress: mockAddress('pair-3'),
+      totalSupply: BigInt(1000),
+    })
+
+    const decoded = decodeArenaEvent({ data, topics: [toEventSelector(TOKEN_CREATED_EVENT) as Hex] })
+    expect(decoded).toMatchObject({
+      eventName: 'TokenCreated',
+      args: { tokenId: '3', tokenAddress: mockAddress('token-3'), creator, totalSupply: '1000' },
+    })
+  })
+})
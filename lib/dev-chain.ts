@@ -0,0 +1,104 @@
+import {
+  createWalletClient,
+  custom,
+  encodeAbiParameters,
+  getAddress,
+  keccak256,
+  toEventSelector,
+  toHex,
+  type Address,
+  type Hash,
+  type Hex,
+} from "viem"
+import { rpcClient } from "./rpc-provider"
+import { getChainProfile } from "./chains"
+import { TOKEN_CREATED_EVENT } from "./decoder"
+
+// Mock launch contract for the local dev chain. It emits a TokenCreated event with whatever data it is called
+// with, so the monitor, indexers and dashboard can run end to end against launches we make up.
+// Hand-assembled (the repo has no Solidity toolchain):
+//   runtime: CALLDATACOPY(0, 0, calldatasize) LOG1(0, calldatasize, TokenCreated topic) STOP
+//   init:    CODECOPY(0, 11, 44) RETURN(0, 44)
+
+export interface MockLaunch {
+  tokenId: bigint
+  tokenAddress: Address
+  creator: Address
+  pairAddress: Address
+  totalSupply: bigint
+  curveScaler?: bigint
+  a?: number
+  b?: number
+  lpPercentage?: number
+  salePercentage?: number
+  creatorFeeBasisPoints?: number
+}
+
+export function getMockLaunchpadBytecode(): Hex {
+  const topic = toEventSelector(TOKEN_CREATED_EVENT).slice(2)
+  const runtime = `366000600037` + `7f${topic}` + `366000a100`
+  const init = `602c80600b6000396000f3`
+  return `0x${init}${runtime}`
+}
+
+// Calldata for the mock contract: the ABI encoded TokenCreated fields, which it logs as they are
+export function encodeTokenCreatedData(launch: MockLaunch): Hex {
+  return encodeAbiParameters(TOKEN_CREATED_EVENT.inputs, [
+    launch.tokenId,
+    {
+      curveScaler: launch.curveScaler ?? BigInt(41000000000),
+      a: launch.a ?? 677,
+      b: launch.b ?? 0,
+      lpDeployed: false,
+      lpPercentage: launch.lpPercentage ?? 27,
+      salePercentage: launch.salePercentage ?? 73,
+      creatorFeeBasisPoints: launch.creatorFeeBasisPoints ?? 0,
+      creatorAddress: launch.creator,
+      pairAddress: launch.pairAddress,
+      tokenContractAddress: launch.tokenAddress,
+    },
+    launch.totalSupply,
+  ])
+}
+
+// Made-up but stable addresses, so repeated runs produce the same launches
+export function mockAddress(label: string): Address {
+  return getAddress(`0x${keccak256(toHex(label)).slice(-40)}`)
+}
+
+function getWalletClient() {
+  const { chain, id } = getChainProfile()
+  if (id !== "local") {
+    throw new Error(`Mock launches only run on the local dev chain, NEXT_PUBLIC_CHAIN is "${id}"`)
+  }
+
+  // Sent through the shared RPC client; the dev node signs for its own unlocked accounts
+  return createWalletClient({ chain, transport: custom({ request: (args) => rpcClient.request(args) }) })
+}
+
+// First unlocked account of the dev node, which sends the mock transactions
+export async function getDevAccount(): Promise<Address> {
+  const [account] = await getWalletClient().getAddresses()
+  if (!account) throw new Error("The dev node has no unlocked accounts")
+  return account
+}
+
+export async function deployMockLaunchpad(): Promise<Address> {
+  const wallet = getWalletClient()
+  const account = await getDevAccount()
+
+  const hash = await wallet.sendTransaction({ account, to: null, data: getMockLaunchpadBytecode() })
+  const receipt = await rpcClient.waitForTransactionReceipt({ hash })
+  if (!receipt.contractAddress) throw new Error(`Mock launchpad deployment ${hash} created no contract`)
+
+  return receipt.contractAddress
+}
+
+export async function emitMockLaunch(launchpad: Address, launch: MockLaunch): Promise<Hash> {
+  const wallet = getWalletClient()
+  const account = await getDevAccount()
+
+  const hash = await wallet.sendTransaction({ account, to: launchpad, data: encodeTokenCreatedData(launch) })
+  await rpcClient.waitForTransactionReceipt({ hash })
+  return hash
+}
@@ -1,3 +1,10 @@
+import { getApiUrl } from "./utils"
+import type { CurveQuote } from "./bonding-curve"
+import type { GraduationAlert } from "./graduation"
+import type { HolderStats } from "./holders"
+import type { RugAlert } from "./rug-detector"
+import type { SniperStats } from "./snipers"
+
 // Helper function to post to Discord
 export async function postToDiscordChannels(
   username: string,
@@ -7,11 +14,14 @@ export async function postToDiscordChannels(
   isChampion: boolean,
   arenaProfile: any,
   contractAddress?: string,
+  priceQuote?: CurveQuote | null,
+  holderStats?: HolderStats | null,
+  sniperStats?: SniperStats | null,
 ): Promise<boolean> {
   try {
     console.log(`🎮 Posting to Discord for @${username} - ${tokenSymbol}`)
 
-    const response = await fetch("/api/discord-post", {
+    const response = await fetch(getApiUrl("/api/discord-post"), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -24,6 +34,9 @@ export async function postToDiscordChannels(
         isChampion,
         arenaProfile,
         contractAddress,
+        priceQuote,
+        holderStats,
+        sniperStats,
       }),
     })
 
@@ -51,6 +64,9 @@ export async function postToDiscordWithRetry(
   isChampion: boolean,
   arenaProfile: any,
   contractAddress?: string,
+  priceQuote?: CurveQuote | null,
+  holderStats?: HolderStats | null,
+  sniperStats?: SniperStats | null,
   maxRetries = 2,
 ): Promise<boolean> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -64,6 +80,9 @@ export async function postToDiscordWithRetry(
       isChampion,
       arenaProfile,
       contractAddress,
+      priceQuote,
+      holderStats,
+      sniperStats,
     )
 
     if (success) {
@@ -80,3 +99,89 @@ export async function postToDiscordWithRetry(
   console.error(`❌ All Discord post attempts failed for @${username}`)
   return false
 }
+
+// Graduation alert for a launch whose liquidity pool was just deployed
+export async function postGraduationToDiscord(alert: GraduationAlert): Promise<boolean> {
+  try {
+    console.log(`🎮 Posting graduation to Discord for ${alert.tokenSymbol}`)
+
+    const response = await fetch(getApiUrl("/api/discord-post"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ alertType: "graduation", ...alert }),
+    })
+
+    if (response.ok) {
+      const result = await response.json()
+      console.log(`✅ Discord graduation post successful: ${result.channel} channel`)
+      return true
+    } else {
+      const error = await response.text().catch(() => "Unknown error")
+      console.error(`❌ Discord graduation post failed: ${response.status} - ${error}`)
+      return false
+    }
+  } catch (error) {
+    console.error("❌ Error posting graduation to Discord:", error)
+    return false
+  }
+}
+
+export async function postGraduationToDiscordWithRetry(alert: GraduationAlert, maxRetries = 2): Promise<boolean> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    if (await postGraduationToDiscord(alert)) {
+      return true
+    }
+
+    if (attempt < maxRetries) {
+      await new Promise((resolve) => setTimeout(resolve, attempt * 1000))
+    }
+  }
+
+  console.error(`❌ All Discord graduation post attempts failed for ${alert.tokenSymbol}`)
+  return false
+}
+
+// Warning about a creator selling, moving tokens out of or pulling liquidity from its own launch
+export async function postRugAlertToDiscord(alert: RugAlert): Promise<boolean> {
+  try {
+    console.log(`🎮 Posting rug alert to Discord for ${alert.tokenSymbol}`)
+
+    const response = await fetch(getApiUrl("/api/discord-post"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ alertType: "rug", ...alert }),
+    })
+
+    if (response.ok) {
+      const result = await response.json()
+      console.log(`✅ Discord rug alert successful: ${result.channel} channel`)
+      return true
+    } else {
+      const error = await response.text().catch(() => "Unknown error")
+      console.error(`❌ Discord rug alert failed: ${response.status} - ${error}`)
+      return false
+    }
+  } catch (error) {
+    console.error("❌ Error posting rug alert to Discord:", error)
+    return false
+  }
+}
+
+export async function postRugAlertToDiscordWithRetry(alert: RugAlert, maxRetries = 2): Promise<boolean> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    if (await postRugAlertToDiscord(alert)) {
+      return true
+    }
+
+    if (attempt < maxRetries) {
+      await new Promise((resolve) => setTimeout(resolve, attempt * 1000))
+    }
+  }
+
+  console.error(`❌ All Discord rug alert attempts failed for ${alert.tokenSymbol}`)
+  return false
+}
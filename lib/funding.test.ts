@@ -0,0 +1,87 @@
+import { afterEach, describe, it, expect } from 'vitest'
+import { clusterWallets, findFirstFunding, getLinkingFunders, type FundingHop } from './funding'
+import { setRpcHandler } from './rpc-provider'
+
+const address = (digit: string) => `0x${digit.repeat(40)}`
+const [ALICE, BOB, CAROL, DAVE, FUNDER, EXCHANGE] = ['1', '2', '3', '4', 'a', 'e'].map(address)
+
+const hop = (wallet: string, funder: string | null, funderIsHub = false): FundingHop => ({
+  wallet,
+  funder,
+  transactionHash: null,
+  blockNumber: 1,
+  value: '1',
+  funderIsHub,
+})
+
+describe('creator funding clusters', () => {
+  it('leaves hubs and internal transfers out of the linking funders', () => {
+    expect(getLinkingFunders([hop(ALICE, FUNDER), hop(FUNDER, EXCHANGE, true)])).toEqual([FUNDER])
+    expect(getLinkingFunders([hop(ALICE, null)])).toEqual([])
+  })
+
+  it('groups wallets with a shared funder or funded by another creator', () => {
+    const clusters = clusterWallets([
+      { wallet: ALICE, funders: [FUNDER] },
+      { wallet: BOB, funders: [FUNDER] },
+      { wallet: CAROL, funders: [BOB] },
+      { wallet: DAVE, funders: [] },
+    ])
+
+    expect(clusters).toEqual([{ id: FUNDER, wallets: [ALICE, BOB, CAROL], funders: [FUNDER, BOB].sort() }])
+  })
+
+  it('does not cluster wallets whose funders differ', () => {
+    expect(clusterWallets([
+      { wallet: ALICE, funders: [FUNDER] },
+      { wallet: BOB, funders: [EXCHANGE] },
+    ])).toEqual([])
+  })
+})
+
+describe('findFirstFunding', () => {
+  afterEach(() => setRpcHandler(null))
+
+  // A wallet funded by FUNDER in block 40 that sent its first transaction in block 45 and spent everything by
+  // block 48, before the middle of the chain
+  const HEAD = 100
+  const block = (params: unknown) => Number(BigInt((params as string[])[1] ?? HEAD))
+  const node = async ({ method, params }: { method: string; params?: unknown }) => {
+    switch (method) {
+      case 'eth_blockNumber':
+        return `0x${HEAD.toString(16)}`
+      case 'eth_getBalance': {
+        const [wallet] = params as string[]
+        const number = block(params)
+        return wallet.toLowerCase() === ALICE && number >= 40 && number < 48 ? '0x64' : '0x0'
+      }
+      case 'eth_getTransactionCount': {
+        const [wallet] = params as string[]
+        if (wallet.toLowerCase() === FUNDER) return '0x5'
+        return wallet.toLowerCase() === ALICE && block(params) >= 45 ? '0x1' : '0x0'
+      }
+      case 'eth_getBlockByNumber': {
+        const number = Number(BigInt((params as string[])[0]))
+        const transactions =
+          number === 40
+            ? [{ hash: `0x${'f'.repeat(64)}`, from: FUNDER, to: ALICE, value: '0x64', blockNumber: '0x28' }]
+            : []
+        return { number: `0x${number.toString(16)}`, hash: `0x${'b'.repeat(64)}`, transactions }
+      }
+      default:
+        throw new Error(`Unexpected ${method}`)
+    }
+  }
+
+  it('finds the funding of a wallet that has spent everything since', async () => {
+    setRpcHandler(node)
+
+    expect(await findFirstFunding(ALICE)).toMatchObject({ funder: FUNDER, blockNumber: 40, value: '100' })
+  })
+
+  it('finds nothing for a wallet that never held AVAX', async () => {
+    setRpcHandler(node)
+
+    expect(await findFirstFunding(BOB)).toBeNull()
+  })
+})
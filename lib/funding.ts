@@ -0,0 +1,382 @@
+import type { Address, Hash } from "viem"
+import { getChainId } from "./chains"
+import { rpcClient as client } from "./rpc-provider"
+import { supabase } from "./supabase"
+
+// Where creator wallets got their first AVAX. Someone rotating through fresh wallets usually funds them all
+// from the same place, so creators that share a funder within a few hops are grouped into one cluster and
+// counted together as a serial creator.
+//
+// There's no transfer index over plain RPC: the first funding block is found by binary searching the wallet's
+// historical nonce and balance, which needs an archive node. Without one the trace fails and creators stay unclustered.
+
+const DEFAULT_HOPS = Number(process.env.FUNDING_TRACE_HOPS || 2)
+// Funders with this many sent transactions are exchanges, bridges or faucets: they fund everyone, so they
+// neither link wallets nor get traced further
+const HUB_TX_COUNT = Number(process.env.FUNDING_HUB_TX_COUNT || 1000)
+
+export interface FundingHop {
+  wallet: string
+  funder: string | null // Null when the AVAX arrived through an internal transfer
+  transactionHash: string | null
+  blockNumber: number
+  value: string // Wei
+  funderIsHub: boolean
+}
+
+export interface FundingTrace {
+  wallet: string
+  path: FundingHop[] // Nearest funder first
+  funders: string[] // Funders that link wallets (hubs left out)
+}
+
+export interface CreatorCluster {
+  id: string
+  wallets: string[]
+  funders: string[] // Shared funders that tie the wallets together
+}
+
+// Lowest block up to `high` where a check holds, for checks that stay true once they are. `high` itself isn't
+// checked, so it's returned when nothing below it passes.
+async function searchFirstBlock(high: bigint, check: (blockNumber: bigint) => Promise<boolean>): Promise<bigint> {
+  let low = BigInt(0)
+  while (low < high) {
+    const middle = (low + high) / BigInt(2)
+    if (await check(middle)) high = middle
+    else low = middle + BigInt(1)
+  }
+  return low
+}
+
+// First block at which the wallet held any AVAX. Its balance can drop back to zero once it spends, so the
+// balance is only searched below its first sent transaction, found from the nonce, which never goes down.
+async function findFirstFundedBlock(wallet: Address, latest: bigint): Promise<bigint | null> {
+  const hasBalance = async (blockNumber: bigint) =>
+    (await client.getBalance({ address: wallet, blockNumber })) > BigInt(0)
+
+  if ((await client.getTransactionCount({ address: wallet, blockNumber: latest })) === 0) {
+    // Never sent anything, so it could only receive and its balance only grew
+    if (!(await hasBalance(latest))) return null
+    return searchFirstBlock(latest, hasBalance)
+  }
+
+  const firstSent = await searchFirstBlock(
+    latest,
+    async (blockNumber) => (await client.getTransactionCount({ address: wallet, blockNumber })) > 0,
+  )
+  // Funded in the same block it first sent from
+  if (firstSent === BigInt(0) || !(await hasBalance(firstSent - BigInt(1)))) return firstSent
+
+  return searchFirstBlock(firstSent - BigInt(1), hasBalance)
+}
+
+// The AVAX transfer that first funded the wallet
+export async function findFirstFunding(wallet: string): Promise<FundingHop | null> {
+  const latest = await client.getBlockNumber()
+  const blockNumber = await findFirstFundedBlock(wallet as Address, latest)
+  if (blockNumber === null) return null
+
+  const block = await client.getBlock({ blockNumber, includeTransactions: true })
+  const funding = block.transactions.find(
+    (tx) => tx.to?.toLowerCase() === wallet.toLowerCase() && tx.value > BigInt(0),
+  )
+
+  if (!funding) {
+    return {
+      wallet,
+      funder: null,
+      transactionHash: null,
+      blockNumber: Number(blockNumber),
+      value: "0",
+      funderIsHub: false,
+    }
+  }
+
+  const funderTxCount = await client.getTransactionCount({ address: funding.from })
+  return {
+    wallet,
+    funder: funding.from.toLowerCase(),
+    transactionHash: funding.hash as Hash,
+    blockNumber: Number(blockNumber),
+    value: funding.value.toString(),
+    funderIsHub: funderTxCount >= HUB_TX_COUNT,
+  }
+}
+
+// Follow first fundings back from the wallet, stopping at hubs and at wallets already on the path
+export async function traceFunding(wallet: string, hops = DEFAULT_HOPS): Promise<FundingTrace | null> {
+  try {
+    const path: FundingHop[] = []
+    let current = wallet.toLowerCase()
+
+    for (let hop = 0; hop < hops; hop++) {
+      const funding = await findFirstFunding(current)
+      if (!funding) break
+
+      path.push(funding)
+      if (!funding.funder || funding.funderIsHub) break
+      if (funding.funder === wallet.toLowerCase() || path.some((step) => step.wallet === funding.funder)) break
+      current = funding.funder
+    }
+
+    return { wallet: wallet.toLowerCase(), path, funders: getLinkingFunders(path) }
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split("\n")[0] : String(error)
+    console.warn(`⚠️ Could not trace funding of ${wallet}, historical balances need an archive node:`, message)
+    return null
+  }
+}
+
+export function getLinkingFunders(path: FundingHop[]): string[] {
+  return [
+    ...new Set(path.filter((hop) => hop.funder && !hop.funderIsHub).map((hop) => hop.funder as string)),
+  ]
+}
+
+// Group wallets that share a funder, or where one creator funded another
+export function clusterWallets(traces: { wallet: string; funders: string[] }[]): CreatorCluster[] {
+  const parent = new Map<string, string>()
+  const find = (node: string): string => {
+    const root = parent.get(node)
+    if (root === undefined || root === node) return node
+    const top = find(root)
+    parent.set(node, top)
+    return top
+  }
+  const union = (a: string, b: string) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent.set(rootB, rootA)
+  }
+
+  for (const trace of traces) {
+    for (const funder of trace.funders) union(trace.wallet, funder)
+  }
+
+  const wallets = new Set(traces.map((trace) => trace.wallet))
+  const groups = new Map<string, Set<string>>()
+  for (const trace of traces) {
+    const root = find(trace.wallet)
+    if (!groups.has(root)) groups.set(root, new Set())
+    groups.get(root)!.add(trace.wallet)
+  }
+
+  const clusters: CreatorCluster[] = []
+  for (const members of groups.values()) {
+    if (members.size < 2) continue
+
+    const memberWallets = [...members].sort()
+    // Funders reached from more than one member (or that are members themselves) are the shared ones
+    const counts = new Map<string, number>()
+    for (const trace of traces) {
+      if (!members.has(trace.wallet)) continue
+      for (const funder of trace.funders) counts.set(funder, (counts.get(funder) ?? 0) + 1)
+    }
+    const shared = [...counts]
+      .filter(([funder, count]) => count > 1 || wallets.has(funder))
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+
+    // Named after the funder most of the cluster traces back to
+    const id = shared[0]?.[0] ?? memberWallets[0]
+    clusters.push({ id, wallets: memberWallets, funders: shared.map(([funder]) => funder).sort() })
+  }
+
+  return clusters
+}
+
+// Trace a creator and store the result, then regroup it with every creator it shares a funder with
+export async function traceCreatorFunding(wallet: string, hops = DEFAULT_HOPS): Promise<FundingTrace | null> {
+  const trace = await traceFunding(wallet, hops)
+  if (!trace) return null
+
+  try {
+    const { error } = await supabase
+      .from("creators")
+      .update({
+        funding_source: trace.path[0]?.funder ?? null,
+        funding_path: trace.path,
+        funding_funders: trace.funders,
+        funding_traced_at: new Date().toISOString(),
+      })
+      .eq("chain_id", getChainId())
+      .eq("wallet_address", wallet)
+
+    if (error) {
+      console.error("❌ Error saving creator funding:", error)
+      return trace
+    }
+
+    await updateCreatorCluster(wallet)
+    return trace
+  } catch (error) {
+    console.error("❌ Error in traceCreatorFunding:", error)
+    return trace
+  }
+}
+
+type FundedCreator = { wallet_address: string; funding_funders: string[] | null; cluster_id: string | null }
+
+// Recompute the cluster of one creator from the creators it's linked to (and the clusters they're already in)
+export async function updateCreatorCluster(wallet: string): Promise<string | null> {
+  try {
+    const { data: creator } = await supabase
+      .from("creators")
+      .select("wallet_address, funding_funders, cluster_id")
+      .eq("chain_id", getChainId())
+      .eq("wallet_address", wallet)
+      .single()
+    if (!creator) return null
+
+    const funders: string[] = creator.funding_funders ?? []
+    const address = wallet.toLowerCase()
+    const filters = [`funding_funders.cs.{${address}}`]
+    if (funders.length > 0) {
+      filters.push(`funding_funders.ov.{${funders.join(",")}}`, `wallet_address.in.(${funders.join(",")})`)
+    }
+
+    const { data: linked, error } = await supabase
+      .from("creators")
+      .select("wallet_address, funding_funders, cluster_id")
+      .eq("chain_id", getChainId())
+      .or(filters.join(","))
+    if (error) throw error
+
+    const clusterIds = [...new Set((linked ?? []).map((row: FundedCreator) => row.cluster_id).filter(Boolean))]
+    const { data: clustered } = clusterIds.length
+      ? await supabase
+          .from("creators")
+          .select("wallet_address, funding_funders, cluster_id")
+          .eq("chain_id", getChainId())
+          .in("cluster_id", clusterIds)
+      : { data: [] }
+
+    const rows = new Map<string, FundedCreator>()
+    for (const row of [creator, ...(linked ?? []), ...(clustered ?? [])] as FundedCreator[]) {
+      rows.set(row.wallet_address.toLowerCase(), row)
+    }
+
+    const traces = [...rows.entries()].map(([member, row]) => ({ wallet: member, funders: row.funding_funders ?? [] }))
+    const cluster = clusterWallets(traces).find((candidate) => candidate.wallets.includes(address))
+    if (!cluster) return null
+
+    const members = [...rows.values()]
+      .filter((row) => cluster.wallets.includes(row.wallet_address.toLowerCase()))
+      .map((row) => row.wallet_address)
+    const { error: updateError } = await supabase
+      .from("creators")
+      .update({ cluster_id: cluster.id })
+      .eq("chain_id", getChainId())
+      .in("wallet_address", members)
+    if (updateError) throw updateError
+
+    console.log(`🕸️ Creator ${wallet} is in cluster ${cluster.id} with ${members.length - 1} other wallet(s)`)
+    return cluster.id
+  } catch (error) {
+    console.error("❌ Error updating creator cluster:", error)
+    return null
+  }
+}
+
+// Tokens launched by the creator's whole cluster, for deciding whether it's a serial creator. Only reads the
+// stored cluster: tracing takes many archive reads, so it runs in the indexer worker or `pnpm trace-funding`
+// and never holds up an alert. A creator that isn't traced yet counts on its own.
+export async function getSerialCreatorCount(wallet: string, walletContracts: number): Promise<number> {
+  try {
+    const { data: creator } = await supabase
+      .from("creators")
+      .select("cluster_id")
+      .eq("chain_id", getChainId())
+      .eq("wallet_address", wallet)
+      .single()
+
+    const clusterId: string | null = creator?.cluster_id ?? null
+    if (!clusterId) return walletContracts
+
+    const { data, error } = await supabase
+      .from("creators")
+      .select("contracts_created")
+      .eq("chain_id", getChainId())
+      .eq("cluster_id", clusterId)
+    if (error || !data) return walletContracts
+
+    const total = data.reduce((sum: number, row: { contracts_created: number }) => sum + row.contracts_created, 0)
+    return Math.max(total, walletContracts)
+  } catch (error) {
+    console.error("❌ Error counting cluster contracts:", error)
+    return walletContracts
+  }
+}
+
+// Creators still waiting for a funding trace (or all of them to trace again), oldest first
+export async function getCreatorsToTrace(limit: number, retrace = false, offset = 0): Promise<string[]> {
+  try {
+    let query = supabase
+      .from("creators")
+      .select("wallet_address")
+      .eq("chain_id", getChainId())
+      .order("first_seen_at", { ascending: true })
+    if (!retrace) query = query.is("funding_traced_at", null)
+
+    const { data, error } = await query.range(offset, offset + limit - 1)
+    if (error) throw error
+    return (data ?? []).map((row: { wallet_address: string }) => row.wallet_address)
+  } catch (error) {
+    console.error("❌ Error fetching creators to trace:", error)
+    return []
+  }
+}
+
+// Trace a batch of creators that haven't been traced yet. Returns how many were traced and how many were
+// tried; creators whose trace failed stay untraced.
+export async function traceUntracedCreators(
+  limit: number,
+  hops = DEFAULT_HOPS,
+): Promise<{ traced: number; tried: number }> {
+  const wallets = await getCreatorsToTrace(limit)
+
+  let traced = 0
+  for (const wallet of wallets) {
+    if (await traceCreatorFunding(wallet, hops)) traced++
+  }
+
+  return { traced, tried: wallets.length }
+}
+
+// Regroup every traced creator from scratch, e.g. after retracing with more hops
+export async function rebuildCreatorClusters(): Promise<CreatorCluster[]> {
+  try {
+    const { data, error } = await supabase
+      .from("creators")
+      .select("wallet_address, funding_funders, cluster_id")
+      .eq("chain_id", getChainId())
+      .not("funding_traced_at", "is", null)
+    if (error) throw error
+
+    const rows = (data ?? []) as FundedCreator[]
+    const clusters = clusterWallets(
+      rows.map((row) => ({ wallet: row.wallet_address.toLowerCase(), funders: row.funding_funders ?? [] })),
+    )
+
+    const clusterOf = new Map<string, string>()
+    for (const cluster of clusters) {
+      for (const wallet of cluster.wallets) clusterOf.set(wallet, cluster.id)
+    }
+
+    for (const row of rows) {
+      const clusterId = clusterOf.get(row.wallet_address.toLowerCase()) ?? null
+      if (clusterId === row.cluster_id) continue
+
+      const { error: updateError } = await supabase
+        .from("creators")
+        .update({ cluster_id: clusterId })
+        .eq("chain_id", getChainId())
+        .eq("wallet_address", row.wallet_address)
+      if (updateError) console.error(`❌ Error updating cluster of ${row.wallet_address}:`, updateError)
+    }
+
+    return clusters
+  } catch (error) {
+    console.error("❌ Error rebuilding creator clusters:", error)
+    return []
+  }
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { formatDuration } from './graduation'
+
+describe('formatDuration', () => {
+  it('shows seconds for very fast graduations', () => {
+    expect(formatDuration(0)).toBe('0s')
+    expect(formatDuration(42)).toBe('42s')
+  })
+
+  it('uses the two largest units', () => {
+    expect(formatDuration(45 * 60)).toBe('45m')
+    expect(formatDuration(3 * 3600 + 12 * 60 + 5)).toBe('3h 12m')
+    expect(formatDuration(2 * 86400 + 4 * 3600 + 59 * 60)).toBe('2d 4h')
+  })
+})
@@ -0,0 +1,88 @@
+import { fetchArenaUserProfile, postGraduationToArenaTimeline } from "./arena-socials"
+import { getPendingGraduationAlerts, markGraduationAlertSent, markTokenGraduated } from "./database"
+import { postGraduationToDiscordWithRetry } from "./discord-socials"
+import { getLatestHolderStats, type HolderStats } from "./holders"
+import { getTokenSniperStats, type SniperStats } from "./snipers"
+
+// A launch graduates when `createLP` moves its liquidity allocation from the Arena contract into the
+// token's pair. The trade indexer sees that transfer and reports it here.
+export interface TokenGraduation {
+  tokenAddress: string
+  transactionHash: string
+  blockNumber: bigint
+  timestamp: number
+}
+
+// Payload for the graduation alert on Discord and the Arena timeline
+export interface GraduationAlert {
+  tokenAddress: string
+  tokenSymbol: string
+  tokenName?: string
+  creatorAddress: string
+  creatorUsername?: string
+  pairAddress?: string
+  timeToGraduateSeconds: number | null
+  holderStats?: HolderStats | null
+  sniperStats?: SniperStats | null
+}
+
+// Graduation alerts are opt-in
+export const GRADUATION_ALERTS_ENABLED = process.env.NEXT_PUBLIC_GRADUATION_ALERTS === "true"
+
+// "2d 4h", "3h 12m", "45m", "30s"
+export function formatDuration(totalSeconds: number): string {
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m`
+  return `${Math.max(Math.floor(totalSeconds), 0)}s`
+}
+
+// Store graduations. With alertSent the alert is skipped, which the backfill uses for old graduations.
+export async function recordGraduations(graduations: TokenGraduation[], options: { alertSent?: boolean } = {}) {
+  const alertSent = options.alertSent ?? !GRADUATION_ALERTS_ENABLED
+
+  for (const graduation of graduations) {
+    const token = await markTokenGraduated({ ...graduation, alertSent })
+    if (!token) continue
+
+    const duration =
+      token.time_to_graduate_seconds !== null ? ` after ${formatDuration(token.time_to_graduate_seconds)}` : ""
+    console.log(`🎓 ${token.symbol || token.address} graduated in block ${graduation.blockNumber}${duration}`)
+  }
+}
+
+// Post alerts for graduations at or below the confirmed block. Each alert is attempted once (the posting
+// helpers retry on their own), so a missing webhook or bearer token doesn't re-send on every loop.
+export async function releaseGraduationAlerts(confirmedBlock: bigint): Promise<void> {
+  if (!GRADUATION_ALERTS_ENABLED) return
+
+  for (const token of await getPendingGraduationAlerts(confirmedBlock)) {
+    const profile = await fetchArenaUserProfile(token.creator_address)
+
+    const alert: GraduationAlert = {
+      tokenAddress: token.address,
+      tokenSymbol: token.symbol || "???",
+      tokenName: token.name || undefined,
+      creatorAddress: token.creator_address,
+      creatorUsername: profile?.username,
+      pairAddress: token.pair_address || undefined,
+      timeToGraduateSeconds: token.time_to_graduate_seconds,
+      holderStats: await getLatestHolderStats(token.address),
+      sniperStats: await getTokenSniperStats(token.address),
+    }
+
+    await markGraduationAlertSent(token.id)
+
+    const discordPosted = await postGraduationToDiscordWithRetry(alert)
+    // The Arena timeline post mentions the creator, so it needs their Arena handle
+    const arenaPosted = alert.creatorUsername ? await postGraduationToArenaTimeline(alert) : false
+
+    if (!discordPosted && !arenaPosted) {
+      console.log(`⚠️ Graduation alert for ${alert.tokenSymbol} was not posted anywhere`)
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+import { getConcentration } from './holders'
+
+describe('getConcentration', () => {
+  it('sums only the ten largest balances', () => {
+    // Eleven holders of 5 tokens each out of 100: the top 10 hold 50%
+    const balances = Array(11).fill(5n)
+    expect(getConcentration(balances, 5n, 100n)).toEqual({ top10Percentage: 50, creatorPercentage: 5 })
+  })
+
+  it('rounds down to two decimals', () => {
+    expect(getConcentration([1n], 1n, 3n)).toEqual({ top10Percentage: 33.33, creatorPercentage: 33.33 })
+  })
+
+  it('is 0 without a known supply', () => {
+    expect(getConcentration([10n], 10n, 0n)).toEqual({ top10Percentage: 0, creatorPercentage: 0 })
+  })
+})
@@ -0,0 +1,175 @@
+import type { GetLogsReturnType } from "viem"
+import { client } from "./blockchain"
+import {
+  getHolderBalance,
+  getHolderCount,
+  getHolderSnapshots,
+  getStoredTokenAddresses,
+  getTopHolders,
+  revertTokenTransfersAfter,
+  saveHolderSnapshots,
+  saveTokenTransfers,
+} from "./database"
+import { TRANSFER_EVENT } from "./decoder"
+import { getArenaTokensInRange, getLaunchesInRange, type ArenaToken } from "./trades"
+
+// Holder balances per Arena launch, kept up to date from every Transfer of the token. The launch contract
+// (unsold curve supply) and the pair (pool liquidity) hold tokens too, but they aren't counted as holders.
+
+export interface HolderStats {
+  holderCount: number
+  top10Percentage: number // Share of the total supply held by the 10 largest holders
+  creatorPercentage: number // Share of the total supply the creator still holds
+  blockNumber: number
+}
+
+// How long the known launch addresses are trusted before the tokens table is read again, so launches stored by
+// other processes (a backfill) are picked up
+const KNOWN_LAUNCHES_REFRESH_MS = 10 * 60 * 1000
+
+let knownLaunches: { addresses: Set<string>; loadedAt: number } | null = null
+
+// Percentages of the total supply with two decimals
+export function getConcentration(
+  topBalances: bigint[],
+  creatorBalance: bigint,
+  totalSupply: bigint,
+): Pick<HolderStats, "top10Percentage" | "creatorPercentage"> {
+  if (totalSupply <= 0n) return { top10Percentage: 0, creatorPercentage: 0 }
+
+  const top10 = topBalances.slice(0, 10).reduce((sum, balance) => sum + balance, 0n)
+  return {
+    top10Percentage: Number((top10 * 10000n) / totalSupply) / 100,
+    creatorPercentage: Number((creatorBalance * 10000n) / totalSupply) / 100,
+  }
+}
+
+function getExcludedHolders(token: Pick<ArenaToken, "pairAddress" | "contractAddress">): string[] {
+  const excluded = [token.contractAddress.toLowerCase()]
+  if (token.pairAddress) excluded.push(token.pairAddress.toLowerCase())
+  return excluded
+}
+
+export async function getHolderStats(token: ArenaToken, blockNumber: bigint): Promise<HolderStats> {
+  const excluded = getExcludedHolders(token)
+  const [holderCount, topHolders, creatorBalance] = await Promise.all([
+    getHolderCount(token.address, excluded),
+    getTopHolders(token.address, 10, excluded),
+    getHolderBalance(token.address, token.creatorAddress),
+  ])
+
+  return {
+    holderCount,
+    ...getConcentration(
+      topHolders.map((holder) => BigInt(holder.balance)),
+      creatorBalance ?? 0n,
+      token.totalSupply ?? 0n,
+    ),
+    blockNumber: Number(blockNumber),
+  }
+}
+
+// Latest stored holder stats of a token, or null before it was indexed
+export async function getLatestHolderStats(tokenAddress: string): Promise<HolderStats | null> {
+  const [snapshot] = await getHolderSnapshots(tokenAddress, 1)
+  if (!snapshot) return null
+
+  return {
+    holderCount: snapshot.holder_count,
+    top10Percentage: Number(snapshot.top10_percentage),
+    creatorPercentage: Number(snapshot.creator_percentage),
+    blockNumber: snapshot.block_number,
+  }
+}
+
+// Every Transfer log in a range, matched against the launches in memory rather than filtered by address on the
+// node. A busy range can exceed what the RPC returns in one call, so failing ranges are split in half.
+async function getTransferLogs(fromBlock: bigint, toBlock: bigint): Promise<GetLogsReturnType<typeof TRANSFER_EVENT>> {
+  try {
+    return await client.getLogs({ event: TRANSFER_EVENT, fromBlock, toBlock })
+  } catch (error) {
+    if (fromBlock === toBlock) throw error
+
+    const middle = fromBlock + (toBlock - fromBlock) / 2n
+    return [...(await getTransferLogs(fromBlock, middle)), ...(await getTransferLogs(middle + 1n, toBlock))]
+  }
+}
+
+// Lowercase addresses of the stored launches plus the given ones. The tokens table is read once per refresh
+// interval instead of on every range.
+async function getKnownLaunches(launches: Map<string, ArenaToken>): Promise<Set<string>> {
+  if (!knownLaunches || Date.now() - knownLaunches.loadedAt > KNOWN_LAUNCHES_REFRESH_MS) {
+    const stored = await getStoredTokenAddresses()
+    if (!stored) throw new Error("Failed to read stored launches")
+    knownLaunches = { addresses: new Set(stored.map((address) => address.toLowerCase())), loadedAt: Date.now() }
+  }
+
+  for (const address of launches.keys()) knownLaunches.addresses.add(address)
+  return knownLaunches.addresses
+}
+
+// Update holder balances from the Transfers of Arena launches in a block range and store a holder snapshot
+// for every token with transfers in it. Only stored launches and launches created inside the range are counted.
+// Throws when the chain or database can't be read, so callers can retry the range; transfers and their
+// balance changes are stored together, so a retry applies exactly what the failed attempt didn't.
+export async function indexHoldersInRange(fromBlock: bigint, toBlock: bigint): Promise<number> {
+  const launches = await getLaunchesInRange(fromBlock, toBlock)
+  const known = await getKnownLaunches(launches)
+
+  const logs = (await getTransferLogs(fromBlock, toBlock)).filter((log) => known.has(log.address.toLowerCase()))
+  if (logs.length === 0) return 0
+
+  const tokenAddresses = [...new Set(logs.map((log) => log.address))]
+  const tokens = await getArenaTokensInRange(tokenAddresses, fromBlock, toBlock, launches)
+
+  const transfers = logs
+    .filter((log) => tokens.has(log.address.toLowerCase()) && log.args.from && log.args.to)
+    .map((log) => ({
+      token_address: log.address.toLowerCase(),
+      transaction_hash: log.transactionHash,
+      log_index: log.logIndex,
+      from_address: log.args.from!.toLowerCase(),
+      to_address: log.args.to!.toLowerCase(),
+      value: (log.args.value ?? 0n).toString(),
+      block_number: Number(log.blockNumber),
+    }))
+  if (transfers.length === 0) return 0
+
+  if ((await saveTokenTransfers(transfers, toBlock)) === null) {
+    throw new Error(`Failed to save token transfers for blocks ${fromBlock}-${toBlock}`)
+  }
+
+  // Snapshots are unique per token and block, so a retried range takes them again
+  const changed = [...new Set(transfers.map((transfer) => transfer.token_address))]
+
+  const block = await client.getBlock({ blockNumber: toBlock })
+  const timestamp = new Date(Number(block.timestamp) * 1000).toISOString()
+
+  const snapshots = []
+  for (const tokenAddress of changed) {
+    const stats = await getHolderStats(tokens.get(tokenAddress)!, toBlock)
+    snapshots.push({
+      token_address: tokenAddress,
+      block_number: stats.blockNumber,
+      timestamp,
+      holder_count: stats.holderCount,
+      top10_percentage: stats.top10Percentage,
+      creator_percentage: stats.creatorPercentage,
+    })
+  }
+
+  if (!(await saveHolderSnapshots(snapshots))) {
+    throw new Error(`Failed to save holder snapshots for blocks ${fromBlock}-${toBlock}`)
+  }
+
+  console.log(`👥 Updated holders of ${changed.length} tokens in blocks ${fromBlock}-${toBlock}`)
+  return changed.length
+}
+
+// Undo the balance changes of transfers in orphaned blocks
+export async function rollbackHoldersAfter(blockNumber: bigint): Promise<void> {
+  const reverted = await revertTokenTransfersAfter(blockNumber)
+  if (!reverted) return
+
+  console.log(`⏪ Reverted ${reverted} token transfers above block ${blockNumber}`)
+}
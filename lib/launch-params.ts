@@ -0,0 +1,100 @@
+import type { TokenLaunchParams } from "./blockchain"
+
+// Settings that are compared against the most common launch configuration (the pair address is unique per launch)
+const COMPARED_PARAMS = [
+  "curveScaler",
+  "a",
+  "b",
+  "lpDeployed",
+  "lpPercentage",
+  "salePercentage",
+  "creatorFeeBasisPoints",
+] as const
+
+type ComparedParam = (typeof COMPARED_PARAMS)[number]
+
+// With fewer launches than this there is no meaningful "usual" configuration
+const MIN_BASELINE_SAMPLE = 5
+
+export type LaunchParamsBaseline = Partial<Pick<TokenLaunchParams, ComparedParam>>
+
+export interface UnusualLaunchParam {
+  param: ComparedParam
+  label: string
+  value: string
+  usual: string
+}
+
+const PARAM_LABELS: Record<ComparedParam, string> = {
+  curveScaler: "Curve scaler",
+  a: "Curve a",
+  b: "Curve b",
+  lpDeployed: "LP deployed",
+  lpPercentage: "LP share",
+  salePercentage: "Sale share",
+  creatorFeeBasisPoints: "Creator fee",
+}
+
+export function formatLaunchParam(param: ComparedParam, value: TokenLaunchParams[ComparedParam]): string {
+  switch (param) {
+    case "lpPercentage":
+    case "salePercentage":
+      return `${value}%`
+    case "creatorFeeBasisPoints":
+      return `${Number(value) / 100}%`
+    case "lpDeployed":
+      return value ? "yes" : "no"
+    default:
+      return String(value)
+  }
+}
+
+// Most common value of every compared setting across a set of launches
+export function getLaunchParamsBaseline(launches: TokenLaunchParams[]): LaunchParamsBaseline {
+  const baseline: Record<string, TokenLaunchParams[ComparedParam]> = {}
+  if (launches.length < MIN_BASELINE_SAMPLE) return baseline
+
+  for (const param of COMPARED_PARAMS) {
+    const counts = new Map<string, { value: TokenLaunchParams[ComparedParam]; count: number }>()
+
+    for (const launch of launches) {
+      const key = String(launch[param])
+      const entry = counts.get(key)
+      if (entry) entry.count++
+      else counts.set(key, { value: launch[param], count: 1 })
+    }
+
+    let mostCommon: { value: TokenLaunchParams[ComparedParam]; count: number } | undefined
+    for (const entry of counts.values()) {
+      if (!mostCommon || entry.count > mostCommon.count) mostCommon = entry
+    }
+
+    if (mostCommon) {
+      baseline[param] = mostCommon.value
+    }
+  }
+
+  return baseline as LaunchParamsBaseline
+}
+
+// Settings of one launch that differ from the baseline
+export function getUnusualLaunchParams(
+  params: TokenLaunchParams,
+  baseline: LaunchParamsBaseline,
+): UnusualLaunchParam[] {
+  const unusual: UnusualLaunchParam[] = []
+
+  for (const param of COMPARED_PARAMS) {
+    const usual = baseline[param]
+    if (usual === undefined || String(usual) === String(params[param])) continue
+
+    unusual.push({
+      param,
+      label: PARAM_LABELS[param],
+      value: formatLaunchParam(param, params[param]),
+      usual: formatLaunchParam(param, usual),
+    })
+  }
+
+  return unusual
+}
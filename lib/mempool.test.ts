@@ -0,0 +1,71 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { encodeAbiParameters, parseAbiParameters } from 'viem'
+import { ARENA_CONTRACT_ADDRESS } from './contracts'
+import { getPendingLaunches, pendingLaunchFromTransaction, startMempoolWatcher, stopMempoolWatcher } from './mempool'
+import { setRpcHandler } from './rpc-provider'
+
+const SENDER = '0x1111111111111111111111111111111111111111' as const
+const HASH = `0x${'ab'.repeat(32)}` as const
+
+// createToken(string,string,uint256,uint256) as seen on the Arena contract
+const createInput = `0x0b8c6fec${encodeAbiParameters(parseAbiParameters('string, string, uint256, uint256'), [
+  'Pending Token',
+  'PEND',
+  BigInt(1000),
+  BigInt(0),
+]).slice(2)}` as const
+
+describe('pendingLaunchFromTransaction', () => {
+  it('decodes a launch sent to a launchpad contract', () => {
+    const tx = { hash: HASH, from: SENDER, to: ARENA_CONTRACT_ADDRESS, input: createInput }
+    const token = pendingLaunchFromTransaction(tx, 5)
+
+    expect(token).toEqual({
+      name: 'Pending Token',
+      symbol: 'PEND',
+      totalSupply: '1000',
+      creator: SENDER,
+      hash: HASH,
+      timestamp: 5,
+      isPending: true,
+      contractAddress: ARENA_CONTRACT_ADDRESS,
+    })
+  })
+
+  it('ignores other contracts and other calls', () => {
+    expect(pendingLaunchFromTransaction({ hash: HASH, from: SENDER, to: SENDER, input: createInput }, 5)).toBeNull()
+    expect(
+      pendingLaunchFromTransaction({ hash: HASH, from: SENDER, to: ARENA_CONTRACT_ADDRESS, input: '0xa6f2ae3a' }, 5),
+    ).toBeNull()
+  })
+})
+
+describe('mempool watcher', () => {
+  afterEach(() => {
+    stopMempoolWatcher()
+    setRpcHandler(null)
+    vi.useRealTimers()
+  })
+
+  it('stops polling once nobody reads the pending launches', async () => {
+    vi.useFakeTimers()
+    const methods: string[] = []
+    setRpcHandler(async ({ method }) => {
+      methods.push(method)
+      return method === 'eth_getFilterChanges' ? [] : method === 'eth_uninstallFilter' ? true : '0x1'
+    })
+
+    expect(await startMempoolWatcher()).toBe(true)
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    getPendingLaunches()
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    expect(methods).not.toContain('eth_uninstallFilter')
+
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000)
+    expect(methods).toContain('eth_uninstallFilter')
+
+    const polls = methods.filter((method) => method === 'eth_getFilterChanges').length
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    expect(methods.filter((method) => method === 'eth_getFilterChanges')).toHaveLength(polls)
+  })
+})
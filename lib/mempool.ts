@@ -0,0 +1,225 @@
+import type { Hash, Transaction } from "viem"
+import { rpcClient as client } from "./rpc-provider"
+import type { TokenData } from "./blockchain"
+import { decodeLaunchLog, getLaunchpadContract } from "./contracts"
+import { decodeTokenCreationData } from "./decoder"
+
+// Token launches seen in the mempool before they are mined. Pending hashes come from an
+// eth_newPendingTransactionFilter; RPCs without one leave the watcher off and the pending list empty.
+// Each launch stays pending until its receipt shows up (confirmed) or the node forgets it (dropped).
+// The watcher starts when the pending list is first read and stops again once nobody has read or subscribed
+// to it for a while, so a single request doesn't leave the process polling forever.
+
+const MEMPOOL_POLL_INTERVAL = 2000
+const LOOKUP_BATCH_SIZE = 20
+const MAX_LOOKUPS_PER_POLL = 200 // Busy mempools are sampled rather than read in full
+const DROP_GRACE_MS = 15000 // Nodes can lag behind the one that gave us the hash, so wait before calling it gone
+const DROP_AFTER_MS = 5 * 60 * 1000
+const IDLE_STOP_MS = 2 * 60 * 1000
+
+export type PendingLaunchStatus = "pending" | "confirmed" | "dropped"
+
+export interface PendingLaunchUpdate {
+  status: PendingLaunchStatus
+  token: TokenData
+}
+
+export interface MempoolStatus {
+  supported: boolean | null // null until the watcher has tried to create a filter
+  pending: number
+  confirmed: number
+  dropped: number
+  lastError: string | null
+}
+
+const pendingLaunches = new Map<Hash, TokenData>()
+const listeners = new Set<(update: PendingLaunchUpdate) => void>()
+const status: MempoolStatus = { supported: null, pending: 0, confirmed: 0, dropped: 0, lastError: null }
+
+let filter: Awaited<ReturnType<typeof client.createPendingTransactionFilter>> | null = null
+let watcher: Promise<boolean> | null = null
+let pollInterval: ReturnType<typeof setInterval> | null = null
+let polling = false
+let lastReadAt = 0
+
+// A pending launch from a transaction to a launchpad contract, or null for anything else. The token address
+// only exists once the transaction is mined, so it is left empty.
+export function pendingLaunchFromTransaction(
+  tx: Pick<Transaction, "hash" | "from" | "to" | "input">,
+  seenAt: number,
+): TokenData | null {
+  const contract = getLaunchpadContract(tx.to)
+  if (!contract) return null
+
+  const metadata = decodeTokenCreationData(tx.input.slice(0, 10), tx.input)
+  if (!metadata) return null
+
+  return {
+    name: metadata.name,
+    symbol: metadata.symbol,
+    totalSupply: metadata.totalSupply,
+    creator: metadata.creator ?? tx.from,
+    hash: tx.hash,
+    timestamp: seenAt,
+    isPending: true,
+    contractAddress: contract.address,
+  }
+}
+
+function notify(update: PendingLaunchUpdate) {
+  status.pending = pendingLaunches.size
+  for (const listener of listeners) listener(update)
+}
+
+async function lookUpPendingHashes(hashes: Hash[]) {
+  const unseen = hashes.filter((hash) => !pendingLaunches.has(hash)).slice(0, MAX_LOOKUPS_PER_POLL)
+
+  for (let i = 0; i < unseen.length; i += LOOKUP_BATCH_SIZE) {
+    const transactions = await Promise.all(
+      unseen.slice(i, i + LOOKUP_BATCH_SIZE).map((hash) => client.getTransaction({ hash }).catch(() => null)),
+    )
+
+    for (const tx of transactions) {
+      // Mined in the meantime; the live monitor picks it up from there
+      if (!tx || tx.blockNumber !== null) continue
+
+      const token = pendingLaunchFromTransaction(tx, Date.now())
+      if (!token) continue
+
+      pendingLaunches.set(tx.hash, token)
+      console.log(`⏳ Pending launch ${token.symbol} (${token.name}) in ${tx.hash}`)
+      notify({ status: "pending", token })
+    }
+  }
+}
+
+// Settle launches that were mined or that left the mempool
+async function reconcilePendingLaunches() {
+  for (const [hash, token] of pendingLaunches) {
+    const receipt = await client.getTransactionReceipt({ hash }).catch(() => null)
+
+    if (receipt) {
+      pendingLaunches.delete(hash)
+
+      if (receipt.status !== "success") {
+        status.dropped++
+        console.log(`🗑️ Pending launch ${hash} reverted`)
+        notify({ status: "dropped", token: { ...token, isPending: false } })
+        continue
+      }
+
+      const created = receipt.logs.map(decodeLaunchLog).find((launch) => launch !== null)
+      const tokenAddress = created?.args.params?.tokenContractAddress
+
+      status.confirmed++
+      console.log(`✅ Pending launch ${hash} confirmed in block ${receipt.blockNumber}`)
+      notify({
+        status: "confirmed",
+        token: {
+          ...token,
+          isPending: false,
+          address: tokenAddress,
+          tokenContractAddress: tokenAddress,
+          blockNumber: receipt.blockNumber,
+        },
+      })
+      continue
+    }
+
+    const age = Date.now() - (token.timestamp ?? 0)
+    if (age < DROP_GRACE_MS) continue
+
+    const known = age < DROP_AFTER_MS && (await client.getTransaction({ hash }).catch(() => null)) !== null
+    if (!known) {
+      pendingLaunches.delete(hash)
+      status.dropped++
+      console.log(`🗑️ Pending launch ${hash} dropped from the mempool`)
+      notify({ status: "dropped", token: { ...token, isPending: false } })
+    }
+  }
+}
+
+async function pollMempool() {
+  if (polling || !filter) return
+  if (listeners.size === 0 && Date.now() - lastReadAt > IDLE_STOP_MS) {
+    console.log("💤 Nobody is reading pending launches, stopping the mempool watcher")
+    stopMempoolWatcher()
+    return
+  }
+  polling = true
+
+  try {
+    let hashes: Hash[] = []
+    try {
+      hashes = await client.getFilterChanges({ filter })
+    } catch (error) {
+      // Filters live on one endpoint; after a failover the next endpoint doesn't know ours, so start over there
+      console.warn("⚠️ Pending transaction filter was lost, creating a new one:", error)
+      filter = await client.createPendingTransactionFilter()
+    }
+
+    await lookUpPendingHashes(hashes)
+    await reconcilePendingLaunches()
+    status.lastError = null
+  } catch (error) {
+    status.lastError = error instanceof Error ? error.message.split("\n")[0] : String(error)
+    console.error("❌ Error polling the mempool:", error)
+  } finally {
+    polling = false
+  }
+}
+
+// Start watching the mempool once per process. Resolves to false when the RPC has no pending filters.
+export function startMempoolWatcher(): Promise<boolean> {
+  lastReadAt = Date.now()
+  if (watcher) return watcher
+
+  watcher = (async () => {
+    try {
+      filter = await client.createPendingTransactionFilter()
+    } catch (error) {
+      status.supported = false
+      status.lastError = error instanceof Error ? error.message.split("\n")[0] : String(error)
+      console.warn("⚠️ The RPC doesn't support pending transaction filters, mempool watching is off")
+      return false
+    }
+
+    status.supported = true
+    pollInterval = setInterval(pollMempool, MEMPOOL_POLL_INTERVAL)
+    console.log("👀 Watching the mempool for token launches")
+    return true
+  })()
+
+  return watcher
+}
+
+// Stop polling and forget the pending launches; the next read starts the watcher again
+export function stopMempoolWatcher(): void {
+  if (pollInterval) clearInterval(pollInterval)
+  pollInterval = null
+  watcher = null
+
+  if (filter) client.uninstallFilter({ filter }).catch(() => {})
+  filter = null
+
+  pendingLaunches.clear()
+  status.pending = 0
+}
+
+// Launches currently waiting to be mined, newest first. Reading keeps the watcher running.
+export function getPendingLaunches(): TokenData[] {
+  lastReadAt = Date.now()
+  return [...pendingLaunches.values()].sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0))
+}
+
+export function subscribeToPendingLaunches(callback: (update: PendingLaunchUpdate) => void): () => void {
+  listeners.add(callback)
+  startMempoolWatcher()
+  return () => {
+    listeners.delete(callback)
+  }
+}
+
+export function getMempoolStatus(): MempoolStatus {
+  return { ...status }
+}
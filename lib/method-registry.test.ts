@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { encodeFunctionData, erc20Abi, parseAbi } from 'viem'
+import {
+  classifyMethod,
+  decodeMethodCall,
+  getUnknownSelectors,
+  lookupMethod,
+  recordUnknownSelector,
+  registerAbi,
+} from './method-registry'
+
+const TOKEN = '0x000000000000000000000000000000000000dEaD'
+
+describe('method registry', () => {
+  it('registers ERC-20 calls under their computed selectors', () => {
+    expect(lookupMethod('0x095ea7b3')).toMatchObject({ name: 'approve', type: 'APPROVE' })
+    expect(lookupMethod('0xA9059CBB')?.signature).toBe('transfer(address,uint256)')
+  })
+
+  it('keeps observed Arena selectors that differ from the ABI', () => {
+    expect(lookupMethod('0x0b8c6fec')).toMatchObject({ name: 'createToken', type: 'TOKEN_CREATION' })
+  })
+
+  it('decodes call arguments by parameter name', () => {
+    const input = encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [TOKEN, 5n] })
+    const decoded = decodeMethodCall(input)
+
+    expect(decoded?.method.name).toBe('transfer')
+    expect(decoded?.args).toEqual({ recipient: TOKEN, amount: 5n })
+  })
+
+  it('returns null for unregistered selectors', () => {
+    expect(decodeMethodCall('0xdeadbeef')).toBeNull()
+  })
+
+  it('picks up extra ABIs', () => {
+    registerAbi(parseAbi(['function sell(uint256 amount)']))
+    expect(lookupMethod('0xe4849b32')).toMatchObject({ name: 'sell', type: 'SELL', description: 'Sell tokens for AVAX' })
+  })
+
+  it('counts unknown selectors', () => {
+    recordUnknownSelector('0x12345678')
+    recordUnknownSelector('0x12345678')
+    expect(getUnknownSelectors().find((entry) => entry.selector === '0x12345678')?.count).toBe(2)
+  })
+})
+
+describe('classifyMethod', () => {
+  it('classifies router swaps by direction', () => {
+    expect(classifyMethod('swapExactAVAXForTokens')).toBe('BUY')
+    expect(classifyMethod('swapExactTokensForETH')).toBe('SELL')
+    expect(classifyMethod('swapExactTokensForTokens')).toBe('UNKNOWN')
+  })
+})
@@ -0,0 +1,192 @@
+import {
+  decodeAbiParameters,
+  erc20Abi,
+  parseAbi,
+  parseAbiItem,
+  toFunctionSelector,
+  type Abi,
+  type AbiFunction,
+  type AbiParameter,
+  type Hex,
+} from "viem"
+import { ARENA_CONTRACT_ABI } from "./contract-abi"
+import type { TransactionType } from "./blockchain"
+
+// Selector registry for the calls the monitor sees. Selectors are computed from the loaded ABIs instead of
+// being written out by hand, arguments are decoded from the matching inputs, and selectors nobody registered
+// are counted so missing ABIs show up.
+
+export interface MethodInfo {
+  selector: string
+  name: string
+  signature: string
+  type: TransactionType
+  description: string
+  inputs: readonly AbiParameter[]
+}
+
+export interface DecodedMethodCall {
+  method: MethodInfo
+  args: Record<string, unknown>
+}
+
+export interface UnknownSelector {
+  selector: string
+  count: number
+  firstSeen: number
+  lastSeen: number
+}
+
+// Uniswap V2 style router calls (with the AVAX naming some Avalanche forks use), plus WAVAX
+const ROUTER_ABI = parseAbi([
+  "function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) returns (uint256, uint256, uint256)",
+  "function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline) payable returns (uint256, uint256, uint256)",
+  "function addLiquidityAVAX(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountAVAXMin, address to, uint256 deadline) payable returns (uint256, uint256, uint256)",
+  "function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) returns (uint256, uint256)",
+  "function removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline) returns (uint256, uint256)",
+  "function removeLiquidityAVAX(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountAVAXMin, address to, uint256 deadline) returns (uint256, uint256)",
+  "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[])",
+  "function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline) payable returns (uint256[])",
+  "function swapExactAVAXForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[])",
+  "function swapAVAXForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline) payable returns (uint256[])",
+  "function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[])",
+  "function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline) returns (uint256[])",
+  "function swapExactTokensForAVAX(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[])",
+  "function swapTokensForExactAVAX(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline) returns (uint256[])",
+  "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[])",
+  "function deposit() payable",
+  "function withdraw(uint256 amount)",
+])
+
+// Selectors seen on the Arena contract whose deployed signature doesn't hash to the one in ARENA_CONTRACT_ABI,
+// registered with the parameters they were found to take
+const OBSERVED_ARENA_METHODS: { selector: string; signature: string }[] = [
+  {
+    selector: "0x0b8c6fec",
+    signature: "function createToken(string name, string symbol, uint256 totalSupply, uint256 taxPercentage)",
+  },
+  { selector: "0x5a46f06c", signature: "function createLP(address token, uint256 tokenAmount)" },
+  { selector: "0xa6f2ae3a", signature: "function buy() payable" },
+]
+
+const DESCRIPTIONS: Record<string, string> = {
+  createToken: "Create new token",
+  createLP: "Add initial liquidity",
+  buy: "Buy tokens with AVAX",
+  sell: "Sell tokens for AVAX",
+  deposit: "Deposit AVAX",
+  withdraw: "Withdraw AVAX",
+  approve: "Approve token spending",
+  transfer: "Transfer tokens",
+  transferFrom: "Transfer tokens from address",
+  swapExactTokensForTokens: "Swap tokens for tokens",
+}
+
+const methods = new Map<string, MethodInfo>()
+const unknownSelectors = new Map<string, UnknownSelector>()
+
+// Transaction type from the function name
+export function classifyMethod(name: string): TransactionType {
+  if (/^create.*token$/i.test(name)) return "TOKEN_CREATION"
+  if (name === "createLP" || name.startsWith("addLiquidity")) return "ADD_LIQUIDITY"
+  if (name.startsWith("removeLiquidity")) return "REMOVE_LIQUIDITY"
+  if (name === "buy" || name === "deposit" || /^swap(Exact)?(ETH|AVAX)For/.test(name)) return "BUY"
+  if (name === "sell" || name === "withdraw" || /^swap.*For(Exact)?(ETH|AVAX)$/.test(name)) return "SELL"
+  if (name === "approve") return "APPROVE"
+  if (name === "transfer" || name === "transferFrom") return "TRANSFER"
+  return "UNKNOWN"
+}
+
+function describeMethod(name: string, type: TransactionType): string {
+  if (DESCRIPTIONS[name]) return DESCRIPTIONS[name]
+  switch (type) {
+    case "ADD_LIQUIDITY":
+      return "Add liquidity to pool"
+    case "REMOVE_LIQUIDITY":
+      return "Remove liquidity from pool"
+    case "BUY":
+      return "Swap AVAX for tokens"
+    case "SELL":
+      return "Swap tokens for AVAX"
+    default:
+      return `Call ${name}`
+  }
+}
+
+function registerFunction(item: AbiFunction, selector = toFunctionSelector(item)) {
+  // The first registration of a selector wins, so extra ABIs can't shadow the Arena contract's own methods
+  const key = selector.toLowerCase()
+  if (methods.has(key)) return
+
+  const type = classifyMethod(item.name)
+  methods.set(key, {
+    selector: key,
+    name: item.name,
+    signature: `${item.name}(${item.inputs.map((input) => input.type).join(",")})`,
+    type,
+    description: describeMethod(item.name, type),
+    inputs: item.inputs,
+  })
+}
+
+// Register every function of an ABI under its computed selector
+export function registerAbi(abi: Abi | readonly unknown[]) {
+  for (const item of abi as Abi) {
+    if (item.type === "function") registerFunction(item)
+  }
+}
+
+// Register a function under a selector that doesn't match its signature (e.g. a contract with unverified source)
+export function registerSelector(selector: string, signature: string) {
+  const item = parseAbiItem(signature)
+  if (item.type !== "function") throw new Error(`Not a function signature: ${signature}`)
+  registerFunction(item, selector as Hex)
+}
+
+export function lookupMethod(selector: string): MethodInfo | undefined {
+  return methods.get(selector.toLowerCase())
+}
+
+// Decode the arguments of a call with the registered inputs, keyed by parameter name (or position when unnamed)
+export function decodeMethodCall(input: string): DecodedMethodCall | null {
+  const method = lookupMethod(input.slice(0, 10))
+  if (!method) return null
+
+  try {
+    const values = decodeAbiParameters(method.inputs, `0x${input.slice(10)}`)
+    const args: Record<string, unknown> = {}
+    method.inputs.forEach((param, index) => {
+      args[param.name || String(index)] = values[index]
+    })
+    return { method, args }
+  } catch (error) {
+    console.error(`Error decoding ${method.signature} call:`, error)
+    return null
+  }
+}
+
+export function recordUnknownSelector(selector: string) {
+  const key = selector.toLowerCase()
+  const now = Date.now()
+  const existing = unknownSelectors.get(key)
+
+  if (existing) {
+    existing.count++
+    existing.lastSeen = now
+  } else {
+    unknownSelectors.set(key, { selector: key, count: 1, firstSeen: now, lastSeen: now })
+    console.log(`🔎 Unknown method selector ${key}`)
+  }
+}
+
+// Unknown selectors seen by this process, most frequent first
+export function getUnknownSelectors(): UnknownSelector[] {
+  return [...unknownSelectors.values()].sort((a, b) => b.count - a.count)
+}
+
+registerAbi(ARENA_CONTRACT_ABI)
+for (const { selector, signature } of OBSERVED_ARENA_METHODS) {
+  registerSelector(selector, signature)
+}
+registerAbi(ROUTER_ABI)
+registerAbi(erc20Abi)
@@ -0,0 +1,258 @@
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, it, expect, vi } from 'vitest'
+import { ARENA_CONTRACT_ADDRESS, isLaunchpadContract } from './contracts'
+import { createRpcRecorder, createRpcReplayer, FIXTURE_DIR, loadRpcFixture, saveRpcFixture } from './rpc-fixtures'
+import { setRpcHandler } from './rpc-provider'
+import {
+  SYNTHETIC_BUYERS as BUYERS,
+  SYNTHETIC_CREATOR as CREATOR,
+  SYNTHETIC_DESCRIPTION,
+  SYNTHETIC_HEAD as HEAD,
+  SYNTHETIC_LAUNCH_HASH as LAUNCH_HASH,
+  SYNTHETIC_TOKEN as TOKEN,
+  syntheticNode,
+} from './synthetic-chain'
+
+// The launch pipeline end to end against replayed RPC responses, with Supabase swapped for an in-memory store
+// and the Arena API answering 404, so nothing leaves the process. fixtures/rpc/synthetic-launch.json comes
+// from a made-up chain; a launch recorded from mainnet (fixtures/rpc/arena-launch.json) is checked as well
+// when it has been recorded.
+//
+// With RECORD_SYNTHETIC_FIXTURE=1 (pnpm synthetic-fixture) the tests run against lib/synthetic-chain.ts instead
+// and write what they requested to the synthetic fixture. Rerun it whenever the pipeline's RPC requests change.
+
+type Row = Record<string, unknown>
+
+const db = vi.hoisted(() => {
+  const tables = new Map<string, Row[]>()
+  let nextId = 1
+
+  const rowsOf = (table: string) => {
+    if (!tables.has(table)) tables.set(table, [])
+    return tables.get(table)!
+  }
+  const lower = (value: unknown) => (typeof value === 'string' ? value.toLowerCase() : value)
+
+  // Just enough of the supabase-js query builder for the pipeline: filters narrow the rows, anything else
+  // (ordering, paging, or filters the store doesn't know) is ignored
+  function from(table: string) {
+    let operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select'
+    let values: Row[] = []
+    let conflict: string[] = []
+    let ignoreDuplicates = false
+    let single: 'single' | 'maybe' | null = null
+    const filters: ((row: Row) => boolean)[] = []
+
+    const run = () => {
+      const rows = rowsOf(table)
+      const matched = rows.filter((row) => filters.every((filter) => filter(row)))
+      let data: Row[] = matched
+
+      if (operation === 'insert' || operation === 'upsert') {
+        data = []
+        for (const value of values) {
+          const existing =
+            operation === 'upsert' && conflict.length > 0
+              ? rows.find((row) => conflict.every((column) => row[column] === value[column]))
+              : undefined
+          if (existing) {
+            if (!ignoreDuplicates) Object.assign(existing, value)
+            data.push(existing)
+          } else {
+            const row = { id: `row-${nextId++}`, created_at: new Date().toISOString(), ...value }
+            rows.push(row)
+            data.push(row)
+          }
+        }
+      } else if (operation === 'update') {
+        for (const row of matched) Object.assign(row, values[0])
+      } else if (operation === 'delete') {
+        tables.set(table, rows.filter((row) => !matched.includes(row)))
+      }
+
+      if (single) {
+        const first = data[0] ?? null
+        const error = !first && single === 'single' ? { code: 'PGRST116', message: 'No rows found' } : null
+        return { data: first, error }
+      }
+      return { data, error: null }
+    }
+
+    const builder: Row = {
+      select: () => proxy,
+      insert: (rows: Row | Row[]) => ((operation = 'insert'), (values = [rows].flat()), proxy),
+      upsert: (rows: Row | Row[], options?: { onConflict?: string; ignoreDuplicates?: boolean }) => {
+        operation = 'upsert'
+        values = [rows].flat()
+        conflict = options?.onConflict?.split(',') ?? []
+        ignoreDuplicates = options?.ignoreDuplicates ?? false
+        return proxy
+      },
+      update: (row: Row) => ((operation = 'update'), (values = [row]), proxy),
+      delete: () => ((operation = 'delete'), proxy),
+      eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), proxy),
+      in: (column: string, list: unknown[]) => (filters.push((row) => list.includes(row[column])), proxy),
+      ilike: (column: string, value: string) => (filters.push((row) => lower(row[column]) === lower(value)), proxy),
+      gte: (column: string, value: number) => (filters.push((row) => Number(row[column]) >= value), proxy),
+      lte: (column: string, value: number) => (filters.push((row) => Number(row[column]) <= value), proxy),
+      gt: (column: string, value: number) => (filters.push((row) => Number(row[column]) > value), proxy),
+      lt: (column: string, value: number) => (filters.push((row) => Number(row[column]) < value), proxy),
+      is: (column: string, value: unknown) => (filters.push((row) => (row[column] ?? null) === value), proxy),
+      single: () => ((single = 'single'), proxy),
+      maybeSingle: () => ((single = 'maybe'), proxy),
+      then: (resolve: (value: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve().then(run).then(resolve, reject),
+    }
+    const proxy: Row = new Proxy(builder, { get: (target, key: string) => target[key] ?? (() => proxy) })
+    return proxy
+  }
+
+  // apply_token_transfers from scripts/create-holder-functions.sql: store new transfers, move their balances
+  function rpc(name: string, args: { transfers: Row[]; chain: number; at_block: number }) {
+    if (name !== 'apply_token_transfers') return Promise.resolve({ data: null, error: { message: `No ${name}` } })
+
+    const stored = rowsOf('token_transfers')
+    const isNew = (transfer: Row) =>
+      !stored.some((row) => row.transaction_hash === transfer.transaction_hash && row.log_index === transfer.log_index)
+    const added = args.transfers.filter(isNew)
+
+    const holders = rowsOf('token_holders')
+    const move = (token: unknown, holder: unknown, change: bigint) => {
+      if (holder === '0x0000000000000000000000000000000000000000') return
+      let row = holders.find((entry) => entry.token_address === token && entry.holder_address === holder)
+      if (!row) {
+        row = { chain_id: args.chain, token_address: token, holder_address: holder, balance: '0' }
+        holders.push(row)
+      }
+      row.balance = (BigInt(row.balance as string) + change).toString()
+      row.updated_block = args.at_block
+    }
+    for (const transfer of added) {
+      stored.push({ ...transfer, chain_id: args.chain })
+      move(transfer.token_address, transfer.from_address, -BigInt(transfer.value as string))
+      move(transfer.token_address, transfer.to_address, BigInt(transfer.value as string))
+    }
+    tables.set('token_holders', holders.filter((row) => BigInt(row.balance as string) >= BigInt(0)))
+
+    return Promise.resolve({ data: added.length, error: null })
+  }
+
+  return { tables, rowsOf, supabase: { from, rpc } }
+})
+
+vi.mock('./supabase', () => ({ supabase: db.supabase }))
+
+const SYNTHETIC_LAUNCH = 'synthetic-launch'
+const recorder = process.env.RECORD_SYNTHETIC_FIXTURE
+  ? createRpcRecorder({ name: SYNTHETIC_LAUNCH, chainId: 43114, description: SYNTHETIC_DESCRIPTION, synthetic: true })
+  : null
+const pipelineHandler = recorder
+  ? (args: { method: string; params?: unknown }) => recorder.handler(args, syntheticNode)
+  : createRpcReplayer(loadRpcFixture(SYNTHETIC_LAUNCH))
+
+beforeAll(() => {
+  setRpcHandler(pipelineHandler)
+  vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 404 })))
+})
+
+afterAll(() => {
+  if (recorder) saveRpcFixture(recorder.toFixture())
+  setRpcHandler(null)
+  vi.unstubAllGlobals()
+})
+
+describe('recorded launch pipeline', () => {
+  it('analyzes the launch transaction', async () => {
+    const { analyzeTransaction } = await import('./transaction-analyzer')
+    const analysis = await analyzeTransaction(LAUNCH_HASH)
+
+    expect(analysis?.status).toBe('success')
+    expect(analysis?.method.name).toContain('createToken')
+    expect(analysis?.tokenCreated).toMatchObject({ tokenAddress: TOKEN, creator: CREATOR })
+    expect(analysis?.events.map((event) => event.type)).toEqual(['Transfer', 'TokenCreated'])
+  })
+
+  it('loads recent launches with their metadata and launch params', async () => {
+    const { fetchContractTransactions } = await import('./blockchain')
+    const transactions = await fetchContractTransactions()
+
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0]).toMatchObject({
+      hash: LAUNCH_HASH,
+      from: CREATOR.toLowerCase(),
+      blockNumber: HEAD,
+      tokenAddress: TOKEN,
+      contractAddress: ARENA_CONTRACT_ADDRESS.toLowerCase(),
+      transactionType: 'TOKEN_CREATION',
+    })
+    expect(transactions[0].tokenMetadata).toMatchObject({ name: 'Fixture Token', symbol: 'FIXT' })
+    expect(transactions[0].launchParams?.creatorFeeBasisPoints).toBe(100)
+  })
+
+  it('stores a launch with its creator', async () => {
+    const { fetchContractTransactions } = await import('./blockchain')
+    const { processTokenCreation } = await import('./database-simple')
+    const [launch] = await fetchContractTransactions()
+
+    expect(await processTokenCreation(launch, { postAlerts: false })).not.toBeNull()
+    expect(db.rowsOf('tokens')).toEqual([
+      expect.objectContaining({ address: TOKEN, symbol: 'FIXT', creator_fee_basis_points: 100 }),
+    ])
+    expect(db.rowsOf('creators')).toEqual([
+      expect.objectContaining({ wallet_address: CREATOR.toLowerCase(), contracts_created: 1 }),
+    ])
+    expect(db.rowsOf('contract_transactions')).toHaveLength(1)
+  })
+
+  it('indexes the head block in a monitor pass', async () => {
+    const { getMonitoringStatus, startContractMonitoring, stopContractMonitoring } = await import('./blockchain')
+
+    startContractMonitoring()
+    try {
+      await vi.waitFor(() => expect(getMonitoringStatus().lastProcessedBlock).toBe(HEAD.toString()), {
+        timeout: 5000,
+      })
+    } finally {
+      stopContractMonitoring()
+    }
+
+    const trades = db.rowsOf('trades')
+    expect(trades.map((trade) => trade.trader_address)).toEqual(BUYERS)
+    expect(trades.every((trade) => trade.side === 'BUY' && trade.block_number === Number(HEAD))).toBe(true)
+    expect(db.rowsOf('indexer_cursors')).toEqual([
+      expect.objectContaining({ cursor_type: 'live', last_processed_block: Number(HEAD) }),
+    ])
+
+    const holders = db.rowsOf('token_holders').map((holder) => holder.holder_address)
+    expect(holders).toEqual(expect.arrayContaining(BUYERS.map((buyer) => buyer.toLowerCase())))
+
+    // Both buyers bought in the launch block, so they're its snipers
+    expect(db.rowsOf('token_snipers').map((sniper) => sniper.wallet_address)).toEqual(
+      expect.arrayContaining(BUYERS.map((buyer) => buyer.toLowerCase())),
+    )
+    expect(db.rowsOf('tokens')[0]).toMatchObject({ sniper_count: 2 })
+  })
+})
+
+const REAL_LAUNCH = 'arena-launch'
+
+describe.skipIf(!existsSync(join(FIXTURE_DIR, `${REAL_LAUNCH}.json`)))('recorded mainnet launch', () => {
+  const realFixture = () => loadRpcFixture(REAL_LAUNCH)
+
+  beforeAll(() => setRpcHandler(createRpcReplayer(realFixture())))
+  afterAll(() => setRpcHandler(pipelineHandler))
+
+  it('analyzes the launch transaction', async () => {
+    const { analyzeTransaction } = await import('./transaction-analyzer')
+    const [hash] = realFixture().calls.find((call) => call.method === 'eth_getTransactionByHash')!.params as string[]
+    const analysis = await analyzeTransaction(hash)
+
+    expect(realFixture().synthetic).toBeFalsy()
+    expect(analysis?.status).toBe('success')
+    expect(analysis?.tokenCreated?.tokenAddress).toMatch(/^0x[0-9a-fA-F]{40}$/)
+    expect(analysis?.tokenCreated?.symbol).not.toBe('')
+    const created = analysis?.events.find((event) => event.type === 'TokenCreated')
+    expect(isLaunchpadContract(created?.address)).toBe(true)
+  })
+})
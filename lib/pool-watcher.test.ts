@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { getRemovedPercentage, poolStateFromReserves } from './pool-watcher'
+
+const WEI = BigInt(10 ** 18)
+
+describe('poolStateFromReserves', () => {
+  it('prices the token in AVAX wei per whole token', () => {
+    // 50 AVAX against 1,000,000 tokens is 0.00005 AVAX per token
+    const state = poolStateFromReserves(1000000n * WEI, 50n * WEI)
+    expect(state.priceAvax).toBe(50000000000000n)
+    expect(state.liquidityAvax).toBe(100n * WEI)
+  })
+
+  it('returns a zero price for an empty pool', () => {
+    expect(poolStateFromReserves(0n, 0n).priceAvax).toBe(0n)
+  })
+})
+
+describe('getRemovedPercentage', () => {
+  it('measures the burn against the reserve before it', () => {
+    // 30 AVAX taken, 10 AVAX left: 75% of the pool was removed
+    expect(getRemovedPercentage(30n * WEI, 10n * WEI)).toBe(75)
+  })
+
+  it('is 100 when the pool is drained', () => {
+    expect(getRemovedPercentage(40n * WEI, 0n)).toBe(100)
+  })
+
+  it('is 0 without any liquidity', () => {
+    expect(getRemovedPercentage(0n, 0n)).toBe(0)
+  })
+})
@@ -0,0 +1,234 @@
+import { parseAbi, parseAbiItem, type Address } from "viem"
+import { client } from "./blockchain"
+import { getWavaxAddress } from "./chains"
+import {
+  getGraduatedPairs,
+  saveLiquidityRemovals,
+  savePoolSnapshots,
+  type LiquidityRemovalInsert,
+  type PoolSnapshotInsert,
+} from "./database"
+
+// Graduated launches trade in a Uniswap V2 style pair against WAVAX (per chain, see lib/chains.ts). Every
+// reserve change emits Sync with the new reserves, so the last Sync of a block is the pool state at the end of
+// that block.
+
+const PAIR_ABI = parseAbi([
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+])
+
+export const SYNC_EVENT = parseAbiItem("event Sync(uint112 reserve0, uint112 reserve1)")
+export const SWAP_EVENT = parseAbiItem(
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+)
+export const BURN_EVENT = parseAbiItem(
+  "event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)",
+)
+
+// Burns that take at least this share of the AVAX side are flagged
+const LIQUIDITY_REMOVAL_THRESHOLD = Number(process.env.NEXT_PUBLIC_LIQUIDITY_REMOVAL_THRESHOLD || "20")
+
+// Keep the address list of a single getLogs call small enough for public RPCs
+const PAIRS_PER_REQUEST = 100
+
+const WEI = BigInt(10 ** 18)
+
+export interface PoolState {
+  reserveToken: bigint
+  reserveAvax: bigint
+  priceAvax: bigint // Wei per whole token
+  liquidityAvax: bigint // Both sides valued in AVAX
+}
+
+// Which side of the pair is AVAX, or null when the pair isn't quoted in WAVAX
+type PairLayout = { tokenAddress: string; avaxIsToken0: boolean }
+
+const pairLayouts = new Map<string, PairLayout | null>()
+
+export function poolStateFromReserves(reserveToken: bigint, reserveAvax: bigint): PoolState {
+  return {
+    reserveToken,
+    reserveAvax,
+    priceAvax: reserveToken > 0n ? (reserveAvax * WEI) / reserveToken : 0n,
+    liquidityAvax: reserveAvax * 2n,
+  }
+}
+
+// Share of the AVAX reserve a burn took, in percent with two decimals
+export function getRemovedPercentage(avaxRemoved: bigint, reserveAvaxAfter: bigint): number {
+  const before = reserveAvaxAfter + avaxRemoved
+  if (before === 0n) return 0
+  return Number((avaxRemoved * 10000n) / before) / 100
+}
+
+async function getPairLayout(pairAddress: string, tokenAddress: string): Promise<PairLayout | null> {
+  const key = pairAddress.toLowerCase()
+  if (pairLayouts.has(key)) return pairLayouts.get(key)!
+
+  const [token0, token1] = await Promise.all([
+    client.readContract({ address: pairAddress as Address, abi: PAIR_ABI, functionName: "token0" }),
+    client.readContract({ address: pairAddress as Address, abi: PAIR_ABI, functionName: "token1" }),
+  ])
+
+  const wavax = getWavaxAddress().toLowerCase()
+  let layout: PairLayout | null = null
+  if (token0.toLowerCase() === wavax || token1.toLowerCase() === wavax) {
+    layout = { tokenAddress, avaxIsToken0: token0.toLowerCase() === wavax }
+  } else {
+    console.warn(`⚠️ Pair ${pairAddress} of ${tokenAddress} is not quoted in WAVAX, skipping it`)
+  }
+
+  pairLayouts.set(key, layout)
+  return layout
+}
+
+// Current pool state read straight from the pair, for pools without stored snapshots
+export async function getLivePoolState(tokenAddress: string, pairAddress: string): Promise<PoolState | null> {
+  try {
+    const layout = await getPairLayout(pairAddress, tokenAddress)
+    if (!layout) return null
+
+    const [reserve0, reserve1] = await client.readContract({
+      address: pairAddress as Address,
+      abi: PAIR_ABI,
+      functionName: "getReserves",
+    })
+
+    return layout.avaxIsToken0 ? poolStateFromReserves(reserve1, reserve0) : poolStateFromReserves(reserve0, reserve1)
+  } catch (error) {
+    console.error(`❌ Error reading pool reserves for ${tokenAddress}:`, error)
+    return null
+  }
+}
+
+// Store a price/liquidity snapshot per pair and block, and flag large liquidity burns, for every graduated
+// launch in a block range. Throws when the chain or the graduated launches can't be read, so callers can retry
+// the range.
+export async function indexPoolsInRange(fromBlock: bigint, toBlock: bigint): Promise<number> {
+  const pairs = await getGraduatedPairs()
+  if (!pairs) throw new Error(`Failed to read graduated pairs for blocks ${fromBlock}-${toBlock}`)
+  if (pairs.length === 0) return 0
+
+  const layouts = new Map<string, PairLayout>()
+  for (const { tokenAddress, pairAddress } of pairs) {
+    try {
+      const layout = await getPairLayout(pairAddress, tokenAddress)
+      if (layout) layouts.set(pairAddress.toLowerCase(), layout)
+    } catch (error) {
+      console.error(`❌ Error reading pair ${pairAddress} of ${tokenAddress}, skipping it for now:`, error)
+    }
+  }
+
+  const addresses = [...layouts.keys()] as Address[]
+  const logs = []
+  for (let i = 0; i < addresses.length; i += PAIRS_PER_REQUEST) {
+    logs.push(
+      ...(await client.getLogs({
+        address: addresses.slice(i, i + PAIRS_PER_REQUEST),
+        events: [SYNC_EVENT, SWAP_EVENT, BURN_EVENT],
+        fromBlock,
+        toBlock,
+      })),
+    )
+  }
+  if (logs.length === 0) return 0
+
+  logs.sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1,
+  )
+
+  const blockTimestamps = new Map<bigint, number>()
+  const getTimestamp = async (blockNumber: bigint) => {
+    let timestamp = blockTimestamps.get(blockNumber)
+    if (timestamp === undefined) {
+      const block = await client.getBlock({ blockNumber })
+      timestamp = Number(block.timestamp) * 1000
+      blockTimestamps.set(blockNumber, timestamp)
+    }
+    return timestamp
+  }
+
+  const snapshots = new Map<string, PoolSnapshotInsert>()
+  const removals: LiquidityRemovalInsert[] = []
+  const lastSync = new Map<string, PoolState>()
+
+  for (const log of logs) {
+    const pairAddress = log.address.toLowerCase()
+    const layout = layouts.get(pairAddress)
+    if (!layout) continue
+
+    const key = `${pairAddress}:${log.blockNumber}`
+
+    if (log.eventName === "Sync") {
+      const { reserve0, reserve1 } = log.args
+      if (reserve0 === undefined || reserve1 === undefined) continue
+
+      const state = layout.avaxIsToken0
+        ? poolStateFromReserves(reserve1, reserve0)
+        : poolStateFromReserves(reserve0, reserve1)
+      lastSync.set(pairAddress, state)
+
+      const existing = snapshots.get(key)
+      snapshots.set(key, {
+        token_address: layout.tokenAddress,
+        pair_address: pairAddress,
+        block_number: Number(log.blockNumber),
+        timestamp: new Date(await getTimestamp(log.blockNumber)).toISOString(),
+        reserve_token: state.reserveToken.toString(),
+        reserve_avax: state.reserveAvax.toString(),
+        price_avax: state.priceAvax.toString(),
+        liquidity_avax: state.liquidityAvax.toString(),
+        swap_count: existing?.swap_count ?? 0,
+        volume_avax: existing?.volume_avax ?? "0",
+      })
+    } else if (log.eventName === "Swap") {
+      // Swap follows the Sync of the same trade, so the snapshot of this block already exists
+      const snapshot = snapshots.get(key)
+      if (!snapshot) continue
+
+      const { amount0In = 0n, amount1In = 0n, amount0Out = 0n, amount1Out = 0n } = log.args
+      const avaxVolume = layout.avaxIsToken0 ? amount0In + amount0Out : amount1In + amount1Out
+      snapshot.swap_count = (snapshot.swap_count ?? 0) + 1
+      snapshot.volume_avax = (BigInt(snapshot.volume_avax ?? "0") + avaxVolume).toString()
+    } else if (log.eventName === "Burn") {
+      // Burn is emitted right after the Sync with the reserves that are left
+      const after = lastSync.get(pairAddress)
+      const { amount0, amount1, to } = log.args
+      if (!after || amount0 === undefined || amount1 === undefined || !to) continue
+
+      const avaxRemoved = layout.avaxIsToken0 ? amount0 : amount1
+      const tokenRemoved = layout.avaxIsToken0 ? amount1 : amount0
+      const removedPercentage = getRemovedPercentage(avaxRemoved, after.reserveAvax)
+      if (removedPercentage < LIQUIDITY_REMOVAL_THRESHOLD) continue
+
+      console.log(
+        `🚨 ${removedPercentage}% of the liquidity of ${layout.tokenAddress} was removed in block ${log.blockNumber}`,
+      )
+
+      removals.push({
+        token_address: layout.tokenAddress,
+        pair_address: pairAddress,
+        transaction_hash: log.transactionHash,
+        log_index: log.logIndex,
+        remover_address: to,
+        avax_removed: avaxRemoved.toString(),
+        token_removed: tokenRemoved.toString(),
+        reserve_avax_before: (after.reserveAvax + avaxRemoved).toString(),
+        removed_percentage: removedPercentage,
+        block_number: Number(log.blockNumber),
+        timestamp: new Date(await getTimestamp(log.blockNumber)).toISOString(),
+      })
+    }
+  }
+
+  if (!(await savePoolSnapshots([...snapshots.values()])) || !(await saveLiquidityRemovals(removals))) {
+    throw new Error(`Failed to save pool data for blocks ${fromBlock}-${toBlock}`)
+  }
+
+  if (snapshots.size > 0) {
+    console.log(`🏊 Stored ${snapshots.size} pool snapshots in blocks ${fromBlock}-${toBlock}`)
+  }
+  return snapshots.size
+}
@@ -0,0 +1,138 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { custom, RpcRequestError } from "viem"
+import type { RpcHandler, RpcRequest } from "./rpc-provider"
+
+// Recorded JSON-RPC responses, so the pipeline can run offline against known launches. A recorder sits in
+// front of the real endpoints (setRpcHandler) and keeps every request with its raw response; a replayer
+// answers the same requests from a fixture file and fails loudly on anything that wasn't recorded.
+//
+// Requests are matched on method and params. A request recorded with different responses over time (the
+// chain head, a block that was reorged) replays them in the recorded order and then keeps the last one.
+
+export const FIXTURE_DIR = join(process.cwd(), "fixtures", "rpc")
+
+export interface RecordedRpcCall {
+  method: string
+  params: unknown
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+export interface RpcFixture {
+  name: string
+  description?: string
+  chainId: number
+  recordedAt?: string // When the calls were recorded from a live node
+  synthetic?: boolean // Generated from a made-up chain instead of recorded, so it proves nothing about mainnet
+  calls: RecordedRpcCall[]
+}
+
+// Addresses come checksummed or lowercase depending on the code path, so hex strings match either way
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") return value.startsWith("0x") ? value.toLowerCase() : value
+  if (Array.isArray(value)) return value.map(normalize)
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, normalize(entry)]))
+  }
+  return value
+}
+
+export function rpcCallKey(method: string, params: unknown): string {
+  return `${method}:${JSON.stringify(normalize(params ?? []))}`
+}
+
+// Synthetic recordings come from a made-up chain (lib/synthetic-chain.ts) instead of a live node
+export function createRpcRecorder(options: {
+  name: string
+  chainId: number
+  description?: string
+  synthetic?: boolean
+}) {
+  const calls: RecordedRpcCall[] = []
+  const lastResponse = new Map<string, string>()
+
+  const remember = (call: RecordedRpcCall) => {
+    // Repeats of a request only matter when the response changed
+    const key = rpcCallKey(call.method, call.params)
+    const response = JSON.stringify({ result: call.result, error: call.error })
+    if (lastResponse.get(key) === response) return
+
+    lastResponse.set(key, response)
+    calls.push(call)
+  }
+
+  const handler: RpcHandler = async (args, next) => {
+    try {
+      const result = await next(args)
+      remember({ method: args.method, params: args.params ?? [], result })
+      return result
+    } catch (error) {
+      // Only errors the node answered with are part of the chain's behaviour; network failures aren't
+      if (error instanceof RpcRequestError) {
+        const recorded = { code: error.code, message: error.details }
+        remember({ method: args.method, params: args.params ?? [], error: recorded })
+      }
+      throw error
+    }
+  }
+
+  const toFixture = (): RpcFixture => ({
+    name: options.name,
+    ...(options.description && { description: options.description }),
+    chainId: options.chainId,
+    ...(options.synthetic ? { synthetic: true } : { recordedAt: new Date().toISOString() }),
+    calls,
+  })
+
+  return { handler, calls, toFixture }
+}
+
+export class MissingRpcFixtureError extends Error {
+  constructor(method: string, params: unknown) {
+    super(`No recorded response for ${method} ${JSON.stringify(params ?? [])}`)
+    this.name = "MissingRpcFixtureError"
+  }
+}
+
+// Answer requests from a fixture; `next` is never called, so nothing reaches the network
+export function createRpcReplayer(fixture: RpcFixture): RpcHandler {
+  const responses = new Map<string, RecordedRpcCall[]>()
+  for (const call of fixture.calls) {
+    const key = rpcCallKey(call.method, call.params)
+    responses.set(key, [...(responses.get(key) ?? []), call])
+  }
+
+  return async (args) => {
+    const queue = responses.get(rpcCallKey(args.method, args.params))
+    if (!queue) throw new MissingRpcFixtureError(args.method, args.params)
+
+    const call = queue.length > 1 ? queue.shift()! : queue[0]
+    if (call.error) {
+      const body = { method: args.method, params: args.params }
+      throw new RpcRequestError({ body, error: call.error, url: "fixture" })
+    }
+    return call.result
+  }
+}
+
+const offline: RpcRequest = async (args) => {
+  throw new MissingRpcFixtureError(args.method, args.params)
+}
+
+// viem transport that replays a fixture, for clients built outside the shared RPC provider
+export function replayTransport(fixture: RpcFixture) {
+  const replay = createRpcReplayer(fixture)
+  return custom({ request: (args: Parameters<RpcRequest>[0]) => replay(args, offline) })
+}
+
+export function loadRpcFixture(name: string, directory = FIXTURE_DIR): RpcFixture {
+  return JSON.parse(readFileSync(join(directory, `${name}.json`), "utf8"))
+}
+
+export function saveRpcFixture(fixture: RpcFixture, directory = FIXTURE_DIR): string {
+  const file = join(directory, `${fixture.name}.json`)
+  mkdirSync(dirname(file), { recursive: true })
+  writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`)
+  return file
+}
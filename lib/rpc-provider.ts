@@ -0,0 +1,202 @@
+import {
+  createPublicClient,
+  custom,
+  http,
+  HttpRequestError,
+  RpcRequestError,
+  TimeoutError,
+} from "viem"
+import { getChainProfile } from "./chains"
+
+const chainProfile = getChainProfile()
+
+const RPC_TIMEOUT = 10000
+const BASE_COOLDOWN = 2000
+const MAX_COOLDOWN = 60000
+const LATENCY_SMOOTHING = 0.2 // Weight of the newest sample in the moving average
+
+// JSON-RPC codes that mean "this endpoint can't serve you right now" rather than "this request is wrong"
+const RETRYABLE_RPC_CODES = [-32005, -32603]
+
+export type RpcEndpointStatus = "healthy" | "degraded" | "down"
+
+export interface RpcEndpointHealth {
+  label: string
+  status: RpcEndpointStatus
+  isPreferred: boolean
+  requests: number
+  failures: number
+  errorRate: number
+  avgLatencyMs: number | null
+  lastError: string | null
+  lastErrorAt: number | null
+  cooldownUntil: number | null
+}
+
+interface RpcEndpoint {
+  url: string
+  label: string
+  request: ReturnType<ReturnType<typeof http>>["request"]
+  requests: number
+  failures: number
+  consecutiveFailures: number
+  avgLatencyMs: number | null
+  lastError: string | null
+  lastErrorAt: number | null
+  cooldownUntil: number
+}
+
+// Comma separated list of RPC endpoints for the active chain, tried in order of health
+function getRpcUrls(): string[] {
+  const configured = process.env.NEXT_PUBLIC_AVALANCHE_RPC_URLS?.split(",")
+    .map((url) => url.trim())
+    .filter(Boolean)
+
+  return configured && configured.length > 0 ? configured : chainProfile.rpcUrls
+}
+
+// Only show the host, so API keys in endpoint URLs never reach the dashboard
+function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+const endpoints: RpcEndpoint[] = getRpcUrls().map((url) => ({
+  url,
+  label: endpointLabel(url),
+  request: http(url, { retryCount: 0, timeout: RPC_TIMEOUT })({ chain: chainProfile.chain }).request,
+  requests: 0,
+  failures: 0,
+  consecutiveFailures: 0,
+  avgLatencyMs: null,
+  lastError: null,
+  lastErrorAt: null,
+  cooldownUntil: 0,
+}))
+
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpRequestError || error instanceof TimeoutError) return true
+  if (error instanceof RpcRequestError) return RETRYABLE_RPC_CODES.includes(error.code)
+  return false
+}
+
+// Lower is better: recent failures weigh far more than a few extra milliseconds of latency
+function endpointScore(endpoint: RpcEndpoint): number {
+  const errorRate = endpoint.requests > 0 ? endpoint.failures / endpoint.requests : 0
+  return endpoint.consecutiveFailures * 10000 + errorRate * 1000 + (endpoint.avgLatencyMs ?? 0)
+}
+
+// Endpoints out of cooldown first, best score first; cooling endpoints stay as a last resort
+function rankEndpoints(): RpcEndpoint[] {
+  const now = Date.now()
+  return [...endpoints].sort((a, b) => {
+    const aCooling = a.cooldownUntil > now ? 1 : 0
+    const bCooling = b.cooldownUntil > now ? 1 : 0
+    if (aCooling !== bCooling) return aCooling - bCooling
+    return endpointScore(a) - endpointScore(b)
+  })
+}
+
+function recordSuccess(endpoint: RpcEndpoint, latencyMs: number) {
+  endpoint.requests++
+  endpoint.consecutiveFailures = 0
+  endpoint.cooldownUntil = 0
+  endpoint.avgLatencyMs =
+    endpoint.avgLatencyMs === null
+      ? latencyMs
+      : endpoint.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING
+}
+
+function recordFailure(endpoint: RpcEndpoint, error: unknown) {
+  endpoint.requests++
+  endpoint.failures++
+  endpoint.consecutiveFailures++
+  endpoint.lastError = error instanceof Error ? error.message.split("\n")[0] : String(error)
+  endpoint.lastErrorAt = Date.now()
+
+  // Back off exponentially, rate limits (HTTP 429) straight to the maximum
+  const isRateLimited = error instanceof HttpRequestError && error.status === 429
+  const cooldown = isRateLimited
+    ? MAX_COOLDOWN
+    : Math.min(BASE_COOLDOWN * 2 ** (endpoint.consecutiveFailures - 1), MAX_COOLDOWN)
+  endpoint.cooldownUntil = Date.now() + cooldown
+}
+
+async function request(args: { method: string; params?: unknown }): Promise<unknown> {
+  let lastError: unknown = null
+
+  for (const endpoint of rankEndpoints()) {
+    const startedAt = Date.now()
+
+    try {
+      const result = await endpoint.request(args)
+      recordSuccess(endpoint, Date.now() - startedAt)
+      return result
+    } catch (error) {
+      if (!isRetryableError(error)) {
+        // The endpoint answered; the request itself is wrong, so another endpoint won't help
+        recordSuccess(endpoint, Date.now() - startedAt)
+        throw error
+      }
+
+      recordFailure(endpoint, error)
+      lastError = error
+      console.warn(`⚠️ RPC ${endpoint.label} failed for ${args.method}, trying next endpoint`)
+    }
+  }
+
+  console.error(`❌ All ${endpoints.length} RPC endpoints failed for ${args.method}`)
+  throw lastError
+}
+
+export type RpcRequest = (args: { method: string; params?: unknown }) => Promise<unknown>
+// Sits in front of the endpoints, e.g. to record their responses or replay recorded ones in tests; `next`
+// sends the request on to the endpoints
+export type RpcHandler = (args: { method: string; params?: unknown }, next: RpcRequest) => Promise<unknown>
+
+let rpcHandler: RpcHandler | null = null
+
+// Install a handler for every request of the shared client, or remove it with null
+export function setRpcHandler(handler: RpcHandler | null): void {
+  rpcHandler = handler
+}
+
+// Shared viem client for every module that reads the active chain
+export const rpcClient = createPublicClient({
+  chain: chainProfile.chain,
+  transport: custom(
+    { request: (args: Parameters<RpcRequest>[0]) => (rpcHandler ? rpcHandler(args, request) : request(args)) },
+    { key: "failover", name: "Failover RPC", retryCount: 0 },
+  ),
+})
+
+// Health of each endpoint as seen by this process (the browser and the worker keep separate stats)
+export function getRpcHealth(): RpcEndpointHealth[] {
+  const now = Date.now()
+  const preferred = rankEndpoints()[0]
+
+  return endpoints.map((endpoint) => {
+    const errorRate = endpoint.requests > 0 ? endpoint.failures / endpoint.requests : 0
+    const isCooling = endpoint.cooldownUntil > now
+
+    let status: RpcEndpointStatus = "healthy"
+    if (isCooling) status = "down"
+    else if (endpoint.consecutiveFailures > 0 || errorRate > 0.1) status = "degraded"
+
+    return {
+      label: endpoint.label,
+      status,
+      isPreferred: endpoint === preferred,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      errorRate,
+      avgLatencyMs: endpoint.avgLatencyMs !== null ? Math.round(endpoint.avgLatencyMs) : null,
+      lastError: endpoint.lastError,
+      lastErrorAt: endpoint.lastErrorAt,
+      cooldownUntil: isCooling ? endpoint.cooldownUntil : null,
+    }
+  })
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { detectCreatorEvents, getSeverity, resolveMinAlertSeverity, summarizeRugHistory } from './rug-detector'
+import type { ArenaToken } from './trades'
+
+const TOKEN = '0x1111111111111111111111111111111111111111'
+const CREATOR = '0x2222222222222222222222222222222222222222'
+const LAUNCHPAD = '0x3333333333333333333333333333333333333333'
+const PAIR = '0x4444444444444444444444444444444444444444'
+const FRIEND = '0x5555555555555555555555555555555555555555'
+const BUYER = '0x6666666666666666666666666666666666666666'
+
+const SUPPLY = BigInt('1000000000000000000000000000')
+
+const token: ArenaToken = {
+  address: TOKEN,
+  pairAddress: PAIR,
+  creatorAddress: CREATOR,
+  totalSupply: SUPPLY,
+  contractAddress: LAUNCHPAD,
+}
+
+const transfer = (from: string, to: string, percent: number, logIndex: number) => ({
+  token_address: TOKEN,
+  transaction_hash: `0x${'ab'.repeat(32)}`,
+  log_index: logIndex,
+  from_address: from,
+  to_address: to,
+  value: ((SUPPLY * BigInt(percent)) / BigInt(100)).toString(),
+  block_number: 100,
+})
+
+describe('creator activity', () => {
+  it('rates severity by share and full exits', () => {
+    expect(getSeverity('CREATOR_SELL', 0.5)).toBe('low')
+    expect(getSeverity('CREATOR_SELL', 6)).toBe('high')
+    expect(getSeverity('CREATOR_SELL', 2, true)).toBe('high')
+    expect(getSeverity('CREATOR_TRANSFER', 12, true)).toBe('critical')
+    expect(getSeverity('LIQUIDITY_REMOVAL', 30)).toBe('medium')
+    expect(getSeverity('LIQUIDITY_REMOVAL', 90)).toBe('critical')
+  })
+
+  it('finds creator sells, transfers out and LP removals', () => {
+    const tokens = new Map([[TOKEN, token]])
+    const removal = {
+      token_address: TOKEN,
+      pair_address: PAIR,
+      transaction_hash: `0x${'cd'.repeat(32)}`,
+      log_index: 7,
+      remover_address: CREATOR,
+      avax_removed: '1000',
+      token_removed: '2000',
+      reserve_avax_before: '1000',
+      removed_percentage: 100,
+      block_number: 101,
+      timestamp: '2025-01-01T00:00:00.000Z',
+    }
+
+    const events = detectCreatorEvents(
+      [
+        transfer(CREATOR, LAUNCHPAD, 2, 1),
+        transfer(CREATOR, PAIR, 20, 2),
+        transfer(CREATOR, FRIEND, 5, 3),
+        transfer(CREATOR, '0x0000000000000000000000000000000000000000', 50, 4),
+        transfer(BUYER, PAIR, 30, 5),
+      ],
+      [removal],
+      tokens,
+      new Map([[TOKEN, BigInt(0)]]),
+    )
+
+    expect(events.map((event) => [event.event_type, event.severity, event.percentage])).toEqual([
+      ['CREATOR_SELL', 'high', 2],
+      ['CREATOR_SELL', 'critical', 20],
+      ['CREATOR_TRANSFER', 'critical', 5],
+      ['LIQUIDITY_REMOVAL', 'critical', 100],
+    ])
+    expect(events[3]).toMatchObject({ avax_amount: '1000', counterparty: PAIR, creator_address: CREATOR })
+  })
+
+  it("doesn't take an unknown balance for a full exit", () => {
+    const tokens = new Map([[TOKEN, token]])
+    const sell = [transfer(CREATOR, LAUNCHPAD, 2, 1)]
+
+    expect(detectCreatorEvents(sell, [], tokens, new Map([[TOKEN, null]]))[0].severity).toBe('medium')
+    expect(detectCreatorEvents(sell, [], tokens)[0].severity).toBe('medium')
+  })
+
+  it('falls back to high for an unknown minimum alert severity', () => {
+    expect(resolveMinAlertSeverity('Critical')).toBe('critical')
+    expect(resolveMinAlertSeverity('hgih')).toBe('high')
+    expect(resolveMinAlertSeverity(undefined)).toBe('high')
+  })
+
+  it('summarizes a rug history', () => {
+    const history = summarizeRugHistory([
+      { token_address: TOKEN, severity: 'medium', timestamp: '2025-01-01T00:00:00.000Z' },
+      { token_address: TOKEN, severity: 'critical', timestamp: '2025-01-03T00:00:00.000Z' },
+      { token_address: PAIR, severity: 'low', timestamp: '2025-01-02T00:00:00.000Z' },
+    ])
+
+    expect(history).toEqual({
+      events: 3,
+      tokens: 2,
+      counts: { low: 1, medium: 1, high: 0, critical: 1 },
+      worstSeverity: 'critical',
+      lastEventAt: '2025-01-03T00:00:00.000Z',
+    })
+  })
+})
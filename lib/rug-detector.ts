@@ -0,0 +1,316 @@
+import { zeroAddress } from "viem"
+import { client } from "./blockchain"
+import {
+  deleteCreatorEventsAfter,
+  getCreatorEvents,
+  getHolderBalance,
+  getLiquidityRemovalsInRange,
+  getPendingCreatorEventAlerts,
+  getTokenTransfersInRange,
+  getTokensByAddress,
+  markCreatorEventAlertSent,
+  saveCreatorEvents,
+  type CreatorEventInsert,
+  type CreatorEventRow,
+  type LiquidityRemovalRow,
+  type TokenTransferRow,
+} from "./database"
+import { fetchArenaUserProfile } from "./arena-socials"
+import { getChainId } from "./chains"
+import { postRugAlertToDiscordWithRetry } from "./discord-socials"
+import { supabase } from "./supabase"
+import { getArenaTokensInRange, type ArenaToken } from "./trades"
+
+// What a creator does with its own launch afterwards: selling into the curve or the pool, moving tokens to
+// other wallets, and pulling liquidity. Built from the transfers and liquidity burns the other indexers
+// stored, so it runs right after them over the same block range.
+
+export type CreatorEventType = "CREATOR_SELL" | "CREATOR_TRANSFER" | "LIQUIDITY_REMOVAL"
+export type RugSeverity = "low" | "medium" | "high" | "critical"
+
+export const SEVERITIES: RugSeverity[] = ["low", "medium", "high", "critical"]
+
+// Severity for a RUG_ALERT_MIN_SEVERITY value, falling back to "high" for anything unknown
+export function resolveMinAlertSeverity(value: string | undefined): RugSeverity {
+  if (!value) return "high"
+
+  const severity = value.trim().toLowerCase() as RugSeverity
+  if (!SEVERITIES.includes(severity)) {
+    console.warn(`⚠️ Unknown RUG_ALERT_MIN_SEVERITY "${value}", using high`)
+    return "high"
+  }
+
+  return severity
+}
+
+// Rug alerts are opt-in, and only sent for events at or above the minimum severity
+export const RUG_ALERTS_ENABLED = process.env.NEXT_PUBLIC_RUG_ALERTS === "true"
+const MIN_ALERT_SEVERITY = resolveMinAlertSeverity(process.env.RUG_ALERT_MIN_SEVERITY)
+
+export interface RugHistory {
+  events: number
+  tokens: number // Launches the creator sold, moved or pulled liquidity from
+  counts: Record<RugSeverity, number>
+  worstSeverity: RugSeverity | null
+  lastEventAt: string | null
+}
+
+// Payload for the rug warning on Discord
+export interface RugAlert {
+  tokenAddress: string
+  tokenSymbol: string
+  tokenName?: string
+  creatorAddress: string
+  creatorUsername?: string
+  eventType: CreatorEventType
+  severity: RugSeverity
+  percentage: number
+  tokenAmount: string
+  avaxAmount: string | null
+  transactionHash: string
+  rugHistory: RugHistory
+}
+
+export function compareSeverity(a: RugSeverity, b: RugSeverity): number {
+  return SEVERITIES.indexOf(a) - SEVERITIES.indexOf(b)
+}
+
+// Sells and transfers are rated by the share of the supply they move, one level higher when the creator
+// sold or moved everything it held. LP removals are rated by the share of the pool's AVAX they took.
+export function getSeverity(type: CreatorEventType, percentage: number, exitedPosition = false): RugSeverity {
+  if (type === "LIQUIDITY_REMOVAL") {
+    if (percentage >= 75) return "critical"
+    if (percentage >= 40) return "high"
+    return "medium"
+  }
+
+  let level = percentage >= 10 ? 3 : percentage >= 5 ? 2 : percentage >= 1 ? 1 : 0
+  if (exitedPosition) level = Math.min(level + 1, 3)
+  return SEVERITIES[level]
+}
+
+type StoredTransfer = Omit<TokenTransferRow, "id" | "created_at" | "chain_id">
+type StoredRemoval = Omit<LiquidityRemovalRow, "id" | "created_at" | "chain_id">
+
+function getSupplyPercentage(amount: bigint, totalSupply: bigint | null): number {
+  if (!totalSupply || totalSupply === BigInt(0)) return 0
+  return Number((amount * BigInt(10000)) / totalSupply) / 100
+}
+
+// Creator events in a set of stored transfers and liquidity burns. `balances` holds each creator's balance
+// of its token after the range, to tell a full exit from a partial sell; an unknown (null) balance is never
+// taken for an exit.
+export function detectCreatorEvents(
+  transfers: StoredTransfer[],
+  removals: StoredRemoval[],
+  tokens: Map<string, ArenaToken>,
+  balances: Map<string, bigint | null> = new Map(),
+): Omit<CreatorEventInsert, "timestamp">[] {
+  const events: Omit<CreatorEventInsert, "timestamp">[] = []
+
+  for (const transfer of transfers) {
+    const token = tokens.get(transfer.token_address.toLowerCase())
+    if (!token || transfer.from_address.toLowerCase() !== token.creatorAddress.toLowerCase()) continue
+
+    const to = transfer.to_address.toLowerCase()
+    // Burning tokens isn't a dump
+    if (to === zeroAddress) continue
+
+    // Into the launchpad is a curve sell, into the pair a DEX sell; anything else moves tokens to another wallet
+    const isSell = to === token.contractAddress.toLowerCase() || to === token.pairAddress?.toLowerCase()
+    const eventType: CreatorEventType = isSell ? "CREATOR_SELL" : "CREATOR_TRANSFER"
+    const percentage = getSupplyPercentage(BigInt(transfer.value), token.totalSupply)
+    const exited = balances.get(transfer.token_address.toLowerCase()) === BigInt(0)
+
+    events.push({
+      token_address: transfer.token_address.toLowerCase(),
+      creator_address: token.creatorAddress.toLowerCase(),
+      event_type: eventType,
+      severity: getSeverity(eventType, percentage, exited),
+      transaction_hash: transfer.transaction_hash,
+      log_index: transfer.log_index,
+      counterparty: to,
+      token_amount: transfer.value,
+      avax_amount: null,
+      percentage,
+      block_number: transfer.block_number,
+    })
+  }
+
+  for (const removal of removals) {
+    const token = tokens.get(removal.token_address.toLowerCase())
+    if (!token || removal.remover_address.toLowerCase() !== token.creatorAddress.toLowerCase()) continue
+
+    const percentage = Number(removal.removed_percentage)
+    events.push({
+      token_address: removal.token_address.toLowerCase(),
+      creator_address: token.creatorAddress.toLowerCase(),
+      event_type: "LIQUIDITY_REMOVAL",
+      severity: getSeverity("LIQUIDITY_REMOVAL", percentage),
+      transaction_hash: removal.transaction_hash,
+      log_index: removal.log_index,
+      counterparty: removal.pair_address.toLowerCase(),
+      token_amount: removal.token_removed,
+      avax_amount: removal.avax_removed,
+      percentage,
+      block_number: removal.block_number,
+    })
+  }
+
+  return events
+}
+
+export function summarizeRugHistory(
+  events: Pick<CreatorEventRow, "token_address" | "severity" | "timestamp">[],
+): RugHistory {
+  const counts: Record<RugSeverity, number> = { low: 0, medium: 0, high: 0, critical: 0 }
+  let worstSeverity: RugSeverity | null = null
+  let lastEventAt: string | null = null
+
+  for (const event of events) {
+    const severity = event.severity as RugSeverity
+    counts[severity]++
+    if (!worstSeverity || compareSeverity(severity, worstSeverity) > 0) worstSeverity = severity
+    if (!lastEventAt || event.timestamp > lastEventAt) lastEventAt = event.timestamp
+  }
+
+  return {
+    events: events.length,
+    tokens: new Set(events.map((event) => event.token_address)).size,
+    counts,
+    worstSeverity,
+    lastEventAt,
+  }
+}
+
+// Recompute the creator's rug history from all its stored events
+export async function updateRugHistory(creatorAddress: string): Promise<RugHistory | null> {
+  try {
+    const history = summarizeRugHistory(await getCreatorEvents(creatorAddress))
+    const { error } = await supabase
+      .from("creators")
+      .update({ rug_history: history })
+      .eq("chain_id", getChainId())
+      .ilike("wallet_address", creatorAddress)
+
+    if (error) {
+      console.error("❌ Error updating rug history:", error)
+      return null
+    }
+
+    return history
+  } catch (error) {
+    console.error("❌ Error in updateRugHistory:", error)
+    return null
+  }
+}
+
+// Store creator sells, transfers and LP removals in a block range. Runs after the trade, pool and holder
+// indexers, since it reads what they stored. Throws when the data can't be read or saved, so callers can
+// retry the range; events are unique per log, so retries don't duplicate them.
+// With alertSent the events are stored without a pending alert, which the backfill uses.
+export async function indexCreatorActivityInRange(
+  fromBlock: bigint,
+  toBlock: bigint,
+  options: { alertSent?: boolean } = {},
+): Promise<number> {
+  const [transfers, removals] = await Promise.all([
+    getTokenTransfersInRange(fromBlock, toBlock),
+    getLiquidityRemovalsInRange(fromBlock, toBlock),
+  ])
+  if (!transfers || !removals) {
+    throw new Error(`Failed to read transfers and liquidity removals for blocks ${fromBlock}-${toBlock}`)
+  }
+  if (transfers.length === 0 && removals.length === 0) return 0
+
+  const tokenAddresses = [...new Set([...transfers, ...removals].map((row) => row.token_address))]
+  const tokens = await getArenaTokensInRange(tokenAddresses, fromBlock, toBlock)
+
+  // Balances after the range, only for tokens whose creator sent some away
+  const balances = new Map<string, bigint | null>()
+  for (const transfer of transfers) {
+    const token = tokens.get(transfer.token_address.toLowerCase())
+    if (!token || balances.has(transfer.token_address)) continue
+    if (transfer.from_address.toLowerCase() !== token.creatorAddress.toLowerCase()) continue
+    balances.set(transfer.token_address, await getHolderBalance(transfer.token_address, token.creatorAddress))
+  }
+
+  const detected = detectCreatorEvents(transfers, removals, tokens, balances)
+  if (detected.length === 0) return 0
+
+  const blockTimestamps = new Map<number, string>()
+  const events: CreatorEventInsert[] = []
+  for (const event of detected) {
+    let timestamp = blockTimestamps.get(event.block_number)
+    if (!timestamp) {
+      const block = await client.getBlock({ blockNumber: BigInt(event.block_number) })
+      timestamp = new Date(Number(block.timestamp) * 1000).toISOString()
+      blockTimestamps.set(event.block_number, timestamp)
+    }
+
+    const alertSent =
+      options.alertSent ||
+      !RUG_ALERTS_ENABLED ||
+      compareSeverity(event.severity as RugSeverity, MIN_ALERT_SEVERITY) < 0
+    events.push({ ...event, timestamp, alert_sent: alertSent })
+  }
+
+  const inserted = await saveCreatorEvents(events)
+  if (!inserted) {
+    throw new Error(`Failed to save creator events for blocks ${fromBlock}-${toBlock}`)
+  }
+
+  for (const event of inserted) {
+    const label = event.event_type.toLowerCase().replace("_", " ")
+    console.log(`🚩 ${event.severity.toUpperCase()} ${label} by ${event.creator_address} on ${event.token_address}`)
+  }
+  for (const creator of new Set(inserted.map((event) => event.creator_address))) {
+    await updateRugHistory(creator)
+  }
+
+  return inserted.length
+}
+
+// Post warnings for creator events at or below the confirmed block. Each alert is attempted once (the
+// posting helper retries on its own), so a missing webhook doesn't re-send on every loop.
+export async function releaseRugAlerts(confirmedBlock: bigint): Promise<void> {
+  if (!RUG_ALERTS_ENABLED) return
+
+  for (const event of await getPendingCreatorEventAlerts(confirmedBlock)) {
+    await markCreatorEventAlertSent(event.id)
+
+    const [token] = (await getTokensByAddress([event.token_address])) ?? []
+    const profile = await fetchArenaUserProfile(event.creator_address)
+
+    const alert: RugAlert = {
+      tokenAddress: token?.address ?? event.token_address,
+      tokenSymbol: token?.symbol || "???",
+      tokenName: token?.name || undefined,
+      creatorAddress: event.creator_address,
+      creatorUsername: profile?.username,
+      eventType: event.event_type as CreatorEventType,
+      severity: event.severity as RugSeverity,
+      percentage: event.percentage,
+      tokenAmount: event.token_amount,
+      avaxAmount: event.avax_amount,
+      transactionHash: event.transaction_hash,
+      rugHistory: summarizeRugHistory(await getCreatorEvents(event.creator_address)),
+    }
+
+    if (!(await postRugAlertToDiscordWithRetry(alert))) {
+      console.log(`⚠️ Rug alert for ${alert.tokenSymbol} was not posted`)
+    }
+  }
+}
+
+// Drop events from orphaned blocks and recompute the history of the creators they belonged to
+export async function rollbackCreatorEventsAfter(blockNumber: bigint): Promise<void> {
+  const orphaned = await deleteCreatorEventsAfter(blockNumber)
+  if (!orphaned || orphaned.length === 0) return
+
+  for (const creator of new Set(orphaned.map((event) => event.creator_address))) {
+    await updateRugHistory(creator)
+  }
+
+  console.log(`⏪ Removed ${orphaned.length} creator events above block ${blockNumber}`)
+}
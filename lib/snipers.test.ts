@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { computeSniperStats } from './snipers'
+
+const CREATOR = '0x2222222222222222222222222222222222222222'
+const SNIPER = '0x5555555555555555555555555555555555555555'
+const FAST = '0x6666666666666666666666666666666666666666'
+const LATE = '0x7777777777777777777777777777777777777777'
+
+const SUPPLY = BigInt('1000000000000000000000000000')
+const LAUNCH = 100
+
+const trade = (trader: string, percent: number, block: number, side = 'BUY') => ({
+  trader_address: trader,
+  side,
+  token_amount: ((SUPPLY * BigInt(percent)) / BigInt(100)).toString(),
+  block_number: block,
+})
+
+describe('computeSniperStats', () => {
+  it('counts buys in the launch block and the window after it', () => {
+    const stats = computeSniperStats(
+      LAUNCH,
+      [trade(SNIPER, 5, LAUNCH), trade(FAST, 2, LAUNCH + 3), trade(LATE, 10, LAUNCH + 4)],
+      SUPPLY,
+      CREATOR,
+      3,
+    )
+
+    expect(stats.sniperCount).toBe(2)
+    expect(stats.sameBlockBuyers).toBe(1)
+    expect(stats.snipedPercentage).toBe(7)
+    expect(stats.snipers.map((sniper) => sniper.wallet)).toEqual([SNIPER, FAST])
+    expect(stats.snipers[1].blocksAfterLaunch).toBe(3)
+  })
+
+  it('leaves out the creator and sells', () => {
+    const stats = computeSniperStats(
+      LAUNCH,
+      [trade(CREATOR.toUpperCase().replace('0X', '0x'), 20, LAUNCH), trade(SNIPER, 3, LAUNCH + 1, 'SELL')],
+      SUPPLY,
+      CREATOR,
+    )
+
+    expect(stats.sniperCount).toBe(0)
+    expect(stats.snipedPercentage).toBe(0)
+  })
+
+  it('adds up repeated buys by the same wallet', () => {
+    const trades = [trade(SNIPER, 1, LAUNCH + 2), trade(SNIPER, 4, LAUNCH + 1)]
+    const stats = computeSniperStats(LAUNCH, trades, SUPPLY, CREATOR)
+
+    expect(stats.snipers).toHaveLength(1)
+    expect(stats.snipers[0]).toMatchObject({ buys: 2, percentage: 5, blocksAfterLaunch: 1 })
+  })
+
+  it('only counts the launch block with a window of 0', () => {
+    const stats = computeSniperStats(LAUNCH, [trade(SNIPER, 5, LAUNCH), trade(FAST, 5, LAUNCH + 1)], SUPPLY, CREATOR, 0)
+
+    expect(stats.sniperCount).toBe(1)
+    expect(stats.windowBlocks).toBe(0)
+  })
+})
@@ -0,0 +1,154 @@
+import { getAddress } from "viem"
+import { getTokenCreatedLogs } from "./blockchain"
+import {
+  getSniperLaunchCounts,
+  getTokenSnipers,
+  getTokensByAddress,
+  getTradesForToken,
+  saveTokenSnipers,
+  type TokenSniperInsert,
+} from "./database"
+
+// Snipers are wallets that buy a launch in its own block or within the next few blocks, before most people
+// could have seen it. Built from the stored curve trades, so it runs right after the trade indexer.
+
+// Blocks after the launch block a buy still counts as a snipe (0 = same block only)
+export const SNIPER_WINDOW_BLOCKS = Number(process.env.SNIPER_WINDOW_BLOCKS || 3)
+
+export interface TokenSniper {
+  wallet: string
+  tokenAmount: string // Wei
+  percentage: number // Share of the supply bought inside the window
+  buys: number
+  blocksAfterLaunch: number // Of the first buy
+  launchesSniped?: number // Launches this wallet sniped overall, when known
+}
+
+export interface SniperStats {
+  sniperCount: number
+  sameBlockBuyers: number
+  snipedPercentage: number // Share of the supply the snipers took
+  windowBlocks: number
+  snipers: TokenSniper[] // Largest share first
+}
+
+type BuyTrade = { trader_address: string; side: string; token_amount: string; block_number: number }
+
+function getSupplyPercentage(amount: bigint, totalSupply: bigint | null): number {
+  if (!totalSupply || totalSupply === BigInt(0)) return 0
+  return Number((amount * BigInt(10000)) / totalSupply) / 100
+}
+
+// Buyers of a launch inside the sniper window. The creator's own buy at launch isn't a snipe.
+export function computeSniperStats(
+  launchBlock: number,
+  trades: BuyTrade[],
+  totalSupply: bigint | null,
+  creatorAddress: string,
+  windowBlocks = SNIPER_WINDOW_BLOCKS,
+): SniperStats {
+  const wallets = new Map<string, { amount: bigint; buys: number; firstBlock: number }>()
+
+  for (const trade of trades) {
+    if (trade.side !== "BUY") continue
+    if (trade.block_number < launchBlock || trade.block_number > launchBlock + windowBlocks) continue
+
+    const wallet = trade.trader_address.toLowerCase()
+    if (wallet === creatorAddress.toLowerCase()) continue
+
+    const entry = wallets.get(wallet) ?? { amount: BigInt(0), buys: 0, firstBlock: trade.block_number }
+    entry.amount += BigInt(trade.token_amount)
+    entry.buys++
+    entry.firstBlock = Math.min(entry.firstBlock, trade.block_number)
+    wallets.set(wallet, entry)
+  }
+
+  const snipers = [...wallets]
+    .map(([wallet, entry]) => ({
+      wallet,
+      tokenAmount: entry.amount.toString(),
+      percentage: getSupplyPercentage(entry.amount, totalSupply),
+      buys: entry.buys,
+      blocksAfterLaunch: entry.firstBlock - launchBlock,
+    }))
+    .sort((a, b) => (BigInt(b.tokenAmount) > BigInt(a.tokenAmount) ? 1 : -1))
+
+  const total = snipers.reduce((sum, sniper) => sum + BigInt(sniper.tokenAmount), BigInt(0))
+  return {
+    sniperCount: snipers.length,
+    sameBlockBuyers: snipers.filter((sniper) => sniper.blocksAfterLaunch === 0).length,
+    snipedPercentage: getSupplyPercentage(total, totalSupply),
+    windowBlocks,
+    snipers,
+  }
+}
+
+// Sniper stats of a stored launch, computed from its stored trades (so they're there as soon as the
+// launch block's trades are indexed), with how often each sniper snipes across launches
+export async function getTokenSniperStats(tokenAddress: string): Promise<SniperStats | null> {
+  try {
+    const [token] = (await getTokensByAddress([tokenAddress])) ?? []
+    if (!token) return null
+
+    const trades = await getTradesForToken(tokenAddress)
+    if (!trades) return null
+
+    const totalSupply = token.total_supply !== null ? BigInt(Math.trunc(token.total_supply)) : null
+    const stats = computeSniperStats(token.block_number, trades, totalSupply, token.creator_address)
+
+    const launchCounts = await getSniperLaunchCounts(stats.snipers.map((sniper) => sniper.wallet))
+    const stored = new Set((await getTokenSnipers(tokenAddress)).map((row) => row.wallet_address))
+    for (const sniper of stats.snipers) {
+      // The view only knows launches whose snipers were stored already; this one counts either way
+      sniper.launchesSniped = (launchCounts.get(sniper.wallet) ?? 0) + (stored.has(sniper.wallet) ? 0 : 1)
+    }
+
+    return stats
+  } catch (error) {
+    console.error(`❌ Error computing snipers of ${tokenAddress}:`, error)
+    return null
+  }
+}
+
+// Store snipers of every launch whose sniper window overlaps a block range. Launches come from the range's own
+// TokenCreated logs, since the live loop stores them asynchronously and they may not be in the tokens table
+// yet. Throws when the launches or their trades can't be read or snipers can't be saved, so callers can retry
+// the range; rows are unique per token and wallet.
+export async function indexSnipersInRange(fromBlock: bigint, toBlock: bigint): Promise<number> {
+  const earliestLaunch = fromBlock - BigInt(SNIPER_WINDOW_BLOCKS)
+  const launches = await getTokenCreatedLogs(earliestLaunch > BigInt(0) ? earliestLaunch : BigInt(0), toBlock)
+
+  let sniped = 0
+  for (const launch of launches) {
+    const params = launch.args.params
+    if (!params) continue
+
+    const address = getAddress(params.tokenContractAddress)
+    const launchBlock = Number(launch.blockNumber)
+    const trades = await getTradesForToken(address)
+    if (!trades) throw new Error(`Failed to read trades of ${address}`)
+
+    const stats = computeSniperStats(launchBlock, trades, launch.args.tokenSupply ?? null, params.creatorAddress)
+
+    const rows: TokenSniperInsert[] = stats.snipers.map((sniper) => ({
+      token_address: address.toLowerCase(),
+      wallet_address: sniper.wallet,
+      token_amount: sniper.tokenAmount,
+      percentage: sniper.percentage,
+      buys: sniper.buys,
+      blocks_after_launch: sniper.blocksAfterLaunch,
+      block_number: launchBlock + sniper.blocksAfterLaunch,
+    }))
+
+    if (!(await saveTokenSnipers(address, rows, stats))) {
+      throw new Error(`Failed to save snipers of ${address}`)
+    }
+
+    if (stats.sniperCount > 0) {
+      sniped++
+      console.log(`🎯 ${address}: ${stats.sniperCount} sniper(s) took ${stats.snipedPercentage}% of the supply`)
+    }
+  }
+
+  return sniped
+}
@@ -41,13 +41,35 @@ export interface Database {
           name: string | null
           symbol: string | null
           total_supply: number | null
+          decimals: number | null
+          contract_address: string | null
           transaction_hash: string
           block_number: number
           timestamp: string
           method_id: string | null
           method_name: string | null
+          arena_token_id: string | null
+          curve_scaler: string | null
+          curve_a: number | null
+          curve_b: number | null
+          lp_deployed: boolean | null
+          lp_percentage: number | null
+          sale_percentage: number | null
+          creator_fee_basis_points: number | null
+          pair_address: string | null
+          lifecycle_state: "bonding" | "graduated"
+          graduated_at: string | null
+          graduation_block: number | null
+          graduation_tx_hash: string | null
+          time_to_graduate_seconds: number | null
+          graduation_alert_sent: boolean
           created_at: string
           updated_at: string
+          chain_id: number
+          sniper_count: number | null
+          sniped_percentage: number | null
+          creator_fees_earned: string | null
+          creator_fee_volume: string | null
         }
         Insert: {
           id?: string
@@ -56,13 +78,35 @@ export interface Database {
           name?: string | null
           symbol?: string | null
           total_supply?: number | null
+          decimals?: number | null
+          contract_address?: string | null
           transaction_hash: string
           block_number: number
           timestamp: string
           method_id?: string | null
           method_name?: string | null
+          arena_token_id?: string | null
+          curve_scaler?: string | null
+          curve_a?: number | null
+          curve_b?: number | null
+          lp_deployed?: boolean | null
+          lp_percentage?: number | null
+          sale_percentage?: number | null
+          creator_fee_basis_points?: number | null
+          pair_address?: string | null
+          lifecycle_state?: "bonding" | "graduated"
+          graduated_at?: string | null
+          graduation_block?: number | null
+          graduation_tx_hash?: string | null
+          time_to_graduate_seconds?: number | null
+          graduation_alert_sent?: boolean
           created_at?: string
           updated_at?: string
+          chain_id?: number
+          sniper_count?: number | null
+          sniped_percentage?: number | null
+          creator_fees_earned?: string | null
+          creator_fee_volume?: string | null
         }
         Update: {
           id?: string
@@ -71,13 +115,35 @@ export interface Database {
           name?: string | null
           symbol?: string | null
           total_supply?: number | null
+          decimals?: number | null
+          contract_address?: string | null
           transaction_hash?: string
           block_number?: number
           timestamp?: string
           method_id?: string | null
           method_name?: string | null
+          arena_token_id?: string | null
+          curve_scaler?: string | null
+          curve_a?: number | null
+          curve_b?: number | null
+          lp_deployed?: boolean | null
+          lp_percentage?: number | null
+          sale_percentage?: number | null
+          creator_fee_basis_points?: number | null
+          pair_address?: string | null
+          lifecycle_state?: "bonding" | "graduated"
+          graduated_at?: string | null
+          graduation_block?: number | null
+          graduation_tx_hash?: string | null
+          time_to_graduate_seconds?: number | null
+          graduation_alert_sent?: boolean
           created_at?: string
           updated_at?: string
+          chain_id?: number
+          sniper_count?: number | null
+          sniped_percentage?: number | null
+          creator_fees_earned?: string | null
+          creator_fee_volume?: string | null
         }
       }
       creator_profiles: {
@@ -169,7 +235,10 @@ export interface Database {
           raw_input: string | null
           posted_to_arena: boolean | null
           posted_to_discord: boolean | null
+          block_hash: string | null
+          contract_address: string | null
           created_at: string
+          chain_id: number
         }
         Insert: {
           id?: string
@@ -191,7 +260,10 @@ export interface Database {
           raw_input?: string | null
           posted_to_arena?: boolean | null
           posted_to_discord?: boolean | null
+          block_hash?: string | null
+          contract_address?: string | null
           created_at?: string
+          chain_id?: number
         }
         Update: {
           id?: string
@@ -213,7 +285,379 @@ export interface Database {
           raw_input?: string | null
           posted_to_arena?: boolean | null
           posted_to_discord?: boolean | null
+          block_hash?: string | null
+          contract_address?: string | null
           created_at?: string
+          chain_id?: number
+        }
+      }
+      indexer_cursors: {
+        Row: {
+          id: string
+          chain_id: number
+          contract_address: string
+          cursor_type: string
+          last_processed_block: number
+          start_block: number | null
+          target_block: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          chain_id: number
+          contract_address: string
+          cursor_type?: string
+          last_processed_block: number
+          start_block?: number | null
+          target_block?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          chain_id?: number
+          contract_address?: string
+          cursor_type?: string
+          last_processed_block?: number
+          start_block?: number | null
+          target_block?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      trades: {
+        Row: {
+          id: string
+          transaction_hash: string
+          log_index: number
+          token_address: string
+          trader_address: string
+          side: "BUY" | "SELL"
+          avax_amount: string | null
+          token_amount: string
+          block_number: number
+          timestamp: string
+          created_at: string
+          chain_id: number
+        }
+        Insert: {
+          id?: string
+          transaction_hash: string
+          log_index: number
+          token_address: string
+          trader_address: string
+          side: "BUY" | "SELL"
+          avax_amount?: string | null
+          token_amount: string
+          block_number: number
+          timestamp: string
+          created_at?: string
+          chain_id?: number
+        }
+        Update: {
+          id?: string
+          transaction_hash?: string
+          log_index?: number
+          token_address?: string
+          trader_address?: string
+          side?: "BUY" | "SELL"
+          avax_amount?: string | null
+          token_amount?: string
+          block_number?: number
+          timestamp?: string
+          created_at?: string
+          chain_id?: number
+        }
+      }
+      pool_snapshots: {
+        Row: {
+          id: string
+          token_address: string
+          pair_address: string
+          block_number: number
+          timestamp: string
+          reserve_token: string
+          reserve_avax: string
+          price_avax: string
+          liquidity_avax: string
+          swap_count: number
+          volume_avax: string
+          created_at: string
+          chain_id: number
+        }
+        Insert: {
+          id?: string
+          token_address: string
+          pair_address: string
+          block_number: number
+          timestamp: string
+          reserve_token: string
+          reserve_avax: string
+          price_avax: string
+          liquidity_avax: string
+          swap_count?: number
+          volume_avax?: string
+          created_at?: string
+          chain_id?: number
+        }
+        Update: {
+          id?: string
+          token_address?: string
+          pair_address?: string
+          block_number?: number
+          timestamp?: string
+          reserve_token?: string
+          reserve_avax?: string
+          price_avax?: string
+          liquidity_avax?: string
+          swap_count?: number
+          volume_avax?: string
+          created_at?: string
+          chain_id?: number
+        }
+      }
+      liquidity_removals: {
+        Row: {
+          id: string
+          token_address: string
+          pair_address: string
+          transaction_hash: string
+          log_index: number
+          remover_address: string
+          avax_removed: string
+          token_removed: string
+          reserve_avax_before: string
+          removed_percentage: number
+          block_number: number
+          timestamp: string
+          created_at: string
+          chain_id: number
+        }
+        Insert: {
+          id?: string
+          token_address: string
+          pair_address: string
+          transaction_hash: string
+          log_index: number
+          remover_address: string
+          avax_removed: string
+          token_removed: string
+          reserve_avax_before: string
+          removed_percentage: number
+          block_number: number
+          timestamp: string
+          created_at?: string
+          chain_id?: number
+        }
+        Update: {
+          id?: string
+          token_address?: string
+          pair_address?: string
+          transaction_hash?: string
+          log_index?: number
+          remover_address?: string
+          avax_removed?: string
+          token_removed?: string
+          reserve_avax_before?: string
+          removed_percentage?: number
+          block_number?: number
+          timestamp?: string
+          created_at?: string
+          chain_id?: number
+        }
+      }
+      token_transfers: {
+        Row: {
+          id: string
+          token_address: string
+          transaction_hash: string
+          log_index: number
+          from_address: string
+          to_address: string
+          value: string
+          block_number: number
+          created_at: string
+          chain_id: number
+        }
+        Insert: {
+          id?: string
+          token_address: string
+          transaction_hash: string
+          log_index: number
+          from_address: string
+          to_address: string
+          value: string
+          block_number: number
+          created_at?: string
+          chain_id?: number
+        }
+        Update: {
+          id?: string
+          token_address?: string
+          transaction_hash?: string
+          log_index?: number
+          from_address?: string
+          to_address?: string
+          value?: string
+          block_number?: number
+          created_at?: string
+          chain_id?: number
+        }
+      }
+      token_holders: {
+        Row: {
+          token_address: string
+          holder_address: string
+          balance: string
+          updated_block: number
+          chain_id: number
+          updated_at: string
+        }
+        Insert: {
+          token_address: string
+          holder_address: string
+          balance?: string
+          updated_block: number
+          chain_id?: number
+          updated_at?: string
+        }
+        Update: {
+          token_address?: string
+          holder_address?: string
+          balance?: string
+          updated_block?: number
+          chain_id?: number
+          updated_at?: string
+        }
+      }
+      holder_snapshots: {
+        Row: {
+          id: string
+          token_address: string
+          block_number: number
+          timestamp: string
+          holder_count: number
+          top10_percentage: number
+          creator_percentage: number
+          created_at: string
+          chain_id: number
+        }
+        Insert: {
+          id?: string
+          token_address: string
+          block_number: number
+          timestamp: string
+          holder_count: number
+          top10_percentage: number
+          creator_percentage: number
+          created_at?: string
+          chain_id?: number
+        }
+        Update: {
+          id?: string
+          token_address?: string
+          block_number?: number
+          timestamp?: string
+          holder_count?: number
+          top10_percentage?: number
+          creator_percentage?: number
+          created_at?: string
+          chain_id?: number
+        }
+      }
+      creator_events: {
+        Row: {
+          id: string
+          token_address: string
+          creator_address: string
+          event_type: string
+          severity: string
+          transaction_hash: string
+          log_index: number
+          counterparty: string | null
+          token_amount: string
+          avax_amount: string | null
+          percentage: number
+          block_number: number
+          timestamp: string
+          alert_sent: boolean
+          created_at: string
+          chain_id: number
+        }
+        Insert: {
+          id?: string
+          token_address: string
+          creator_address: string
+          event_type: string
+          severity: string
+          transaction_hash: string
+          log_index: number
+          counterparty?: string | null
+          token_amount: string
+          avax_amount?: string | null
+          percentage: number
+          block_number: number
+          timestamp: string
+          alert_sent?: boolean
+          created_at?: string
+          chain_id?: number
+        }
+        Update: {
+          id?: string
+          token_address?: string
+          creator_address?: string
+          event_type?: string
+          severity?: string
+          transaction_hash?: string
+          log_index?: number
+          counterparty?: string | null
+          token_amount?: string
+          avax_amount?: string | null
+          percentage?: number
+          block_number?: number
+          timestamp?: string
+          alert_sent?: boolean
+          created_at?: string
+          chain_id?: number
+        }
+      }
+      token_snipers: {
+        Row: {
+          id: string
+          token_address: string
+          wallet_address: string
+          token_amount: string
+          percentage: number
+          buys: number
+          blocks_after_launch: number
+          block_number: number
+          created_at: string
+          chain_id: number
+        }
+        Insert: {
+          id?: string
+          token_address: string
+          wallet_address: string
+          token_amount: string
+          percentage: number
+          buys: number
+          blocks_after_launch: number
+          block_number: number
+          created_at?: string
+          chain_id?: number
+        }
+        Update: {
+          id?: string
+          token_address?: string
+          wallet_address?: string
+          token_amount?: string
+          percentage?: number
+          buys?: number
+          blocks_after_launch?: number
+          block_number?: number
+          created_at?: string
+          chain_id?: number
         }
       }
     }
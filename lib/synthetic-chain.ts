@@ -0,0 +1,239 @@
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionData,
+  encodeFunctionResult,
+  erc20Abi,
+  keccak256,
+  multicall3Abi,
+  toHex,
+  type Hex,
+} from "viem"
+import { ARENA_CONTRACT_ABI } from "./contract-abi"
+import { ARENA_CONTRACT_ADDRESS } from "./contracts"
+import { TOKEN_CREATED_EVENT, TRANSFER_EVENT } from "./decoder"
+import { encodeTokenCreatedData, mockAddress } from "./dev-chain"
+import type { RpcRequest } from "./rpc-provider"
+
+// A made-up chain answering JSON-RPC requests from memory, which fixtures/rpc/synthetic-launch.json is recorded
+// from (pnpm synthetic-fixture). Block SYNTHETIC_HEAD holds one Arena launch (Fixture Token, FIXT, 1% creator
+// fee) and two direct buys of it; every earlier block is empty. Only the methods the pipeline calls are served.
+
+export const SYNTHETIC_HEAD = BigInt(60000000)
+export const SYNTHETIC_CREATOR = mockAddress("fixture-creator")
+export const SYNTHETIC_TOKEN = mockAddress("fixture-token")
+export const SYNTHETIC_PAIR = mockAddress("fixture-pair")
+export const SYNTHETIC_BUYERS = [mockAddress("fixture-buyer-1"), mockAddress("fixture-buyer-2")]
+export const SYNTHETIC_DESCRIPTION =
+  "Synthetic chain, not recorded from mainnet: one launch (Fixture Token, FIXT, 1% creator fee) and two buys in " +
+  "block 60000000. Record real launches with pnpm record-fixtures."
+
+const SUPPLY = BigInt("10000000000000000000000000000")
+const MULTICALL = "0xca11bde05977b3631167028862be2a173976ca11"
+const ARENA = ARENA_CONTRACT_ADDRESS.toLowerCase()
+const TIMESTAMP = BigInt(1760000000) // Of the head block; blocks are two seconds apart
+
+const blockHash = (n: bigint) => keccak256(toHex(`fixture-block-${n}`))
+const txHash = (label: string) => keccak256(toHex(`fixture-tx-${label}`))
+
+export const SYNTHETIC_LAUNCH_HASH = txHash("create")
+
+const createInput = encodeFunctionData({
+  abi: ARENA_CONTRACT_ABI,
+  functionName: "createToken",
+  args: [677, 0, BigInt(41000000000), 27, SYNTHETIC_CREATOR, BigInt(0), "Fixture Token", "FIXT", SUPPLY],
+} as never)
+const buyInput = encodeFunctionData({
+  abi: ARENA_CONTRACT_ABI,
+  functionName: "buy",
+  args: [SYNTHETIC_TOKEN],
+} as never)
+
+const tokenCreatedData = encodeTokenCreatedData({
+  tokenId: BigInt(4242),
+  tokenAddress: SYNTHETIC_TOKEN,
+  creator: SYNTHETIC_CREATOR,
+  pairAddress: SYNTHETIC_PAIR,
+  totalSupply: SUPPLY,
+  creatorFeeBasisPoints: 100,
+})
+const tokenCreatedTopics = encodeEventTopics({ abi: [TOKEN_CREATED_EVENT], eventName: "TokenCreated" })
+
+function transfer(from: string, to: string, value: bigint) {
+  return {
+    address: SYNTHETIC_TOKEN.toLowerCase(),
+    topics: encodeEventTopics({ abi: [TRANSFER_EVENT], eventName: "Transfer", args: { from, to } as never }),
+    data: encodeAbiParameters([{ type: "uint256" }], [value]),
+  }
+}
+
+const BUY_AMOUNTS = [SUPPLY / BigInt(100), SUPPLY / BigInt(50)]
+const txs = [
+  {
+    hash: SYNTHETIC_LAUNCH_HASH,
+    from: SYNTHETIC_CREATOR,
+    to: ARENA,
+    value: BigInt(0),
+    input: createInput,
+    logs: [
+      transfer("0x0000000000000000000000000000000000000000", ARENA, SUPPLY),
+      { address: ARENA, topics: tokenCreatedTopics, data: tokenCreatedData },
+    ],
+  },
+  ...SYNTHETIC_BUYERS.map((buyer, i) => ({
+    hash: txHash(`buy-${i}`),
+    from: buyer,
+    to: ARENA,
+    value: BigInt(10 ** 18) * BigInt(i + 1),
+    input: buyInput,
+    logs: [transfer(ARENA, buyer, BUY_AMOUNTS[i])],
+  })),
+]
+
+let logIndex = 0
+const allLogs = txs.flatMap((tx, txIndex) =>
+  tx.logs.map((log) => ({
+    ...log,
+    blockNumber: toHex(SYNTHETIC_HEAD),
+    blockHash: blockHash(SYNTHETIC_HEAD),
+    transactionHash: tx.hash,
+    transactionIndex: toHex(txIndex),
+    logIndex: toHex(logIndex++),
+    removed: false,
+  })),
+)
+
+function formatTx(tx: (typeof txs)[number], index: number) {
+  return {
+    blockHash: blockHash(SYNTHETIC_HEAD),
+    blockNumber: toHex(SYNTHETIC_HEAD),
+    chainId: "0xa86a",
+    from: tx.from.toLowerCase(),
+    gas: toHex(500000),
+    gasPrice: toHex(BigInt(25000000000)),
+    hash: tx.hash,
+    input: tx.input,
+    nonce: toHex(index),
+    to: tx.to,
+    transactionIndex: toHex(index),
+    type: "0x0",
+    value: toHex(tx.value),
+    v: "0x150f7",
+    r: keccak256(toHex(`r-${index}`)),
+    s: keccak256(toHex(`s-${index}`)).replace(/^0x./, "0x1"),
+  }
+}
+
+function formatBlock(n: bigint, full: boolean) {
+  const blockTxs = n === SYNTHETIC_HEAD ? txs : []
+  return {
+    baseFeePerGas: toHex(BigInt(25000000000)),
+    difficulty: "0x1",
+    extraData: "0x",
+    gasLimit: toHex(15000000),
+    gasUsed: toHex(blockTxs.length * 150000),
+    hash: blockHash(n),
+    logsBloom: `0x${"0".repeat(512)}`,
+    miner: "0x0100000000000000000000000000000000000000",
+    mixHash: `0x${"0".repeat(64)}`,
+    nonce: "0x0000000000000000",
+    number: toHex(n),
+    parentHash: blockHash(n - BigInt(1)),
+    receiptsRoot: `0x${"0".repeat(64)}`,
+    sha3Uncles: `0x${"0".repeat(64)}`,
+    size: toHex(1000),
+    stateRoot: `0x${"0".repeat(64)}`,
+    timestamp: toHex(TIMESTAMP - (SYNTHETIC_HEAD - n) * BigInt(2)),
+    totalDifficulty: toHex(n),
+    transactions: full ? blockTxs.map(formatTx) : blockTxs.map((tx) => tx.hash),
+    transactionsRoot: `0x${"0".repeat(64)}`,
+    uncles: [],
+  }
+}
+
+function matches(value: string, filter: unknown): boolean {
+  if (filter === null || filter === undefined) return true
+  if (Array.isArray(filter)) return filter.some((entry) => String(entry).toLowerCase() === value.toLowerCase())
+  return String(filter).toLowerCase() === value.toLowerCase()
+}
+
+function erc20Result(data: Hex): Hex {
+  const { functionName } = decodeFunctionData({ abi: erc20Abi, data })
+  const results: Record<string, unknown> = {
+    name: "Fixture Token",
+    symbol: "FIXT",
+    decimals: 18,
+    totalSupply: SUPPLY,
+  }
+  return encodeFunctionResult({ abi: erc20Abi, functionName, result: results[functionName] } as never)
+}
+
+type LogFilter = { fromBlock: Hex; toBlock: Hex; address?: string | string[]; topics?: (Hex | Hex[] | null)[] }
+
+// Answers like a node would, so it can stand in for the endpoints behind a recorder
+export const syntheticNode: RpcRequest = async ({ method, params }) => {
+  const args = (params ?? []) as unknown[]
+  switch (method) {
+    case "eth_chainId":
+      return "0xa86a"
+    case "eth_blockNumber":
+      return toHex(SYNTHETIC_HEAD)
+    case "eth_getBlockByNumber": {
+      const n = args[0] === "latest" ? SYNTHETIC_HEAD : BigInt(args[0] as Hex)
+      return n > SYNTHETIC_HEAD ? null : formatBlock(n, Boolean(args[1]))
+    }
+    case "eth_getTransactionByHash": {
+      const index = txs.findIndex((tx) => tx.hash === args[0])
+      return index === -1 ? null : formatTx(txs[index], index)
+    }
+    case "eth_getTransactionReceipt": {
+      const index = txs.findIndex((tx) => tx.hash === args[0])
+      if (index === -1) return null
+      const tx = txs[index]
+      return {
+        blockHash: blockHash(SYNTHETIC_HEAD),
+        blockNumber: toHex(SYNTHETIC_HEAD),
+        contractAddress: null,
+        cumulativeGasUsed: toHex((index + 1) * 150000),
+        effectiveGasPrice: toHex(BigInt(25000000000)),
+        from: tx.from.toLowerCase(),
+        gasUsed: toHex(150000),
+        logs: allLogs.filter((log) => log.transactionHash === tx.hash),
+        logsBloom: `0x${"0".repeat(512)}`,
+        status: "0x1",
+        to: tx.to,
+        transactionHash: tx.hash,
+        transactionIndex: toHex(index),
+        type: "0x0",
+      }
+    }
+    case "eth_getLogs": {
+      const filter = args[0] as LogFilter
+      const from = BigInt(filter.fromBlock)
+      const to = BigInt(filter.toBlock)
+      return allLogs.filter((log) => {
+        const n = BigInt(log.blockNumber)
+        if (n < from || n > to) return false
+        if (!matches(log.address, filter.address)) return false
+        return (filter.topics ?? []).every((topic, i) => matches(String(log.topics[i] ?? ""), topic))
+      })
+    }
+    case "eth_call": {
+      const call = args[0] as { to: string; data: Hex }
+      if (call.to.toLowerCase() === MULTICALL) {
+        const { args: callArgs } = decodeFunctionData({ abi: multicall3Abi, data: call.data })
+        const result = callArgs[0].map((sub) =>
+          sub.target.toLowerCase() === SYNTHETIC_TOKEN.toLowerCase()
+            ? { success: true, returnData: erc20Result(sub.callData) }
+            : { success: false, returnData: "0x" as Hex },
+        )
+        return encodeFunctionResult({ abi: multicall3Abi, functionName: "aggregate3", result } as never)
+      }
+      if (call.to.toLowerCase() === SYNTHETIC_TOKEN.toLowerCase()) return erc20Result(call.data)
+      return "0x"
+    }
+    default:
+      throw new Error(`Synthetic node can't answer ${method}`)
+  }
+}
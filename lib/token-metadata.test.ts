@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { metadataFromResults } from './token-metadata'
+
+const success = (result: unknown) => ({ status: 'success' as const, result })
+const failure = { status: 'failure' as const }
+
+describe('metadataFromResults', () => {
+  it('reads name, symbol, decimals and supply in call order', () => {
+    const supply = BigInt('1000000000000000000000000000')
+    const metadata = metadataFromResults([success('Arena Cat'), success('ACAT'), success(18), success(supply)])
+    expect(metadata).toEqual({
+      name: 'Arena Cat',
+      symbol: 'ACAT',
+      decimals: 18,
+      totalSupply: '1000000000000000000000000000',
+    })
+  })
+
+  it('leaves reverted calls empty', () => {
+    const metadata = metadataFromResults([failure, success('ACAT'), failure, success(1n)])
+    expect(metadata).toEqual({ name: null, symbol: 'ACAT', decimals: null, totalSupply: '1' })
+  })
+
+  it('ignores empty strings and unexpected types', () => {
+    const metadata = metadataFromResults([success(''), success(null), success('18'), success(5)])
+    expect(metadata).toEqual({ name: null, symbol: null, decimals: null, totalSupply: null })
+  })
+})
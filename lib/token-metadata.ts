@@ -0,0 +1,200 @@
+import { erc20Abi, type Address } from "viem"
+import { client, type ContractTransaction, type TokenData } from "./blockchain"
+import { getTokensByAddress, getTokensMissingMetadata, updateTokenMetadata } from "./database"
+
+// ERC-20 metadata (name, symbol, decimals, totalSupply) read in multicall batches. Results are cached in the
+// tokens table, so rows whose creation calldata couldn't be decoded get their gaps filled in over time.
+
+export interface Erc20Metadata {
+  name: string | null
+  symbol: string | null
+  decimals: number | null
+  totalSupply: string | null
+}
+
+type CallResult = { status: "success" | "failure"; result?: unknown }
+
+const METADATA_FUNCTIONS = ["name", "symbol", "decimals", "totalSupply"] as const
+
+// Tokens per multicall; each token is four calls
+const TOKENS_PER_MULTICALL = 50
+
+// Complete results only, so tokens that failed are tried again later
+const metadataCache = new Map<string, Erc20Metadata>()
+
+function isComplete(metadata: Erc20Metadata): boolean {
+  return metadata.name !== null && metadata.symbol !== null && metadata.decimals !== null
+}
+
+// Metadata from the four call results of one token, in METADATA_FUNCTIONS order. Calls that reverted or
+// returned something unexpected (bytes32 names, missing functions) are left empty.
+export function metadataFromResults(results: CallResult[]): Erc20Metadata {
+  const value = (index: number) => (results[index]?.status === "success" ? results[index].result : undefined)
+  const [name, symbol, decimals, totalSupply] = METADATA_FUNCTIONS.map((_, index) => value(index))
+
+  return {
+    name: typeof name === "string" && name.length > 0 ? name : null,
+    symbol: typeof symbol === "string" && symbol.length > 0 ? symbol : null,
+    decimals: typeof decimals === "number" ? decimals : null,
+    totalSupply: typeof totalSupply === "bigint" ? totalSupply.toString() : null,
+  }
+}
+
+// Read metadata straight from the token contracts, keyed by lowercase address
+export async function fetchTokenMetadata(addresses: string[]): Promise<Map<string, Erc20Metadata>> {
+  const metadata = new Map<string, Erc20Metadata>()
+  const unique = [...new Set(addresses.map((address) => address.toLowerCase()))]
+
+  for (let i = 0; i < unique.length; i += TOKENS_PER_MULTICALL) {
+    const batch = unique.slice(i, i + TOKENS_PER_MULTICALL)
+
+    try {
+      const results = await client.multicall({
+        contracts: batch.flatMap((address) =>
+          METADATA_FUNCTIONS.map((functionName) => ({ address: address as Address, abi: erc20Abi, functionName })),
+        ),
+        allowFailure: true,
+      })
+
+      batch.forEach((address, index) => {
+        const offset = index * METADATA_FUNCTIONS.length
+        metadata.set(address, metadataFromResults(results.slice(offset, offset + METADATA_FUNCTIONS.length)))
+      })
+    } catch (error) {
+      console.error(`❌ Error reading metadata for ${batch.length} tokens:`, error)
+    }
+  }
+
+  return metadata
+}
+
+// Metadata from the memory cache, the tokens table or the chain, in that order. Stored rows with gaps are
+// updated with whatever the chain returns.
+export async function resolveTokenMetadata(addresses: string[]): Promise<Map<string, Erc20Metadata>> {
+  const resolved = new Map<string, Erc20Metadata>()
+  const unique = [...new Set(addresses.map((address) => address.toLowerCase()))]
+
+  const uncached = unique.filter((address) => {
+    const cached = metadataCache.get(address)
+    if (cached) resolved.set(address, cached)
+    return !cached
+  })
+  if (uncached.length === 0) return resolved
+
+  const storedRows = new Map(
+    ((await getTokensByAddress(uncached)) ?? []).map((row) => [row.address.toLowerCase(), row]),
+  )
+
+  const missing: string[] = []
+  for (const address of uncached) {
+    const row = storedRows.get(address)
+    const stored: Erc20Metadata | null = row
+      ? {
+          name: row.name,
+          symbol: row.symbol,
+          decimals: row.decimals,
+          totalSupply: row.total_supply !== null ? BigInt(Math.trunc(row.total_supply)).toString() : null,
+        }
+      : null
+
+    if (stored && isComplete(stored)) {
+      metadataCache.set(address, stored)
+      resolved.set(address, stored)
+    } else {
+      missing.push(address)
+    }
+  }
+  if (missing.length === 0) return resolved
+
+  const fetched = await fetchTokenMetadata(missing)
+
+  for (const [address, metadata] of fetched) {
+    const row = storedRows.get(address)
+    const merged: Erc20Metadata = {
+      name: row?.name ?? metadata.name,
+      symbol: row?.symbol ?? metadata.symbol,
+      decimals: row?.decimals ?? metadata.decimals,
+      totalSupply: metadata.totalSupply,
+    }
+
+    if (isComplete(merged)) metadataCache.set(address, merged)
+    resolved.set(address, merged)
+
+    // Fill the gaps of the stored row without overwriting what it already has
+    if (row) {
+      const update = {
+        ...(row.name === null && merged.name !== null && { name: merged.name }),
+        ...(row.symbol === null && merged.symbol !== null && { symbol: merged.symbol }),
+        ...(row.decimals === null && merged.decimals !== null && { decimals: merged.decimals }),
+        ...(row.total_supply === null && merged.totalSupply !== null && { total_supply: Number(merged.totalSupply) }),
+      }
+      if (Object.keys(update).length > 0) await updateTokenMetadata(row.address, update)
+    }
+  }
+
+  return resolved
+}
+
+// Fill in name, symbol and decimals of token creations the calldata decoder couldn't read (routed calls,
+// unknown create methods). Updates the transactions in place.
+export async function enrichTransactionMetadata(transactions: ContractTransaction[]): Promise<void> {
+  const incomplete = transactions.filter(
+    (tx) =>
+      tx.tokenMetadata?.tokenAddress &&
+      (!tx.tokenMetadata.name || !tx.tokenMetadata.symbol || tx.tokenMetadata.decimals === undefined),
+  )
+  if (incomplete.length === 0) return
+
+  const metadata = await resolveTokenMetadata(incomplete.map((tx) => tx.tokenMetadata!.tokenAddress!))
+
+  for (const tx of incomplete) {
+    const tokenMetadata = tx.tokenMetadata!
+    const found = metadata.get(tokenMetadata.tokenAddress!.toLowerCase())
+    if (!found) continue
+
+    tokenMetadata.name = tokenMetadata.name || found.name || undefined
+    tokenMetadata.symbol = tokenMetadata.symbol || found.symbol || undefined
+    tokenMetadata.decimals = tokenMetadata.decimals ?? found.decimals ?? undefined
+    tokenMetadata.totalSupply = tokenMetadata.totalSupply || found.totalSupply || undefined
+  }
+}
+
+// Same for the token list, whose TokenCreated events carry no name or symbol
+export async function enrichTokens(tokens: TokenData[]): Promise<TokenData[]> {
+  const addresses = tokens.map((token) => token.address).filter((address): address is string => !!address)
+  if (addresses.length === 0) return tokens
+
+  const metadata = await resolveTokenMetadata(addresses)
+
+  return tokens.map((token) => {
+    const found = token.address ? metadata.get(token.address.toLowerCase()) : undefined
+    if (!found) return token
+
+    return {
+      ...token,
+      name: token.name || found.name || undefined,
+      symbol: token.symbol || found.symbol || undefined,
+      decimals: token.decimals ?? found.decimals ?? undefined,
+      totalSupply: token.totalSupply || found.totalSupply || undefined,
+    }
+  })
+}
+
+// One pass over stored tokens with missing metadata. Returns how many rows were checked and how many are
+// complete now, so callers can page past the ones the chain can't fill.
+export async function enrichStoredTokens(
+  limit = 500,
+  offset = 0,
+): Promise<{ checked: number; completed: number }> {
+  const rows = await getTokensMissingMetadata(limit, offset)
+  if (rows.length === 0) return { checked: 0, completed: 0 }
+
+  const metadata = await resolveTokenMetadata(rows.map((row) => row.address))
+  const completed = rows.filter((row) => {
+    const found = metadata.get(row.address.toLowerCase())
+    return found !== undefined && isComplete(found)
+  }).length
+
+  console.log(`🏷️ Enriched metadata of ${completed}/${rows.length} stored tokens`)
+  return { checked: rows.length, completed }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { computeTradeStats, getLaunchpadAvaxFlow } from './trades'
+
+const TOKEN = '0x1111111111111111111111111111111111111111'
+const ALICE = '0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa'
+const BOB = '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB'
+
+describe('computeTradeStats', () => {
+  it('returns empty stats without trades', () => {
+    const stats = computeTradeStats(TOKEN, [])
+    expect(stats.trades).toBe(0)
+    expect(stats.uniqueTraders).toBe(0)
+    expect(stats.buyVolume).toBe('0')
+    expect(stats.netTokenFlow).toBe('0')
+  })
+
+  it('sums volume, unique traders and net flow', () => {
+    const stats = computeTradeStats(TOKEN, [
+      { side: 'BUY', trader_address: ALICE, avax_amount: '100', token_amount: '1000' },
+      { side: 'BUY', trader_address: ALICE.toLowerCase(), avax_amount: '50', token_amount: '400' },
+      { side: 'BUY', trader_address: BOB, avax_amount: '20', token_amount: '100' },
+      { side: 'SELL', trader_address: ALICE, avax_amount: '30', token_amount: '300' },
+    ])
+
+    expect(stats.trades).toBe(4)
+    expect(stats.buys).toBe(3)
+    expect(stats.sells).toBe(1)
+    // Addresses are compared case-insensitively
+    expect(stats.uniqueBuyers).toBe(2)
+    expect(stats.uniqueSellers).toBe(1)
+    expect(stats.uniqueTraders).toBe(2)
+    expect(stats.buyVolume).toBe('170')
+    expect(stats.sellVolume).toBe('30')
+    expect(stats.netTokenFlow).toBe('1200')
+    expect(stats.netAvaxFlow).toBe('140')
+  })
+
+  it('leaves trades with an unknown AVAX amount out of the volumes', () => {
+    const stats = computeTradeStats(TOKEN, [
+      { side: 'BUY', trader_address: ALICE, avax_amount: '100', token_amount: '1000' },
+      { side: 'SELL', trader_address: BOB, avax_amount: null, token_amount: '1500' },
+    ])
+
+    expect(stats.sellVolume).toBe('0')
+    expect(stats.unknownAvaxTrades).toBe(1)
+    expect(stats.netTokenFlow).toBe('-500')
+    expect(stats.netAvaxFlow).toBeNull()
+  })
+})
+
+describe('getLaunchpadAvaxFlow', () => {
+  const LAUNCHPAD = '0x3333333333333333333333333333333333333333'
+  const ROUTER = '0x4444444444444444444444444444444444444444'
+  const FEES = '0x5555555555555555555555555555555555555555'
+  const transfer = (from: string, to: string, value: string, depth: number) => ({
+    from,
+    to,
+    value,
+    type: 'CALL',
+    depth,
+  })
+
+  it('reads sell proceeds and routed buy payments from the trace', () => {
+    // The launchpad pays a router, which forwards the AVAX to the seller
+    const sell = {
+      supported: true,
+      valueTransfers: [transfer(LAUNCHPAD, ROUTER, '70', 2), transfer(ROUTER, BOB, '70', 1)],
+      revertedCalls: 0,
+    }
+    const buy = {
+      supported: true,
+      valueTransfers: [transfer(ALICE, ROUTER, '90', 0), transfer(ROUTER, LAUNCHPAD, '90', 1)],
+      revertedCalls: 0,
+    }
+
+    // The router sold the tokens into the launchpad, so it's the trader
+    expect(getLaunchpadAvaxFlow(sell, LAUNCHPAD, 'SELL', ROUTER)).toBe(BigInt(70))
+    expect(getLaunchpadAvaxFlow(buy, LAUNCHPAD, 'BUY', ALICE)).toBe(BigInt(90))
+    expect(getLaunchpadAvaxFlow(buy, LAUNCHPAD, 'SELL', ALICE)).toBe(BigInt(0))
+  })
+
+  it('leaves fees the launchpad pays out of sell proceeds', () => {
+    const sell = {
+      supported: true,
+      valueTransfers: [transfer(LAUNCHPAD, FEES, '5', 1), transfer(LAUNCHPAD, BOB.toLowerCase(), '70', 1)],
+      revertedCalls: 0,
+    }
+
+    expect(getLaunchpadAvaxFlow(sell, LAUNCHPAD, 'SELL', BOB)).toBe(BigInt(70))
+  })
+
+  it('leaves the amount unknown without a trace', () => {
+    const trace = { supported: false, valueTransfers: [], revertedCalls: 0 }
+    expect(getLaunchpadAvaxFlow(trace, LAUNCHPAD, 'SELL', BOB)).toBeNull()
+  })
+})
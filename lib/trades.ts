@@ -0,0 +1,275 @@
+import { getAddress, zeroAddress, type Address, type Hash } from "viem"
+import { client, getTokenCreatedLogs } from "./blockchain"
+import { traceTransaction, type CallTrace } from "./call-trace"
+import { ARENA_CONTRACT_ADDRESS, getLaunchpadContracts } from "./contracts"
+import { TRANSFER_EVENT } from "./decoder"
+import { getTokensByAddress, getTradesForToken, saveTrades, type TradeInsert, type TradeRow } from "./database"
+import { recordGraduations, type TokenGraduation } from "./graduation"
+
+// Arena launches trade against the launch contract itself: it holds the unsold supply, so a buy is a token
+// transfer out of the contract and a sell is a transfer back into it. A transfer into the token's pair is the
+// graduation liquidity move (`createLP`), which is recorded as a graduation instead of a trade.
+
+export type TradeSide = "BUY" | "SELL"
+
+export interface TokenTradeStats {
+  tokenAddress: string
+  trades: number
+  buys: number
+  sells: number
+  uniqueTraders: number
+  uniqueBuyers: number
+  uniqueSellers: number
+  buyVolume: string // AVAX spent on buys (wei)
+  sellVolume: string // AVAX received from sells where known (wei)
+  netTokenFlow: string // Tokens bought minus tokens sold (wei)
+  netAvaxFlow: string | null // buyVolume minus sellVolume (wei), null while any trade's AVAX amount is unknown
+  unknownAvaxTrades: number // Trades whose AVAX amount isn't known, left out of the volumes
+}
+
+export interface ArenaToken {
+  address: string
+  pairAddress: string | null
+  creatorAddress: string
+  totalSupply: bigint | null
+  contractAddress: string // Launchpad contract that holds the curve supply
+}
+
+// Launches created inside a block range, keyed by lowercase token address
+export async function getLaunchesInRange(fromBlock: bigint, toBlock: bigint): Promise<Map<string, ArenaToken>> {
+  const tokens = new Map<string, ArenaToken>()
+
+  for (const log of await getTokenCreatedLogs(fromBlock, toBlock)) {
+    const params = log.args.params
+    if (!params) continue
+    tokens.set(params.tokenContractAddress.toLowerCase(), {
+      address: getAddress(params.tokenContractAddress),
+      pairAddress: params.pairAddress.toLowerCase(),
+      creatorAddress: params.creatorAddress,
+      totalSupply: log.args.tokenSupply ?? null,
+      contractAddress: log.address,
+    })
+  }
+
+  return tokens
+}
+
+// Arena launches among a set of token contracts: everything stored, plus launches created inside the range
+// that may not be saved yet. Pass the range's launches when they were already read. Throws when the stored
+// launches can't be read, so callers retry the range instead of skipping their trades.
+export async function getArenaTokensInRange(
+  tokenAddresses: string[],
+  fromBlock: bigint,
+  toBlock: bigint,
+  launches?: Map<string, ArenaToken>,
+): Promise<Map<string, ArenaToken>> {
+  const tokens = new Map(launches ?? (await getLaunchesInRange(fromBlock, toBlock)))
+
+  const missing = tokenAddresses.filter((address) => !tokens.has(address.toLowerCase()))
+  const rows = await getTokensByAddress(missing)
+  if (!rows) throw new Error(`Failed to read ${missing.length} stored launches`)
+
+  for (const row of rows) {
+    tokens.set(row.address.toLowerCase(), {
+      address: row.address,
+      pairAddress: row.pair_address,
+      creatorAddress: row.creator_address,
+      totalSupply: row.total_supply !== null ? BigInt(Math.trunc(row.total_supply)) : null,
+      // Rows stored before contract_address existed are all Arena launches
+      contractAddress: row.contract_address ?? ARENA_CONTRACT_ADDRESS,
+    })
+  }
+
+  return tokens
+}
+
+// Find Arena buys, sells and graduations in a block range and store them. Throws when the chain can't be
+// read, so callers can retry the range; rows are unique per log, so retries don't duplicate trades.
+// With graduationAlertSent the graduations found are stored without a pending alert.
+export async function indexTradesInRange(
+  fromBlock: bigint,
+  toBlock: bigint,
+  options: { graduationAlertSent?: boolean } = {},
+): Promise<number> {
+  const launchpads = getLaunchpadContracts().map((contract) => contract.address)
+  const [buyLogs, sellLogs] = await Promise.all([
+    client.getLogs({ event: TRANSFER_EVENT, args: { from: launchpads }, fromBlock, toBlock }),
+    client.getLogs({ event: TRANSFER_EVENT, args: { to: launchpads }, fromBlock, toBlock }),
+  ])
+
+  const transfers = [
+    ...buyLogs.map((log) => ({ log, side: "BUY" as TradeSide })),
+    ...sellLogs.map((log) => ({ log, side: "SELL" as TradeSide })),
+  ]
+  if (transfers.length === 0) return 0
+
+  const tokens = await getArenaTokensInRange(
+    [...new Set(transfers.map(({ log }) => log.address))],
+    fromBlock,
+    toBlock,
+  )
+
+  const blockTimestamps = new Map<bigint, number>()
+  const buyValues = new Map<Hash, bigint | null>()
+  const traces = new Map<Hash, CallTrace>()
+  const trades: TradeInsert[] = []
+  const graduations: TokenGraduation[] = []
+
+  const getTimestamp = async (blockNumber: bigint) => {
+    let timestamp = blockTimestamps.get(blockNumber)
+    if (timestamp === undefined) {
+      const block = await client.getBlock({ blockNumber })
+      timestamp = Number(block.timestamp) * 1000
+      blockTimestamps.set(blockNumber, timestamp)
+    }
+    return timestamp
+  }
+
+  for (const { log, side } of transfers) {
+    const token = tokens.get(log.address.toLowerCase())
+    if (!token || !log.args.from || !log.args.to || log.args.value === undefined) continue
+
+    // Only transfers against the launchpad that created the token are curve trades
+    const counterparty = side === "BUY" ? log.args.from : log.args.to
+    if (counterparty.toLowerCase() !== token.contractAddress.toLowerCase()) continue
+
+    // Minting the supply into the contract at launch isn't a trade either
+    const trader = side === "BUY" ? log.args.to : log.args.from
+    if (trader === zeroAddress) continue
+
+    const timestamp = await getTimestamp(log.blockNumber)
+
+    if (token.pairAddress && trader.toLowerCase() === token.pairAddress.toLowerCase()) {
+      if (side === "BUY") {
+        graduations.push({
+          tokenAddress: token.address,
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          timestamp,
+        })
+      }
+      continue
+    }
+
+    // A direct buy pays the contract in the transaction value. The AVAX paid out on a sell, or passed on by a
+    // router, moves in internal calls that logs don't show, so those come from the call trace and stay
+    // unknown on nodes that can't trace. Any other trace failure throws, so the range is retried instead of
+    // storing an unknown amount for good.
+    let avaxAmount: bigint | null = null
+    if (side === "BUY") {
+      if (!buyValues.has(log.transactionHash)) {
+        const tx = await client.getTransaction({ hash: log.transactionHash })
+        const isDirectCall = tx.to?.toLowerCase() === token.contractAddress.toLowerCase()
+        buyValues.set(log.transactionHash, isDirectCall ? tx.value : null)
+      }
+      avaxAmount = buyValues.get(log.transactionHash) ?? null
+    }
+    if (avaxAmount === null) {
+      let trace = traces.get(log.transactionHash)
+      if (!trace) {
+        trace = await traceTransaction(log.transactionHash)
+        traces.set(log.transactionHash, trace)
+      }
+      avaxAmount = getLaunchpadAvaxFlow(trace, token.contractAddress, side, trader)
+    }
+
+    trades.push({
+      transaction_hash: log.transactionHash,
+      log_index: log.logIndex,
+      token_address: token.address,
+      trader_address: getAddress(trader as Address),
+      side,
+      avax_amount: avaxAmount?.toString() ?? null,
+      token_amount: log.args.value.toString(),
+      block_number: Number(log.blockNumber),
+      timestamp: new Date(timestamp).toISOString(),
+    })
+  }
+
+  if (graduations.length > 0) {
+    await recordGraduations(graduations, { alertSent: options.graduationAlertSent })
+  }
+
+  if (trades.length === 0) return 0
+
+  if (!(await saveTrades(trades))) {
+    throw new Error(`Failed to save ${trades.length} trades for blocks ${fromBlock}-${toBlock}`)
+  }
+
+  console.log(`💱 Indexed ${trades.length} trades in blocks ${fromBlock}-${toBlock}`)
+  return trades.length
+}
+
+// AVAX the launchpad took in (buy) or paid the trader (sell) across a traced transaction, or null without a
+// trace. Fees the launchpad pays out to others on a sell aren't part of the trader's proceeds.
+export function getLaunchpadAvaxFlow(
+  trace: CallTrace,
+  launchpad: string,
+  side: TradeSide,
+  trader: string,
+): bigint | null {
+  if (!trace.supported) return null
+
+  const contract = launchpad.toLowerCase()
+  return trace.valueTransfers
+    .filter((transfer) =>
+      side === "BUY"
+        ? transfer.to.toLowerCase() === contract
+        : transfer.from.toLowerCase() === contract && transfer.to.toLowerCase() === trader.toLowerCase(),
+    )
+    .reduce((total, transfer) => total + BigInt(transfer.value), 0n)
+}
+
+export function computeTradeStats(
+  tokenAddress: string,
+  trades: Pick<TradeRow, "side" | "trader_address" | "avax_amount" | "token_amount">[],
+): TokenTradeStats {
+  const buyers = new Set<string>()
+  const sellers = new Set<string>()
+  let buyVolume = 0n
+  let sellVolume = 0n
+  let netTokenFlow = 0n
+  let unknownAvaxTrades = 0
+
+  for (const trade of trades) {
+    const trader = trade.trader_address.toLowerCase()
+    const tokenAmount = BigInt(trade.token_amount)
+    const avaxAmount = trade.avax_amount !== null ? BigInt(trade.avax_amount) : null
+
+    if (avaxAmount === null) unknownAvaxTrades++
+
+    if (trade.side === "BUY") {
+      buyers.add(trader)
+      netTokenFlow += tokenAmount
+      buyVolume += avaxAmount ?? 0n
+    } else {
+      sellers.add(trader)
+      netTokenFlow -= tokenAmount
+      sellVolume += avaxAmount ?? 0n
+    }
+  }
+
+  return {
+    tokenAddress,
+    trades: trades.length,
+    buys: trades.filter((trade) => trade.side === "BUY").length,
+    sells: trades.filter((trade) => trade.side === "SELL").length,
+    uniqueTraders: new Set([...buyers, ...sellers]).size,
+    uniqueBuyers: buyers.size,
+    uniqueSellers: sellers.size,
+    buyVolume: buyVolume.toString(),
+    sellVolume: sellVolume.toString(),
+    netTokenFlow: netTokenFlow.toString(),
+    // With some amounts missing the difference would just be whichever side is better known
+    netAvaxFlow: unknownAvaxTrades === 0 ? (buyVolume - sellVolume).toString() : null,
+    unknownAvaxTrades,
+  }
+}
+
+// Volume, unique traders and net flow for one launch, or null when its trades can't be read
+export async function getTokenTradeStats(tokenAddress: string): Promise<TokenTradeStats | null> {
+  const trades = await getTradesForToken(tokenAddress)
+  if (!trades) return null
+
+  return computeTradeStats(tokenAddress, trades)
+}
@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Relative API paths only resolve in the browser; server-side callers such as the headless indexer need an absolute URL
+export function getApiUrl(path: string): string {
+  if (typeof window !== "undefined") return path
+
+  const baseUrl = process.env.APP_BASE_URL || "http://localhost:3000"
+  return `${baseUrl.replace(/\/$/, "")}${path}`
+}
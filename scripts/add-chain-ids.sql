@@ -0,0 +1,23 @@
+-- Chain each indexed row came from (43114 Avalanche C-Chain, 43113 Fuji, 31337 a local anvil node), so a
+-- development chain can share the database without mixing into mainnet data.
+-- Existing rows were all indexed on mainnet.
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 43114;
+ALTER TABLE contract_transactions ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 43114;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 43114;
+ALTER TABLE pool_snapshots ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 43114;
+ALTER TABLE liquidity_removals ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 43114;
+ALTER TABLE token_transfers ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 43114;
+ALTER TABLE holder_snapshots ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 43114;
+ALTER TABLE token_holders ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 43114;
+ALTER TABLE creators ADD COLUMN IF NOT EXISTS chain_id INTEGER NOT NULL DEFAULT 43114;
+
+-- The same wallet can hold or launch tokens on several chains
+ALTER TABLE token_holders DROP CONSTRAINT IF EXISTS token_holders_pkey;
+ALTER TABLE token_holders ADD PRIMARY KEY (chain_id, token_address, holder_address);
+ALTER TABLE creators DROP CONSTRAINT IF EXISTS creators_wallet_address_key;
+ALTER TABLE creators ADD CONSTRAINT creators_chain_wallet_address_key UNIQUE (chain_id, wallet_address);
+
+CREATE INDEX IF NOT EXISTS idx_contract_transactions_chain ON contract_transactions(chain_id, block_number DESC);
+CREATE INDEX IF NOT EXISTS idx_tokens_chain ON tokens(chain_id);
+CREATE INDEX IF NOT EXISTS idx_trades_chain ON trades(chain_id, block_number DESC);
+CREATE INDEX IF NOT EXISTS idx_creators_chain ON creators(chain_id, contracts_created DESC);
@@ -0,0 +1,11 @@
+-- Launchpad contract that created each token and emitted each transaction, so several launchpads can share the tables
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS contract_address TEXT;
+ALTER TABLE contract_transactions ADD COLUMN IF NOT EXISTS contract_address TEXT;
+
+-- Everything stored before this migration came from the Arena launch contract
+UPDATE tokens SET contract_address = '0x8315f1eb449dd4b779495c3a0b05e5d194446c6e' WHERE contract_address IS NULL;
+UPDATE contract_transactions SET contract_address = '0x8315f1eb449dd4b779495c3a0b05e5d194446c6e'
+  WHERE contract_address IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tokens_contract_address ON tokens(contract_address);
+CREATE INDEX IF NOT EXISTS idx_contract_transactions_contract_address ON contract_transactions(contract_address);
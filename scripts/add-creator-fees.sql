@@ -0,0 +1,7 @@
+-- Creator fees earned on the bonding curve, from the launch's creatorFeeBasisPoints and its stored trades.
+-- Wei amounts as text so they never lose precision.
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS creator_fees_earned TEXT;
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS creator_fee_volume TEXT; -- Curve volume the fees were taken from
+
+-- Running total over all of a creator's launches
+ALTER TABLE creators ADD COLUMN IF NOT EXISTS fees_earned TEXT NOT NULL DEFAULT '0';
@@ -0,0 +1,10 @@
+-- Where each creator wallet got its first AVAX, and the cluster of creators funded from the same source
+ALTER TABLE creators ADD COLUMN IF NOT EXISTS funding_source TEXT;
+ALTER TABLE creators ADD COLUMN IF NOT EXISTS funding_path JSONB;
+ALTER TABLE creators ADD COLUMN IF NOT EXISTS funding_funders TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE creators ADD COLUMN IF NOT EXISTS funding_traced_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE creators ADD COLUMN IF NOT EXISTS cluster_id TEXT;
+
+-- Finding creators that share a funder is an array overlap query
+CREATE INDEX IF NOT EXISTS creators_funding_funders_idx ON creators USING GIN (funding_funders);
+CREATE INDEX IF NOT EXISTS creators_cluster_id_idx ON creators (cluster_id);
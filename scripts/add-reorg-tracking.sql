@@ -0,0 +1,3 @@
+-- Block hash of every stored transaction, so rows from orphaned blocks can be told apart after a chain reorganization
+ALTER TABLE contract_transactions
+  ADD COLUMN IF NOT EXISTS block_hash TEXT;
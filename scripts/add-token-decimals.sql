@@ -0,0 +1,6 @@
+-- ERC-20 decimals read from the token contract by the metadata enrichment
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS decimals INTEGER;
+
+-- Rows still missing metadata are filled in by `pnpm enrich-metadata`
+CREATE INDEX IF NOT EXISTS idx_tokens_missing_metadata ON tokens(block_number)
+  WHERE name IS NULL OR symbol IS NULL OR decimals IS NULL;
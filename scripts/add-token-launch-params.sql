@@ -0,0 +1,14 @@
+-- Full TokenCreated params tuple: bonding curve, LP and fee settings of each launch
+ALTER TABLE tokens
+  ADD COLUMN IF NOT EXISTS arena_token_id TEXT,
+  -- uint128, stored as text so it never loses precision
+  ADD COLUMN IF NOT EXISTS curve_scaler TEXT,
+  ADD COLUMN IF NOT EXISTS curve_a INTEGER,
+  ADD COLUMN IF NOT EXISTS curve_b INTEGER,
+  ADD COLUMN IF NOT EXISTS lp_deployed BOOLEAN,
+  ADD COLUMN IF NOT EXISTS lp_percentage INTEGER,
+  ADD COLUMN IF NOT EXISTS sale_percentage INTEGER,
+  ADD COLUMN IF NOT EXISTS creator_fee_basis_points INTEGER,
+  ADD COLUMN IF NOT EXISTS pair_address TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tokens_pair_address ON tokens(pair_address);
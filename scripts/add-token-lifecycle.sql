@@ -0,0 +1,12 @@
+-- Token lifecycle: a launch trades on the bonding curve until its liquidity pool is deployed (graduation)
+ALTER TABLE tokens
+  ADD COLUMN IF NOT EXISTS lifecycle_state TEXT NOT NULL DEFAULT 'bonding' CHECK (lifecycle_state IN ('bonding', 'graduated')),
+  ADD COLUMN IF NOT EXISTS graduated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS graduation_block BIGINT,
+  ADD COLUMN IF NOT EXISTS graduation_tx_hash TEXT,
+  ADD COLUMN IF NOT EXISTS time_to_graduate_seconds INTEGER,
+  -- Graduations found by the backfill are stored as already alerted
+  ADD COLUMN IF NOT EXISTS graduation_alert_sent BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_tokens_lifecycle_state ON tokens(lifecycle_state);
+CREATE INDEX IF NOT EXISTS idx_tokens_graduation_block ON tokens(graduation_block);
@@ -0,0 +1,29 @@
+-- What creators do with their own launches afterwards: sells, transfers to other wallets and LP removals
+CREATE TABLE IF NOT EXISTS creator_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  token_address TEXT NOT NULL,
+  creator_address TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('CREATOR_SELL', 'CREATOR_TRANSFER', 'LIQUIDITY_REMOVAL')),
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  transaction_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  counterparty TEXT, -- Launchpad, pair or receiving wallet
+  -- Wei amounts as text so they never lose precision; avax_amount is only known for LP removals
+  token_amount TEXT NOT NULL,
+  avax_amount TEXT,
+  percentage NUMERIC(6, 2) NOT NULL, -- Share of the supply, or of the pool's AVAX for LP removals
+  block_number BIGINT NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL,
+  alert_sent BOOLEAN NOT NULL DEFAULT FALSE,
+  chain_id INTEGER NOT NULL DEFAULT 43114,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (transaction_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_events_creator_address ON creator_events(creator_address);
+CREATE INDEX IF NOT EXISTS idx_creator_events_token_address ON creator_events(token_address);
+CREATE INDEX IF NOT EXISTS idx_creator_events_block_number ON creator_events(block_number DESC);
+CREATE INDEX IF NOT EXISTS idx_creator_events_pending_alerts ON creator_events(block_number) WHERE alert_sent = FALSE;
+
+-- Summary of each creator's events (counts per severity, tokens affected, last event)
+ALTER TABLE creators ADD COLUMN IF NOT EXISTS rug_history JSONB NOT NULL DEFAULT '{}'::jsonb;
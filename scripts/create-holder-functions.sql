@@ -0,0 +1,96 @@
+-- Transfers and the holder balances built from them change together, inside one transaction: a failed call
+-- leaves both untouched, so the indexer can retry the range, and a transfer that is already stored (a retry,
+-- or the live monitor and the backfill indexing the same blocks) never changes a balance again.
+-- Run after add-chain-ids.sql.
+
+-- A holder below zero got its first tokens before indexing started, so its balance is unknown and the row is
+-- removed. Holders at zero stay: they sold or moved everything, which the rug detector needs to know.
+CREATE OR REPLACE FUNCTION remove_unknown_holders(chain INTEGER, tokens TEXT[])
+RETURNS VOID AS $$
+  DELETE FROM token_holders
+  WHERE token_holders.chain_id = chain AND token_holders.token_address = ANY(tokens) AND token_holders.balance < 0;
+$$ LANGUAGE sql;
+
+-- Store a batch of transfers (token_address, transaction_hash, log_index, from_address, to_address, value,
+-- block_number) and apply the balance changes of the ones that are new. Returns how many were new.
+CREATE OR REPLACE FUNCTION apply_token_transfers(transfers JSONB, chain INTEGER, at_block BIGINT)
+RETURNS INTEGER AS $$
+DECLARE
+  applied INTEGER;
+  changed TEXT[];
+BEGIN
+  WITH inserted AS (
+    INSERT INTO token_transfers (
+      token_address, transaction_hash, log_index, from_address, to_address, value, block_number, chain_id
+    )
+    SELECT t.token_address, t.transaction_hash, t.log_index, t.from_address, t.to_address, t.value::NUMERIC,
+      t.block_number, chain
+    FROM jsonb_to_recordset(transfers) AS t(
+      token_address TEXT, transaction_hash TEXT, log_index INTEGER, from_address TEXT, to_address TEXT,
+      value TEXT, block_number BIGINT
+    )
+    ON CONFLICT (transaction_hash, log_index) DO NOTHING
+    RETURNING token_transfers.token_address, token_transfers.from_address, token_transfers.to_address,
+      token_transfers.value
+  ),
+  changes AS (
+    SELECT inserted.token_address, inserted.from_address AS holder_address, -inserted.value AS change
+    FROM inserted
+    UNION ALL
+    SELECT inserted.token_address, inserted.to_address, inserted.value FROM inserted
+  ),
+  balances AS (
+    INSERT INTO token_holders AS holders (chain_id, token_address, holder_address, balance, updated_block)
+    SELECT chain, changes.token_address, changes.holder_address, SUM(changes.change), at_block
+    FROM changes
+    -- Mints and burns only move supply
+    WHERE changes.holder_address <> '0x0000000000000000000000000000000000000000'
+    GROUP BY changes.token_address, changes.holder_address
+    ON CONFLICT (chain_id, token_address, holder_address) DO UPDATE
+    SET balance = holders.balance + EXCLUDED.balance, updated_block = EXCLUDED.updated_block, updated_at = NOW()
+    RETURNING holders.token_address
+  )
+  SELECT (SELECT COUNT(*) FROM inserted), ARRAY(SELECT DISTINCT balances.token_address FROM balances)
+  INTO applied, changed;
+
+  PERFORM remove_unknown_holders(chain, changed);
+  RETURN applied;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Delete the transfers above a block (chain reorganization) and take their balance changes back.
+-- Returns how many transfers were reverted.
+CREATE OR REPLACE FUNCTION revert_token_transfers_after(chain INTEGER, after_block BIGINT)
+RETURNS INTEGER AS $$
+DECLARE
+  reverted INTEGER;
+  changed TEXT[];
+BEGIN
+  WITH deleted AS (
+    DELETE FROM token_transfers
+    WHERE token_transfers.chain_id = chain AND token_transfers.block_number > after_block
+    RETURNING token_transfers.token_address, token_transfers.from_address, token_transfers.to_address,
+      token_transfers.value
+  ),
+  changes AS (
+    SELECT deleted.token_address, deleted.from_address AS holder_address, deleted.value AS change FROM deleted
+    UNION ALL
+    SELECT deleted.token_address, deleted.to_address, -deleted.value FROM deleted
+  ),
+  balances AS (
+    INSERT INTO token_holders AS holders (chain_id, token_address, holder_address, balance, updated_block)
+    SELECT chain, changes.token_address, changes.holder_address, SUM(changes.change), after_block
+    FROM changes
+    WHERE changes.holder_address <> '0x0000000000000000000000000000000000000000'
+    GROUP BY changes.token_address, changes.holder_address
+    ON CONFLICT (chain_id, token_address, holder_address) DO UPDATE
+    SET balance = holders.balance + EXCLUDED.balance, updated_block = EXCLUDED.updated_block, updated_at = NOW()
+    RETURNING holders.token_address
+  )
+  SELECT (SELECT COUNT(*) FROM deleted), ARRAY(SELECT DISTINCT balances.token_address FROM balances)
+  INTO reverted, changed;
+
+  PERFORM remove_unknown_holders(chain, changed);
+  RETURN reverted;
+END;
+$$ LANGUAGE plpgsql;
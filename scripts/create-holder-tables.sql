@@ -0,0 +1,44 @@
+-- Holder balances of Arena launches, built from their ERC-20 Transfer events
+CREATE TABLE IF NOT EXISTS token_transfers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  token_address TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  value NUMERIC(78, 0) NOT NULL,
+  block_number BIGINT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Balances are only changed for newly inserted transfers, so re-indexing a range never counts twice
+  UNIQUE (transaction_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_transfers_token_address ON token_transfers(token_address);
+CREATE INDEX IF NOT EXISTS idx_token_transfers_block_number ON token_transfers(block_number DESC);
+
+CREATE TABLE IF NOT EXISTS token_holders (
+  token_address TEXT NOT NULL,
+  holder_address TEXT NOT NULL,
+  -- NUMERIC so holders sort by balance; read back as text to keep full precision
+  balance NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  updated_block BIGINT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (token_address, holder_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_holders_balance ON token_holders(token_address, balance DESC);
+
+-- Holder count and concentration over time
+CREATE TABLE IF NOT EXISTS holder_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  token_address TEXT NOT NULL,
+  block_number BIGINT NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL,
+  holder_count INTEGER NOT NULL,
+  top10_percentage NUMERIC(5, 2) NOT NULL,
+  creator_percentage NUMERIC(5, 2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (token_address, block_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_holder_snapshots_token_address ON holder_snapshots(token_address, block_number DESC);
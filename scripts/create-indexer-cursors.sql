@@ -0,0 +1,21 @@
+-- Persistent block cursors so monitoring resumes exactly where it stopped
+-- One row per chain, contract and cursor type (the live monitor uses 'live')
+CREATE TABLE IF NOT EXISTS indexer_cursors (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chain_id INTEGER NOT NULL,
+  contract_address TEXT NOT NULL,
+  cursor_type TEXT NOT NULL DEFAULT 'live',
+  last_processed_block BIGINT NOT NULL,
+  -- Catch-up range, only set while the cursor is behind the chain head
+  start_block BIGINT,
+  target_block BIGINT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (chain_id, contract_address, cursor_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_cursors_lookup ON indexer_cursors(chain_id, contract_address, cursor_type);
+
+-- Reuses the trigger function from create-tables.sql
+CREATE TRIGGER update_indexer_cursors_updated_at BEFORE UPDATE ON indexer_cursors
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,41 @@
+-- Price and liquidity of graduated launches, from the Sync events of their DEX pair
+CREATE TABLE IF NOT EXISTS pool_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  token_address TEXT NOT NULL,
+  pair_address TEXT NOT NULL,
+  block_number BIGINT NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL,
+  -- Wei amounts as text so they never lose precision
+  reserve_token TEXT NOT NULL,
+  reserve_avax TEXT NOT NULL,
+  price_avax TEXT NOT NULL, -- Wei per whole token
+  liquidity_avax TEXT NOT NULL, -- Both sides valued in AVAX (2 × reserve_avax)
+  swap_count INTEGER NOT NULL DEFAULT 0,
+  volume_avax TEXT NOT NULL DEFAULT '0',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (pair_address, block_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pool_snapshots_token_address ON pool_snapshots(token_address, block_number DESC);
+CREATE INDEX IF NOT EXISTS idx_pool_snapshots_block_number ON pool_snapshots(block_number DESC);
+
+-- Liquidity burns that removed a large share of a pool's AVAX side
+CREATE TABLE IF NOT EXISTS liquidity_removals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  token_address TEXT NOT NULL,
+  pair_address TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  remover_address TEXT NOT NULL,
+  avax_removed TEXT NOT NULL,
+  token_removed TEXT NOT NULL,
+  reserve_avax_before TEXT NOT NULL,
+  removed_percentage NUMERIC(5, 2) NOT NULL,
+  block_number BIGINT NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (transaction_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_liquidity_removals_token_address ON liquidity_removals(token_address);
+CREATE INDEX IF NOT EXISTS idx_liquidity_removals_block_number ON liquidity_removals(block_number DESC);
@@ -0,0 +1,33 @@
+-- Wallets that bought a launch in its own block or within the next few blocks (SNIPER_WINDOW_BLOCKS)
+CREATE TABLE IF NOT EXISTS token_snipers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  token_address TEXT NOT NULL,
+  wallet_address TEXT NOT NULL,
+  token_amount TEXT NOT NULL, -- Wei as text so it never loses precision
+  percentage NUMERIC(6, 2) NOT NULL, -- Share of the supply bought inside the window
+  buys INTEGER NOT NULL DEFAULT 1,
+  blocks_after_launch INTEGER NOT NULL, -- Of the first buy; 0 is the launch block itself
+  block_number BIGINT NOT NULL, -- Of the first buy
+  chain_id INTEGER NOT NULL DEFAULT 43114,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (token_address, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_snipers_wallet_address ON token_snipers(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_token_snipers_block_number ON token_snipers(block_number DESC);
+
+-- How often each wallet snipes across launches
+CREATE OR REPLACE VIEW sniper_wallets AS
+SELECT
+  chain_id,
+  wallet_address,
+  COUNT(DISTINCT token_address)::INTEGER AS launches_sniped,
+  COUNT(*) FILTER (WHERE blocks_after_launch = 0)::INTEGER AS same_block_snipes,
+  AVG(percentage)::NUMERIC(6, 2) AS avg_percentage,
+  MAX(block_number) AS last_sniped_block
+FROM token_snipers
+GROUP BY chain_id, wallet_address;
+
+-- Summary on the launch itself, for the token view and alerts
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS sniper_count INTEGER;
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS sniped_percentage NUMERIC(6, 2);
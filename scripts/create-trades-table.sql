@@ -0,0 +1,20 @@
+-- Buys and sells of Arena launches, derived from token transfers to and from the Arena contract
+CREATE TABLE IF NOT EXISTS trades (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  token_address TEXT NOT NULL,
+  trader_address TEXT NOT NULL,
+  side TEXT NOT NULL CHECK (side IN ('BUY', 'SELL')),
+  -- Wei amounts as text so they never lose precision; avax_amount is NULL when it can't be read from the logs
+  avax_amount TEXT,
+  token_amount TEXT NOT NULL,
+  block_number BIGINT NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (transaction_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trades_token_address ON trades(token_address, block_number);
+CREATE INDEX IF NOT EXISTS idx_trades_trader_address ON trades(trader_address);
+CREATE INDEX IF NOT EXISTS idx_trades_block_number ON trades(block_number DESC);
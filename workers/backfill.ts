@@ -0,0 +1,82 @@
+// Historical backfill of TokenCreated events.
+// Usage: pnpm backfill [--contract <id>] [--from <block>] [--to <block>] [--chunk <blocks>] [--restart]
+// Without --contract every configured launchpad contract is backfilled in turn. Without --from it resumes an
+// unfinished run, or starts at the contract's deployment block.
+import "./load-env"
+import { backfillTokenCreations, type BackfillOptions } from "../lib/backfill"
+import { getLaunchpadContractById, getLaunchpadContracts, type LaunchpadContract } from "../lib/contracts"
+
+function parseArgs(argv: string[]): BackfillOptions {
+  const options: BackfillOptions = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const value = argv[i + 1]
+
+    switch (arg) {
+      case "--contract": {
+        const contract = getLaunchpadContractById(value)
+        if (!contract) {
+          console.error(`❌ Unknown contract id: ${value}`)
+          process.exit(1)
+        }
+        options.contract = contract
+        i++
+        break
+      }
+      case "--from":
+        options.fromBlock = BigInt(value)
+        i++
+        break
+      case "--to":
+        options.toBlock = BigInt(value)
+        i++
+        break
+      case "--chunk":
+        options.chunkSize = BigInt(value)
+        i++
+        break
+      case "--restart":
+        options.restart = true
+        break
+      default:
+        console.error(`❌ Unknown argument: ${arg}`)
+        process.exit(1)
+    }
+  }
+
+  return options
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const contracts: LaunchpadContract[] = options.contract ? [options.contract] : getLaunchpadContracts()
+
+  for (const contract of contracts) {
+    const result = await backfillTokenCreations({
+      ...options,
+      contract,
+      onProgress: (progress) => {
+        console.log(
+          `📦 ${contract.label} ${progress.percent.toFixed(2)}% - block ${progress.lastProcessedBlock}/` +
+            `${progress.toBlock}, ${progress.logsFound} launches found, ${progress.tokensSaved} saved, ` +
+            `${progress.tradesSaved} trades (chunk ${progress.chunkSize} blocks)`,
+        )
+      },
+    })
+
+    if (!result.completed) {
+      console.error(
+        `❌ ${contract.label} backfill stopped at block ${result.lastProcessedBlock}; run it again to resume`,
+      )
+      process.exit(1)
+    }
+  }
+
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error("❌ Backfill failed:", error)
+  process.exit(1)
+})
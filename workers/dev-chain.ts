@@ -0,0 +1,70 @@
+// Mock launches on the local dev chain (NEXT_PUBLIC_CHAIN=local, e.g. an anvil node at localhost:8545).
+// Usage: pnpm dev-chain deploy
+//        pnpm dev-chain launch --contract <address> [--count <launches>]
+// `deploy` prints the NEXT_PUBLIC_LAUNCHPAD_CONTRACTS value that points the monitor at the mock contract.
+import "./load-env"
+import { getAddress, parseUnits } from "viem"
+import { rpcClient } from "../lib/rpc-provider"
+import { deployMockLaunchpad, emitMockLaunch, getDevAccount, mockAddress } from "../lib/dev-chain"
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index !== -1 ? process.argv[index + 1] : undefined
+}
+
+async function deploy() {
+  const address = await deployMockLaunchpad()
+  const startBlock = Number(await rpcClient.getBlockNumber())
+  const config = [{ id: "mock", label: "Mock launchpad", kind: "arena", address, startBlock }]
+
+  console.log(`✅ Mock launchpad deployed at ${address}`)
+  console.log(`NEXT_PUBLIC_LAUNCHPAD_CONTRACTS=${JSON.stringify(config)}`)
+}
+
+async function launch() {
+  const contract = getArg("--contract")
+  if (!contract) {
+    console.error("❌ Missing --contract <address>")
+    process.exit(1)
+  }
+
+  const count = Number(getArg("--count") ?? 1)
+  const creator = await getDevAccount()
+  // Block numbers only grow, so they make token ids that don't repeat between runs
+  const firstId = await rpcClient.getBlockNumber()
+
+  for (let i = 0; i < count; i++) {
+    const tokenId = firstId + BigInt(i)
+    const hash = await emitMockLaunch(getAddress(contract), {
+      tokenId,
+      tokenAddress: mockAddress(`token-${tokenId}`),
+      creator,
+      pairAddress: mockAddress(`pair-${tokenId}`),
+      totalSupply: parseUnits("10000000000", 18),
+    })
+    console.log(`🚀 Mock launch ${tokenId} emitted in ${hash}`)
+  }
+}
+
+async function main() {
+  const command = process.argv[2]
+
+  switch (command) {
+    case "deploy":
+      await deploy()
+      break
+    case "launch":
+      await launch()
+      break
+    default:
+      console.error(`❌ Unknown command: ${command ?? "(none)"}, expected deploy or launch`)
+      process.exit(1)
+  }
+
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error("❌ Dev chain command failed:", error)
+  process.exit(1)
+})
@@ -0,0 +1,30 @@
+// Fill in name, symbol and decimals of stored tokens whose creation calldata couldn't be decoded.
+// Usage: pnpm enrich-metadata [--batch <tokens>]
+import "./load-env"
+import { enrichStoredTokens } from "../lib/token-metadata"
+
+const DEFAULT_BATCH_SIZE = 500
+
+async function main() {
+  const batchIndex = process.argv.indexOf("--batch")
+  const batchSize = batchIndex !== -1 ? Number(process.argv[batchIndex + 1]) : DEFAULT_BATCH_SIZE
+
+  // Rows that were completed drop out of the query, so only skip past the ones that are still missing data
+  let offset = 0
+  let completed = 0
+  while (true) {
+    const result = await enrichStoredTokens(batchSize, offset)
+    if (result.checked === 0) break
+
+    completed += result.completed
+    offset += result.checked - result.completed
+  }
+
+  console.log(`✅ Metadata enrichment done: ${completed} tokens completed, ${offset} still missing metadata`)
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error("❌ Metadata enrichment failed:", error)
+  process.exit(1)
+})
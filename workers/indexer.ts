@@ -0,0 +1,77 @@
+// Headless indexer: runs the contract scan loop continuously without a browser attached.
+// Start with `pnpm indexer`, and set NEXT_PUBLIC_INDEXER_MODE=worker so the dashboard only reads stored data.
+import "./load-env"
+import { getMonitoringStatus, startContractMonitoring, stopContractMonitoring } from "../lib/blockchain"
+import { getRpcHealth } from "../lib/rpc-provider"
+import { getUnknownSelectors } from "../lib/method-registry"
+import { traceUntracedCreators } from "../lib/funding"
+
+const STATUS_LOG_INTERVAL = 60 * 1000 // Log a heartbeat every minute
+const FUNDING_TRACE_INTERVAL = 5 * 60 * 1000 // Trace new creators' funding every five minutes
+const FUNDING_TRACE_BATCH = 25
+
+let fundingTraceRunning = false
+
+// Trace the funding of creators stored since the last pass, off the alert path. A pass where every trace
+// fails means the node can't serve historical balances, so tracing stops until the worker restarts.
+async function traceNewCreators(fundingInterval: NodeJS.Timeout) {
+  if (fundingTraceRunning) return
+  fundingTraceRunning = true
+
+  try {
+    const { traced, tried } = await traceUntracedCreators(FUNDING_TRACE_BATCH)
+    if (traced > 0) console.log(`🔎 Traced the funding of ${traced} new creator(s)`)
+    if (tried > 0 && traced === 0) {
+      console.warn("⚠️ Funding traces need an archive RPC node, stopping them. Run pnpm trace-funding against one.")
+      clearInterval(fundingInterval)
+    }
+  } catch (error) {
+    console.error("❌ Error tracing creator funding:", error)
+  } finally {
+    fundingTraceRunning = false
+  }
+}
+
+function shutdown(signal: string, statusInterval: NodeJS.Timeout, fundingInterval: NodeJS.Timeout) {
+  console.log(`🛑 Received ${signal}, stopping headless indexer...`)
+  clearInterval(statusInterval)
+  clearInterval(fundingInterval)
+  stopContractMonitoring()
+  process.exit(0)
+}
+
+function main() {
+  console.log("🚀 Starting headless indexer...")
+  startContractMonitoring()
+
+  const statusInterval = setInterval(() => {
+    const status = getMonitoringStatus()
+    console.log(`💓 Indexer heartbeat - monitoring: ${status.isMonitoring}, last block: ${status.lastProcessedBlock}`)
+
+    for (const endpoint of getRpcHealth()) {
+      console.log(
+        `   RPC ${endpoint.label}: ${endpoint.status}, ${endpoint.requests} requests, ` +
+          `${(endpoint.errorRate * 100).toFixed(1)}% errors, ${endpoint.avgLatencyMs ?? "-"} ms`,
+      )
+    }
+
+    const unknownSelectors = getUnknownSelectors().slice(0, 5)
+    if (unknownSelectors.length > 0) {
+      console.log(
+        `   Unknown selectors: ${unknownSelectors.map((entry) => `${entry.selector} (${entry.count}x)`).join(", ")}`,
+      )
+    }
+  }, STATUS_LOG_INTERVAL)
+
+  const fundingInterval: NodeJS.Timeout = setInterval(() => traceNewCreators(fundingInterval), FUNDING_TRACE_INTERVAL)
+
+  process.on("SIGINT", () => shutdown("SIGINT", statusInterval, fundingInterval))
+  process.on("SIGTERM", () => shutdown("SIGTERM", statusInterval, fundingInterval))
+
+  // Keep the worker alive when a single background task fails
+  process.on("unhandledRejection", (error) => {
+    console.error("❌ Unhandled rejection in headless indexer:", error)
+  })
+}
+
+main()
@@ -0,0 +1,9 @@
+import { loadEnvConfig } from "@next/env"
+
+// Load .env / .env.local the same way `next dev` does; must run before any lib module reads process.env
+loadEnvConfig(process.cwd())
+
+if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+  console.error("❌ Supabase environment variables are missing, add them to .env.local before starting a worker")
+  process.exit(1)
+}
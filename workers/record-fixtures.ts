@@ -0,0 +1,89 @@
+// Record the RPC responses the pipeline needs for a set of launches, for the offline tests in lib/*.test.ts.
+// Usage: pnpm record-fixtures <name> [--tx <hash>]... [--head <block>] [--monitor]
+// --tx runs the Transaction Analyzer on a transaction. --head pins the chain head, so fetchContractTransactions
+// scans the 500 blocks up to it (and replays see the same head). --monitor also runs one monitor pass at the
+// head, which stores what it finds like the indexer does: point it at a scratch Supabase project.
+// Fixtures are written to fixtures/rpc/<name>.json.
+import "./load-env"
+import { toHex } from "viem"
+import {
+  fetchContractTransactions,
+  getMonitoringStatus,
+  startContractMonitoring,
+  stopContractMonitoring,
+} from "../lib/blockchain"
+import { getChainId } from "../lib/chains"
+import { createRpcRecorder, saveRpcFixture } from "../lib/rpc-fixtures"
+import { setRpcHandler } from "../lib/rpc-provider"
+import { analyzeTransaction } from "../lib/transaction-analyzer"
+
+const MONITOR_TIMEOUT = 5 * 60 * 1000
+// Launches are stored in the background after the monitor emits them
+const SETTLE_TIME = 5000
+
+function getArgs(name: string): string[] {
+  return process.argv.flatMap((arg, index) =>
+    arg === name && process.argv[index + 1] ? [process.argv[index + 1]] : [],
+  )
+}
+
+async function runMonitorPass(head: bigint) {
+  startContractMonitoring()
+
+  const startedAt = Date.now()
+  while (BigInt(getMonitoringStatus().lastProcessedBlock) < head) {
+    if (Date.now() - startedAt > MONITOR_TIMEOUT) throw new Error(`Monitor didn't reach block ${head} in time`)
+    await new Promise((resolve) => setTimeout(resolve, 500))
+  }
+
+  await new Promise((resolve) => setTimeout(resolve, SETTLE_TIME))
+  stopContractMonitoring()
+}
+
+async function main() {
+  const name = process.argv[2]
+  if (!name || name.startsWith("--")) {
+    console.error("❌ Missing fixture name, e.g. pnpm record-fixtures my-launch --head 60000000")
+    process.exit(1)
+  }
+
+  const hashes = getArgs("--tx")
+  const head = getArgs("--head")[0] ? BigInt(getArgs("--head")[0]) : null
+  if (hashes.length === 0 && head === null) {
+    console.error("❌ Nothing to record, pass --tx <hash> and/or --head <block>")
+    process.exit(1)
+  }
+
+  const recorder = createRpcRecorder({ name, chainId: getChainId() })
+  setRpcHandler((args, next) =>
+    args.method === "eth_blockNumber" && head !== null
+      ? recorder.handler(args, async () => toHex(head))
+      : recorder.handler(args, next),
+  )
+
+  if (head !== null) {
+    const transactions = await fetchContractTransactions()
+    console.log(`📼 Recorded ${transactions.length} launches up to block ${head}`)
+    hashes.push(...transactions.map((transaction) => transaction.hash))
+
+    if (process.argv.includes("--monitor")) {
+      await runMonitorPass(head)
+      console.log(`📼 Recorded a monitor pass at block ${head}`)
+    }
+  }
+
+  for (const hash of new Set(hashes)) {
+    const analysis = await analyzeTransaction(hash)
+    console.log(analysis ? `📼 Recorded ${hash}` : `⚠️ ${hash} could not be analyzed`)
+  }
+
+  setRpcHandler(null)
+  const file = saveRpcFixture(recorder.toFixture())
+  console.log(`✅ Saved ${recorder.calls.length} responses to ${file}`)
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error("❌ Recording failed:", error)
+  process.exit(1)
+})
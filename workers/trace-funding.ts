@@ -0,0 +1,48 @@
+// Trace where creator wallets got their first AVAX and group creators that share a funder into clusters.
+// Usage: pnpm trace-funding [--hops <n>] [--batch <creators>] [--retrace]
+// Needs an archive RPC node (historical balances). The headless indexer also traces new creators as they show up.
+import "./load-env"
+import { getCreatorsToTrace, rebuildCreatorClusters, traceCreatorFunding } from "../lib/funding"
+
+const DEFAULT_BATCH_SIZE = 100
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index !== -1 ? process.argv[index + 1] : undefined
+}
+
+async function main() {
+  const hops = getArg("--hops") ? Number(getArg("--hops")) : undefined
+  const batchSize = getArg("--batch") ? Number(getArg("--batch")) : DEFAULT_BATCH_SIZE
+  const retrace = process.argv.includes("--retrace")
+
+  // Traced creators drop out of the query unless retracing, so only page forward past the ones that failed
+  let offset = 0
+  let traced = 0
+  while (true) {
+    const wallets = await getCreatorsToTrace(batchSize, retrace, offset)
+    if (wallets.length === 0) break
+
+    let batchTraced = 0
+    for (const wallet of wallets) {
+      const trace = await traceCreatorFunding(wallet, hops)
+      if (trace) {
+        batchTraced++
+        console.log(`🔎 ${wallet}: funded by ${trace.path[0]?.funder ?? "unknown"} (${trace.path.length} hop(s))`)
+      }
+    }
+
+    traced += batchTraced
+    offset += retrace ? wallets.length : wallets.length - batchTraced
+  }
+
+  const clusters = await rebuildCreatorClusters()
+  const clustered = clusters.reduce((sum, cluster) => sum + cluster.wallets.length, 0)
+  console.log(`✅ Funding trace done: ${traced} creators traced, ${clusters.length} clusters of ${clustered} wallets`)
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error("❌ Funding trace failed:", error)
+  process.exit(1)
+})